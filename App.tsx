@@ -1,10 +1,28 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Role, Checkpoint, ScanLog, User, ScanStatus } from './types';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Role, Checkpoint, ScanLog, User, ScanStatus, QrSigningKey, PatrolRoute, PatrolRound, SiteSettings, Incident, IncidentStatus, SosAlert } from './types';
 import Dashboard from './components/Dashboard';
 import Scanner from './components/Scanner';
 import HelpModal from './components/HelpModal';
 import AdminQrSetup from './components/AdminQrSetup';
-import { saveLogToSheet, fetchAllDataFromSheet, getScriptUrl, addOfficerToSheet, removeOfficerFromSheet, addCheckpointToSheet } from './services/sheetService';
+import LoginScreen from './components/LoginScreen';
+import IncidentForm from './components/IncidentForm';
+import { getBackend, getBackendConfig, isBackendConfigured } from './services/backendService';
+import { loadCloudCache, applyDelta, saveCloudCache } from './services/cloudCache';
+import { hashPin, getStoredSession, endSession, hasPin, hasPermission, rememberCredential, takeLegacyCredentials, Session, Permission, SetupStatus } from './services/authService';
+import { rotateSigningKey, mergeQrKeys, getSigningState, recordSigningState } from './services/qrSigningService';
+import { getRoundLogs, getRoundProgress } from './services/patrolRouteService';
+import { getActiveCheckpoints, getRoutesUsing } from './services/checkpointService';
+import { isActiveOfficer } from './services/officerService';
+import { enqueueLog, enqueueSos, subscribeOutbox, startOutboxSync, OutboxEntry } from './services/outboxService';
+import { getPhotoStorageAdapter } from './services/photoStorage';
+import { createIncident, advanceIncident, IncidentDraft } from './services/incidentService';
+import { shiftDateOf, formatShiftDate } from './services/scheduleService';
+import { startShiftTracker, TrackerStatus } from './services/trackingService';
+import { createSosAlert, shouldSendPosition, watchSosPosition, isSosLive, mergeSosAlerts } from './services/sosService';
+import { stamp, syncCollection, sendRecord, deleteRecord, resetSyncState, getSyncConflicts, clearSyncConflicts, SyncConflict } from './services/syncService';
+import { getDeviceTimeZone, formatTime, getCurrentPosition, isOfficersLog } from './utils';
+
+const SOS_POLL_INTERVAL_MS = 15000;
 
 // --- MOCK DATA SETUP ---
 const DEFAULT_CHECKPOINTS: Checkpoint[] = [
@@ -16,7 +34,8 @@ const DEFAULT_CHECKPOINTS: Checkpoint[] = [
     schedule: { 
       type: 'FIXED_TIME', 
       fixedTimes: ['08:00', '12:00', '16:00', '20:00'], 
-      toleranceMinutes: 10 // Requested +/- 10 minutes
+      toleranceMinutes: 10, // Requested +/- 10 minutes
+      lateGraceMinutes: 20
     }
   },
   { 
@@ -28,6 +47,11 @@ const DEFAULT_CHECKPOINTS: Checkpoint[] = [
   }
 ];
 
+const DEFAULT_SITE_SETTINGS: SiteSettings = {
+  shiftDayStart: '00:00',
+  timeZone: getDeviceTimeZone()
+};
+
 const DEFAULT_OFFICERS: User[] = [
   { id: 'OFF-001', name: 'Somsak Jaidee', role: Role.OFFICER },
   { id: 'OFF-002', name: 'Mana Meemark', role: Role.OFFICER }
@@ -37,9 +61,14 @@ const App: React.FC = () => {
   const [currentView, setCurrentView] = useState<'dashboard' | 'scanner' | 'admin-setup'>('dashboard');
   const [logs, setLogs] = useState<ScanLog[]>([]);
   const [showHelp, setShowHelp] = useState(false);
-  const [initialScanId, setInitialScanId] = useState<string | null>(null);
+  const [initialScanValue, setInitialScanValue] = useState<string | null>(null);
   const [isSyncing, setIsSyncing] = useState(false);
   const [lastSyncTime, setLastSyncTime] = useState<Date | null>(null);
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
+  const [logSyncErrors, setLogSyncErrors] = useState<string[]>([]);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>(() => getSyncConflicts());
+  const outboxSizeRef = useRef<number>(0);
+  const [session, setSession] = useState<Session | null>(() => getStoredSession());
 
   // --- PERSISTENCE: CHECKPOINTS ---
   const [checkpoints, setCheckpoints] = useState<Checkpoint[]>(() => {
@@ -55,12 +84,99 @@ const App: React.FC = () => {
   const [officers, setOfficers] = useState<User[]>(() => {
     try {
       const saved = localStorage.getItem('securepatrol_officers');
-      return saved ? JSON.parse(saved) : DEFAULT_OFFICERS;
+      return saved ? takeLegacyCredentials(JSON.parse(saved)) : DEFAULT_OFFICERS;
     } catch (e) {
       return DEFAULT_OFFICERS;
     }
   });
 
+  // --- PERSISTENCE: QR SIGNING KEYS (public halves) ---
+  const [qrKeys, setQrKeys] = useState<QrSigningKey[]>(() => {
+    try {
+      const saved = localStorage.getItem('securepatrol_qr_keys');
+      return saved ? JSON.parse(saved) : [];
+    } catch (e) {
+      return [];
+    }
+  });
+
+  // --- PERSISTENCE: PATROL ROUTES ---
+  const [routes, setRoutes] = useState<PatrolRoute[]>(() => {
+    try {
+      const saved = localStorage.getItem('securepatrol_routes');
+      return saved ? JSON.parse(saved) : [];
+    } catch (e) {
+      return [];
+    }
+  });
+
+  // --- PERSISTENCE: INCIDENTS ---
+  const [incidents, setIncidents] = useState<Incident[]>(() => {
+    try {
+      const saved = localStorage.getItem('securepatrol_incidents');
+      return saved ? JSON.parse(saved) : [];
+    } catch (e) {
+      return [];
+    }
+  });
+
+  // undefined = form closed, '' = open without a checkpoint
+  const [incidentCheckpointId, setIncidentCheckpointId] = useState<string | undefined>(undefined);
+
+  // Latest synced collections for loadCloudData, which merges into them without re-creating itself
+  const syncedRef = useRef({ officers, checkpoints, routes, incidents, qrKeys });
+  syncedRef.current = { officers, checkpoints, routes, incidents, qrKeys };
+
+  // --- SOS ---
+  // Alerts seen from the cloud (all officers), and this device's own alert while it is active
+  const [sosAlerts, setSosAlerts] = useState<SosAlert[]>([]);
+  const [mySos, setMySos] = useState<SosAlert | null>(() => {
+    try {
+      const saved = localStorage.getItem('securepatrol_active_sos');
+      return saved ? JSON.parse(saved) : null;
+    } catch (e) {
+      return null;
+    }
+  });
+  const mySosRef = useRef<SosAlert | null>(mySos);
+  const [sosError, setSosError] = useState<string | null>(null);
+  const [acknowledgedSosIds, setAcknowledgedSosIds] = useState<string[]>(() => {
+    try {
+      const saved = localStorage.getItem('securepatrol_sos_acknowledged');
+      return saved ? JSON.parse(saved) : [];
+    } catch (e) {
+      return [];
+    }
+  });
+
+  // --- SHIFT TRACKER (opt-in, per device) ---
+  const [trackingEnabled, setTrackingEnabled] = useState<boolean>(() => localStorage.getItem('securepatrol_shift_tracking') === 'true');
+  const [trackerStatus, setTrackerStatus] = useState<{ status: TrackerStatus; message?: string } | null>(null);
+
+  // --- PERSISTENCE: SITE SETTINGS ---
+  const [siteSettings, setSiteSettings] = useState<SiteSettings>(() => {
+    try {
+      const saved = localStorage.getItem('securepatrol_site_settings');
+      return saved ? { ...DEFAULT_SITE_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SITE_SETTINGS;
+    } catch (e) {
+      return DEFAULT_SITE_SETTINGS;
+    }
+  });
+
+  // Round in progress on this device (survives reloads)
+  const [activeRound, setActiveRound] = useState<PatrolRound | null>(() => {
+    try {
+      const saved = localStorage.getItem('securepatrol_active_round');
+      return saved ? JSON.parse(saved) : null;
+    } catch (e) {
+      return null;
+    }
+  });
+
+  // --- PERSISTENCE: DEMO MODE ---
+  // Simulation buttons in the Scanner are only shown to admins, and only once demo mode is enabled
+  const [demoMode, setDemoMode] = useState<boolean>(() => localStorage.getItem('securepatrol_demo_mode') === 'true');
+
   useEffect(() => {
     localStorage.setItem('securepatrol_checkpoints', JSON.stringify(checkpoints));
   }, [checkpoints]);
@@ -69,30 +185,179 @@ const App: React.FC = () => {
     localStorage.setItem('securepatrol_officers', JSON.stringify(officers));
   }, [officers]);
 
+  useEffect(() => {
+    localStorage.setItem('securepatrol_qr_keys', JSON.stringify(qrKeys));
+  }, [qrKeys]);
+
+  useEffect(() => {
+    localStorage.setItem('securepatrol_routes', JSON.stringify(routes));
+  }, [routes]);
+
+  useEffect(() => {
+    localStorage.setItem('securepatrol_incidents', JSON.stringify(incidents));
+  }, [incidents]);
+
+  useEffect(() => {
+    mySosRef.current = mySos;
+    if (mySos) {
+      localStorage.setItem('securepatrol_active_sos', JSON.stringify(mySos));
+    } else {
+      localStorage.removeItem('securepatrol_active_sos');
+    }
+  }, [mySos]);
+
+  useEffect(() => {
+    localStorage.setItem('securepatrol_shift_tracking', String(trackingEnabled));
+  }, [trackingEnabled]);
+
+  useEffect(() => {
+    localStorage.setItem('securepatrol_sos_acknowledged', JSON.stringify(acknowledgedSosIds));
+  }, [acknowledgedSosIds]);
+
+  // Read by loadCloudData without making it re-run when settings change
+  const siteTimeZoneRef = useRef(siteSettings.timeZone);
+
+  useEffect(() => {
+    localStorage.setItem('securepatrol_site_settings', JSON.stringify(siteSettings));
+    siteTimeZoneRef.current = siteSettings.timeZone;
+  }, [siteSettings]);
+
+  useEffect(() => {
+    if (activeRound) {
+      localStorage.setItem('securepatrol_active_round', JSON.stringify(activeRound));
+    } else {
+      localStorage.removeItem('securepatrol_active_round');
+    }
+  }, [activeRound]);
+
+  // --- SESSION ---
+  // A deactivated account drops back to the login screen, even mid-session
+  const sessionUser = session ? officers.find(o => o.id === session.userId) : undefined;
+  const currentUser = sessionUser && isActiveOfficer(sessionUser) ? sessionUser : null;
+
+  const handleLogout = useCallback(() => {
+    endSession();
+    setSession(null);
+    setCurrentView('dashboard');
+  }, []);
+
+  const canManageConfig = hasPermission(currentUser, 'MANAGE_CONFIG');
+  const canScan = hasPermission(currentUser, 'SCAN');
+  const canManageIncidents = hasPermission(currentUser, 'MANAGE_INCIDENTS');
+  const canViewTracks = hasPermission(currentUser, 'VIEW_TRACKS');
+  // The self-hosted server only takes admin and review changes from a session it issued, which an offline sign-in lacks
+  const needsOnlineSignIn = isBackendConfigured() && getBackendConfig().kind === 'REST' && !session?.backendSession && (canManageConfig || canManageIncidents);
+  // Archived checkpoints are kept for the logs that point at them, but not offered for scanning
+  const activeCheckpoints = getActiveCheckpoints(checkpoints);
+
+  // Every config-changing handler re-checks the role; hidden buttons alone are not enough
+  const requirePermission = (permission: Permission): boolean => {
+    if (hasPermission(currentUser, permission)) return true;
+    alert("You do not have permission to do this.");
+    return false;
+  };
+
+  // Leave admin-only views if the role changes (e.g. after a sync) or the view is not allowed
+  useEffect(() => {
+    if (currentView === 'admin-setup' && !canManageConfig) setCurrentView('dashboard');
+    if (currentView === 'scanner' && currentUser && !canScan) setCurrentView('dashboard');
+  }, [currentView, canManageConfig, canScan, currentUser]);
+
+  // End the shift automatically once the session expires
+  useEffect(() => {
+    if (!session) return;
+    const timer = window.setInterval(() => {
+        if (session.expiresAt <= Date.now()) {
+            handleLogout();
+            alert("Your shift session has expired. Please sign in again.");
+        }
+    }, 30000);
+    return () => window.clearInterval(timer);
+  }, [session, handleLogout]);
+
+  useEffect(() => {
+    localStorage.setItem('securepatrol_demo_mode', String(demoMode));
+  }, [demoMode]);
+
   // --- DATA SYNC ---
   const loadCloudData = useCallback(async () => {
-        if (!getScriptUrl()) return;
+        if (!isBackendConfigured()) return;
         setIsSyncing(true);
         try {
-            const cloudData = await fetchAllDataFromSheet();
+            // Only changes since the cached copy are downloaded; cloudData is the full view either way
+            const backend = getBackend();
+            const { kind, url } = getBackendConfig();
+            const source = `${kind} ${url}`;
+            const cached = await loadCloudCache(source);
+            const reply = await backend.fetchAll(siteTimeZoneRef.current, cached?.cursor);
+            if (!reply) return;
+            const cloudData = reply.delta && cached ? applyDelta(cached.snapshot, reply) : reply;
+            saveCloudCache(source, cloudData, reply, cached).catch(error => console.warn("Could not cache cloud data:", error));
+            const local = syncedRef.current;
             
-            // 1. Sync Logs
+            // 1. Sync Logs. Logs are never edited, so the cloud copy wins; scans made on this device
+            // stay until the cloud lists them, whether still in the outbox or just sent.
             if (cloudData.logs.length > 0) {
-                setLogs(cloudData.logs);
+                const cloudIds = new Set(cloudData.logs.map(l => l.id));
+                setLogs(prev => [
+                    ...cloudData.logs,
+                    ...prev.filter(l => l.syncState && !cloudIds.has(l.id))
+                ]);
             }
+            setLogSyncErrors(cloudData.logErrors);
 
-            // 2. Sync Officers
+            // 2. Merge Officers record by record (see syncService), then re-send whatever the
+            // cloud is missing: a write that failed, or a deletion made here. Same for 3, 5 and 6.
             if (cloudData.officers.length > 0) {
-                console.log("Synced officers from Sheet:", cloudData.officers);
-                setOfficers(cloudData.officers);
+                // Older sheets have no hasPin column: keep what this device knows rather than hiding everyone
+                const cloudOfficers = cloudData.officers.map(o => {
+                    if (o.hasPin) return o;
+                    const device = local.officers.find(p => p.id === o.id);
+                    return device?.hasPin ? { ...o, hasPin: true } : o;
+                });
+                const merged = syncCollection('officers', local.officers, cloudOfficers, o => o.name);
+                setOfficers(merged.records);
+                merged.toPush.forEach(o => sendRecord('officers', o, cloudOfficers.some(c => c.id === o.id) ? backend.updateOfficer : backend.addOfficer));
             }
 
-            // 3. Sync Checkpoints
+            // 3. Merge Checkpoints
             if (cloudData.checkpoints.length > 0) {
-                console.log("Synced checkpoints from Sheet:", cloudData.checkpoints);
-                setCheckpoints(cloudData.checkpoints);
+                const merged = syncCollection('checkpoints', local.checkpoints, cloudData.checkpoints, c => c.name);
+                setCheckpoints(merged.records);
+                merged.toPush.forEach(c => sendRecord('checkpoints', c, backend.updateCheckpoint));
+            }
+
+            // 4. Merge QR Signing Keys by version; revocations stick
+            const mergedKeys = mergeQrKeys(local.qrKeys, cloudData.qrKeys);
+            recordSigningState(mergedKeys.keys);
+            setQrKeys(mergedKeys.keys);
+            mergedKeys.toPush.forEach(k => backend.saveQrKey(k));
+
+            // 5. Merge Patrol Routes
+            if (cloudData.routes.length > 0) {
+                const merged = syncCollection('routes', local.routes, cloudData.routes, r => r.name);
+                setRoutes(merged.records);
+                merged.toPush.forEach(r => sendRecord('routes', r, backend.saveRoute));
+            }
+
+            // 6. Merge Incidents (reports that have not reached the cloud yet are kept and re-sent)
+            if (cloudData.incidents.length > 0) {
+                const merged = syncCollection('incidents', local.incidents, cloudData.incidents, i => i.checkpointName ? `${i.category} at ${i.checkpointName}` : i.category);
+                setIncidents(merged.records);
+                merged.toPush.forEach(i => sendRecord('incidents', i, backend.saveIncident));
             }
 
+            // 7. Sync SOS Alerts
+            if (cloudData.sosAlerts.length > 0) {
+                setSosAlerts(prev => mergeSosAlerts(prev, cloudData.sosAlerts));
+            }
+
+            // 8. Sync Site Settings
+            if (cloudData.settings) {
+                setSiteSettings(prev => ({ ...prev, ...cloudData.settings }));
+            }
+
+            setSyncConflicts(getSyncConflicts());
             setLastSyncTime(new Date());
         } catch (e) {
             console.error("Sync failed:", e);
@@ -106,6 +371,106 @@ const App: React.FC = () => {
     loadCloudData();
   }, [loadCloudData]);
 
+  // --- FIRST RUN ---
+  // Creating the first administrator is only offered once the backend confirms no account has a PIN
+  const [setupStatus, setSetupStatus] = useState<SetupStatus>('CHECKING');
+  const hasLocalAccounts = officers.some(hasPin);
+  useEffect(() => {
+    if (session) return;
+    if (!isBackendConfigured()) {
+        setSetupStatus(hasLocalAccounts ? 'READY' : 'NEEDS_ADMIN');
+        return;
+    }
+    let cancelled = false;
+    getBackend().fetchSetupStatus().then(status => {
+        if (!cancelled) setSetupStatus(!status ? 'UNREACHABLE' : status.needsAdmin ? 'NEEDS_ADMIN' : 'READY');
+    });
+    return () => { cancelled = true; };
+  }, [session, hasLocalAccounts]);
+
+  // --- SOS POLLING ---
+  // Alerts must reach open dashboards quickly, so they are polled on their own
+  useEffect(() => {
+    if (!session) return;
+    const poll = async () => {
+        const alerts = await getBackend().fetchSosAlerts();
+        if (alerts) setSosAlerts(prev => mergeSosAlerts(prev, alerts));
+    };
+    const timer = window.setInterval(poll, SOS_POLL_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [session]);
+
+  // --- SOS TRACKING ---
+  // Keeps streaming this device's position while its alert is active (also after a reload)
+  const sendSos = useCallback((alert: SosAlert) => {
+    setSosAlerts(prev => mergeSosAlerts(prev, [alert]));
+    enqueueSos(alert).catch(error => {
+        console.error("Outbox unavailable, sending SOS directly:", error);
+        getBackend().saveSos(alert);
+    });
+  }, []);
+
+  const mySosId = mySos?.id;
+  useEffect(() => {
+    if (!mySosId) return;
+    return watchSosPosition(
+        location => {
+            const current = mySosRef.current;
+            if (!current || current.id !== mySosId || !shouldSendPosition(current, location)) return;
+            const updated: SosAlert = { ...current, location, updatedAt: Date.now() };
+            mySosRef.current = updated;
+            setMySos(updated);
+            sendSos(updated);
+            setSosError(null);
+        },
+        setSosError
+    );
+  }, [mySosId, sendSos]);
+
+  // --- SHIFT TRACKING ---
+  // Runs only while an officer who opted in is signed in; signing out ends the recording
+  const trackedOfficerId = trackingEnabled && canScan ? currentUser?.id : undefined;
+  useEffect(() => {
+    if (!trackedOfficerId) {
+        setTrackerStatus(null);
+        return;
+    }
+    const clock = { shiftDayStart: siteSettings.shiftDayStart, timeZone: siteSettings.timeZone };
+    return startShiftTracker(trackedOfficerId, clock, (status, message) => setTrackerStatus({ status, message }));
+  }, [trackedOfficerId, siteSettings.shiftDayStart, siteSettings.timeZone]);
+
+  // --- OFFLINE OUTBOX ---
+  useEffect(() => {
+    const stopSync = startOutboxSync();
+    const unsubscribe = subscribeOutbox(entries => {
+        setOutbox(entries);
+
+        // Reflect outbox state on the matching logs, and restore queued scans after a reload
+        const queued = new Map(entries.map(e => [e.id, e.log]));
+        setLogs(prev => {
+            const known = new Set(prev.map(l => l.id));
+            const updated = prev.map(l => {
+                const queuedLog = queued.get(l.id);
+                if (queuedLog) return queuedLog;
+                return l.syncState && l.syncState !== 'SENT' ? { ...l, syncState: 'SENT' as const } : l;
+            });
+            const restored = entries.filter(e => !known.has(e.id)).map(e => e.log);
+            return [...updated, ...restored];
+        });
+
+        // Something was uploaded: refresh so the dashboard shows the sheet's copy
+        if (entries.length < outboxSizeRef.current) {
+            setTimeout(() => loadCloudData(), 2000);
+        }
+        outboxSizeRef.current = entries.length;
+    });
+
+    return () => {
+        unsubscribe();
+        stopSync();
+    };
+  }, [loadCloudData]);
+
   // --- DEEP LINK HANDLER ---
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
@@ -113,8 +478,11 @@ const App: React.FC = () => {
 
     if (cpId) {
         const exists = checkpoints.find(c => c.id === cpId);
-        if (exists) {
-            setInitialScanId(cpId);
+        if (exists?.archived) {
+            alert(`Checkpoint "${exists.name}" has been retired. Please report this tag to an admin.`);
+        } else if (exists) {
+            // Hand the full URL to the Scanner so the tag signature is verified like a camera scan
+            setInitialScanValue(window.location.href);
             setCurrentView('scanner');
         } else {
             alert(`Error: Checkpoint ID "${cpId}" not found in system.`);
@@ -123,73 +491,411 @@ const App: React.FC = () => {
     }
   }, [checkpoints]);
   
-  const handleScanComplete = async (log: ScanLog) => {
-    // 1. Update Local State (Immediate Feedback)
-    setLogs(prev => [...prev, log]);
-    
-    // 2. Save to Google Sheets (Fire and forget)
-    // We don't await this to block UI, but we trigger a background sync after a delay to ensure consistency
-    saveLogToSheet(log).then(() => {
-        setTimeout(() => loadCloudData(), 2000); // Reload after 2s to get updated sheet status if needed
+  // Shows the log immediately and hands it to the offline outbox, which uploads in the background
+  // and retries until confirmed. Returns the log as queued.
+  const queueLog = (log: ScanLog, photo?: Blob): ScanLog => {
+    const queuedLog: ScanLog = { ...log, syncState: 'PENDING', evidencePhotoPending: !!photo || undefined };
+    setLogs(prev => [...prev, queuedLog]);
+
+    enqueueLog(queuedLog, photo).catch(async error => {
+        // IndexedDB unavailable (e.g. private browsing): fall back to a direct upload
+        console.error("Outbox unavailable, sending directly:", error);
+        const stored = photo ? await getPhotoStorageAdapter().upload(photo, `${log.checkpointId}_${log.id}.jpg`) : null;
+        const directLog: ScanLog = { ...log, evidencePhotoUrl: stored?.url, evidenceThumbnailUrl: stored?.thumbnailUrl };
+        const sent = await getBackend().saveLog(directLog);
+        setLogs(prev => prev.map(l => l.id === log.id ? { ...directLog, syncState: sent ? 'SENT' : 'FAILED' } : l));
     });
 
-    setInitialScanId(null);
+    return queuedLog;
+  };
+
+  const handleScanComplete = async (log: ScanLog, photo?: Blob) => {
+    // 1. Show it and queue it for upload
+    const queuedLog = queueLog(log, photo);
+
+    // 2. Close the round once its last stop is scanned
+    if (activeRound && log.roundId === activeRound.id) {
+        const route = routes.find(r => r.id === activeRound.routeId);
+        const roundLogs = getRoundLogs([...logs, queuedLog], activeRound.id);
+        if (route && getRoundProgress(route, activeRound.startedAt, roundLogs).isFinished) {
+            setActiveRound(null);
+        }
+    }
+
+    setInitialScanValue(null);
     setCurrentView('dashboard');
   };
 
   const handleAddCheckpoint = async (newCheckpoint: Checkpoint) => {
-      setCheckpoints(prev => [...prev, newCheckpoint]);
+      if (!requirePermission('MANAGE_CONFIG')) return;
+      const checkpoint = stamp(newCheckpoint);
+      setCheckpoints(prev => [...prev, checkpoint]);
       // Save to Cloud
-      await addCheckpointToSheet(newCheckpoint);
+      await sendRecord('checkpoints', checkpoint, getBackend().addCheckpoint);
       loadCloudData(); // Trigger sync
   };
 
-  const handleAddOfficer = async (newOfficer: User) => {
-      setOfficers(prev => [...prev, newOfficer]);
-      await addOfficerToSheet(newOfficer);
+  // Edits, archiving and tag reissues; the ID (what the tag encodes) never changes
+  const handleUpdateCheckpoint = async (updated: Checkpoint) => {
+      if (!requirePermission('MANAGE_CONFIG')) return;
+      const checkpoint = stamp(updated);
+      setCheckpoints(prev => prev.map(c => c.id === checkpoint.id ? checkpoint : c));
+      await sendRecord('checkpoints', checkpoint, getBackend().updateCheckpoint);
+  };
+
+  const handleArchiveCheckpoint = async (id: string, archived: boolean) => {
+      if (!requirePermission('MANAGE_CONFIG')) return;
+      const existing = checkpoints.find(c => c.id === id);
+      if (!existing) return;
+      const usedBy = getRoutesUsing(id, routes);
+      if (archived && usedBy.length > 0) {
+          alert(`"${existing.name}" is a stop on ${usedBy.map(r => r.name).join(', ')}. Remove it from those routes first.`);
+          return;
+      }
+      if (archived && !confirm(`Archive "${existing.name}"? It will no longer be scanned or scheduled. Past logs keep pointing at it and it can be restored later.`)) return;
+      await handleUpdateCheckpoint({ ...existing, archived: archived || undefined });
+  };
+
+  // Only for checkpoints without history, here or on the backend; anything scanned is archived instead
+  const handleRemoveCheckpoint = async (id: string) => {
+      if (!requirePermission('MANAGE_CONFIG')) return;
+      const existing = checkpoints.find(c => c.id === id);
+      if (!existing) return;
+      const usedBy = getRoutesUsing(id, routes);
+      if (usedBy.length > 0) {
+          alert(`"${existing.name}" is a stop on ${usedBy.map(r => r.name).join(', ')}. Remove it from those routes first.`);
+          return;
+      }
+      // Queued scans may not be in the list yet, and the list may not hold the whole history
+      const logsAt = (list: ScanLog[]) => list.filter(l => l.checkpointId === id).map(l => l.id);
+      const logIds = new Set([...logsAt(logs), ...logsAt(outbox.map(e => e.log))]);
+      if (logIds.size === 0 && isBackendConfigured()) {
+          const cloud = await getBackend().fetchAll(siteTimeZoneRef.current); // Full pull, no cursor
+          if (!cloud) {
+              alert(`Could not check the backend for logs at "${existing.name}". Archive it instead, or try again once online.`);
+              return;
+          }
+          logsAt(cloud.logs).forEach(logId => logIds.add(logId));
+      }
+      if (logIds.size > 0) {
+          alert(`"${existing.name}" has ${logIds.size} log${logIds.size === 1 ? '' : 's'}. Archive it instead so they keep pointing at it.`);
+          return;
+      }
+      if (!confirm(`Delete "${existing.name}"? Its printed tag will stop working.`)) return;
+      setCheckpoints(prev => prev.filter(c => c.id !== id));
+      await sendRecord('checkpoints', deleteRecord('checkpoints', existing), getBackend().updateCheckpoint);
+  };
+
+  // Badge photos go to the same storage as evidence photos. A failed upload keeps the old photo.
+  const uploadBadgePhoto = async (officerId: string, photo?: Blob): Promise<string | undefined> => {
+      if (!photo) return undefined;
+      const stored = await getPhotoStorageAdapter().upload(photo, `badge_${officerId}_${Date.now()}.jpg`);
+      if (!stored) alert("The badge photo could not be uploaded. The profile was saved without it.");
+      return stored?.url;
+  };
+
+  // PINs go to the backend on their own and never into the synced officer record. Without a
+  // backend, the device's copy is the only one.
+  const savePin = async (officerId: string, pin: string): Promise<boolean> => {
+      const credential = await hashPin(pin);
+      if (!isBackendConfigured()) {
+          rememberCredential(officerId, credential);
+          return true;
+      }
+      const saved = await getBackend().setOfficerPin(officerId, credential);
+      if (!saved) alert("The PIN could not be saved to the backend. Check the connection and set it again.");
+      return saved;
+  };
+
+  const handleAddOfficer = async (newOfficer: User, pin: string, photo?: Blob) => {
+      if (!requirePermission('MANAGE_CONFIG')) return;
+      const photoUrl = await uploadBadgePhoto(newOfficer.id, photo);
+      const pinSaved = await savePin(newOfficer.id, pin);
+      const officer = stamp({ ...newOfficer, ...(photoUrl ? { photoUrl } : {}), ...(pinSaved ? { hasPin: true } : {}) });
+      setOfficers(prev => [...prev, officer]);
+      await sendRecord('officers', officer, getBackend().addOfficer);
       loadCloudData(); // Sync to be sure
   };
 
-  const handleRemoveOfficer = async (id: string) => {
-      if (confirm('Are you sure you want to remove this officer?')) {
-        setOfficers(prev => prev.filter(o => o.id !== id));
-        await removeOfficerFromSheet(id);
-        loadCloudData(); // Sync to be sure
+  // Profile fields only; role, PIN and status have their own handlers and checks
+  const handleUpdateOfficer = async (profile: User, photo?: Blob) => {
+      if (!requirePermission('MANAGE_CONFIG')) return;
+      const existing = officers.find(o => o.id === profile.id);
+      if (!existing) return;
+      const photoUrl = await uploadBadgePhoto(profile.id, photo);
+      const officer = stamp({
+          ...existing,
+          name: profile.name,
+          phone: profile.phone,
+          assignedSites: profile.assignedSites,
+          shift: profile.shift,
+          photoUrl: photoUrl || profile.photoUrl
+      });
+      setOfficers(prev => prev.map(o => o.id === officer.id ? officer : o));
+      await sendRecord('officers', officer, getBackend().updateOfficer);
+  };
+
+  const handleSetOfficerPin = async (id: string, pin: string) => {
+      if (!requirePermission('MANAGE_CONFIG')) return;
+      const existing = officers.find(o => o.id === id);
+      if (!existing || !await savePin(id, pin)) return;
+      const officer = stamp({ ...existing, hasPin: true });
+      setOfficers(prev => prev.map(o => o.id === id ? officer : o));
+      await sendRecord('officers', officer, getBackend().updateOfficer);
+  };
+
+  const handleSetOfficerRole = async (id: string, role: Role) => {
+      if (!requirePermission('MANAGE_CONFIG')) return;
+      if (id === currentUser?.id && role !== Role.ADMIN) {
+          alert("You cannot remove your own admin role.");
+          return;
       }
+      const existing = officers.find(o => o.id === id);
+      if (!existing) return;
+      const officer = stamp({ ...existing, role });
+      setOfficers(prev => prev.map(o => o.id === id ? officer : o));
+      await sendRecord('officers', officer, getBackend().updateOfficer);
+  };
+
+  // First-run bootstrap from the login screen. With a backend, it decides whether this is the first
+  // administrator; local officer lists can be empty simply because nothing was synced yet.
+  const handleCreateAdmin = async (admin: User, pin: string) => {
+      const credential = await hashPin(pin);
+      const account = stamp({ ...admin, hasPin: true });
+      if (isBackendConfigured()) {
+          const created = await sendRecord('officers', account, a => getBackend().createFirstAdmin(a, credential));
+          if (!created) throw new Error("The backend did not create the account: an administrator may already exist, or it could not be reached.");
+      } else if (officers.some(hasPin)) {
+          throw new Error("An administrator already exists. Please sign in.");
+      }
+      rememberCredential(account.id, credential);
+      setOfficers(prev => [...prev, account]);
+      setSetupStatus('READY');
+  };
+
+  // Officers are deactivated rather than deleted, so their history keeps a name
+  const handleSetOfficerActive = async (id: string, active: boolean) => {
+      if (!requirePermission('MANAGE_CONFIG')) return;
+      if (id === currentUser?.id && !active) {
+          alert("You cannot deactivate your own account.");
+          return;
+      }
+      const existing = officers.find(o => o.id === id);
+      if (!existing) return;
+      if (!active && !confirm(`Deactivate ${existing.name}? They can no longer sign in. Their logs and incidents are kept.`)) return;
+      const officer = stamp({ ...existing, inactive: !active || undefined });
+      setOfficers(prev => prev.map(o => o.id === id ? officer : o));
+      await sendRecord('officers', officer, getBackend().updateOfficer);
   };
   
   const handleImportCheckpoints = (imported: Checkpoint[]) => {
-      setCheckpoints(imported);
-      // Optional: Loop through and save all to sheet if needed, 
-      // but for bulk import usually we just keep local until configured.
-      // For now, we just update local state.
+      if (!requirePermission('MANAGE_CONFIG')) return;
+      // Stamped as local edits, so the next sync uploads them
+      const now = Date.now();
+      setCheckpoints(imported.map(c => stamp(c, now)));
+  };
+
+  const handleSaveRoute = async (route: PatrolRoute) => {
+      if (!requirePermission('MANAGE_CONFIG')) return;
+      const saved = stamp(route);
+      setRoutes(prev => prev.some(r => r.id === saved.id) ? prev.map(r => r.id === saved.id ? saved : r) : [...prev, saved]);
+      await sendRecord('routes', saved, getBackend().saveRoute);
+  };
+
+  const handleRemoveRoute = async (routeId: string) => {
+      if (!requirePermission('MANAGE_CONFIG')) return;
+      const route = routes.find(r => r.id === routeId);
+      if (!route || !confirm('Delete this patrol route? Past rounds stay in the logs.')) return;
+      setRoutes(prev => prev.filter(r => r.id !== routeId));
+      await sendRecord('routes', deleteRecord('routes', route), getBackend().saveRoute);
+  };
+
+  const handleStartRound = (routeId: string) => {
+      if (!currentUser || !requirePermission('SCAN')) return;
+      setActiveRound({ id: `round-${Date.now()}`, routeId, officerId: currentUser.id, startedAt: Date.now() });
+  };
+
+  const handleEndRound = () => {
+      if (activeRound && confirm('End this round now? Unscanned stops will count as skipped.')) {
+          setActiveRound(null);
+      }
+  };
+
+  // --- INCIDENTS ---
+  // The ISSUE_REPORTED log goes through the outbox with the first photo, so the report survives
+  // a dead zone. Extra photos need a connection and are attached to the incident record.
+  const handleReportIncident = async (draft: IncidentDraft, photos: Blob[]) => {
+      if (!currentUser || !requirePermission('SCAN')) return;
+      const now = Date.now();
+      const { incident, log } = createIncident(draft, currentUser.id, checkpoints, formatShiftDate(shiftDateOf(now, siteSettings)), now);
+
+      queueLog(log, photos[0]);
+
+      const photoUrls: string[] = [];
+      for (const [idx, photo] of photos.slice(1).entries()) {
+          const stored = await getPhotoStorageAdapter().upload(photo, `${incident.id}_${idx + 2}.jpg`);
+          if (stored) photoUrls.push(stored.url);
+      }
+      const saved = stamp({ ...incident, photoUrls });
+      setIncidents(prev => [...prev, saved]);
+      setIncidentCheckpointId(undefined);
+
+      if (photoUrls.length < photos.length - 1) {
+          alert("The incident was reported, but some extra photos could not be uploaded.");
+      }
+      await sendRecord('incidents', saved, getBackend().saveIncident);
+  };
+
+  const handleAdvanceIncident = async (incident: Incident, to: IncidentStatus, note?: string) => {
+      if (!currentUser || !requirePermission('MANAGE_INCIDENTS')) return;
+      try {
+          const updated = stamp(advanceIncident(incident, to, currentUser.id, note));
+          setIncidents(prev => prev.map(i => i.id === updated.id ? updated : i));
+          await sendRecord('incidents', updated, getBackend().saveIncident);
+      } catch (error) {
+          alert(error instanceof Error ? error.message : error);
+      }
+  };
+
+  // --- SOS ---
+  // Sent before the first GPS fix so help is called even indoors; the position follows
+  const handleRaiseSos = () => {
+      if (!currentUser || mySosRef.current) return;
+      if (!confirm("Send an SOS alert to all supervisors with your live location?")) return;
+
+      const alert = createSosAlert(currentUser);
+      mySosRef.current = alert;
+      setMySos(alert);
+      sendSos(alert);
+
+      getCurrentPosition().then(location => {
+          const current = mySosRef.current;
+          if (!current || current.id !== alert.id || current.location) return;
+          const located: SosAlert = { ...current, location, updatedAt: Date.now() };
+          mySosRef.current = located;
+          setMySos(located);
+          sendSos(located);
+      }).catch(error => setSosError(`Location unavailable: ${error.message}`));
+  };
+
+  const handleCancelSos = () => {
+      const current = mySosRef.current;
+      if (!current || !confirm("Cancel your SOS alert? Supervisors will see that you are safe.")) return;
+      const cancelled: SosAlert = { ...current, status: 'CANCELLED', updatedAt: Date.now() };
+      mySosRef.current = null;
+      setMySos(null);
+      setSosError(null);
+      sendSos(cancelled);
+  };
+
+  const handleToggleTracking = () => {
+      if (!trackingEnabled && !confirm("Record your path during this shift? Supervisors can replay it on the dashboard. It stops when you sign out or tap again.")) return;
+      setTrackingEnabled(!trackingEnabled);
+  };
+
+  const handleAcknowledgeSos = (alertId: string) => {
+      setAcknowledgedSosIds(prev => prev.includes(alertId) ? prev : [...prev, alertId]);
   };
 
   const handleCancelScan = () => {
-      setInitialScanId(null);
+      setInitialScanValue(null);
       setCurrentView('dashboard');
   }
 
+  const handleRotateQrKey = async () => {
+      if (!requirePermission('MANAGE_CONFIG')) return;
+      if (qrKeys.length > 0 && !confirm("Generate a new signing key? Tags must be reprinted; old tags keep working until you revoke their key.")) return;
+      try {
+          // Without a backend the key only has to work on this device
+          const newKey = await rotateSigningKey(qrKeys, key => isBackendConfigured() ? getBackend().saveQrKey(key) : Promise.resolve(true));
+          setQrKeys(prev => [...prev, newKey]);
+      } catch (error) {
+          alert(`Key rotation failed: ${error instanceof Error ? error.message : error}`);
+      }
+  };
+
+  const handleRevokeQrKey = async (version: number) => {
+      if (!requirePermission('MANAGE_CONFIG')) return;
+      const key = qrKeys.find(k => k.version === version);
+      if (!key || !confirm(`Revoke key v${version}? Tags printed with it will be rejected as INVALID_TAG.`)) return;
+      const revoked = { ...key, revoked: true };
+      // Scanners only stop accepting the key once the backend has the revocation
+      if (isBackendConfigured() && !await getBackend().saveQrKey(revoked)) {
+          alert(`Key v${version} could not be revoked: the backend did not confirm. Check the connection and try again.`);
+          return;
+      }
+      setQrKeys(prev => prev.map(k => k.version === version ? revoked : k));
+  };
+
+  const handleSaveSiteSettings = async (settings: SiteSettings) => {
+      if (!requirePermission('MANAGE_CONFIG')) return;
+      setSiteSettings(settings);
+      await getBackend().saveSettings(settings);
+  };
+
+  const handleToggleDemoMode = (enabled: boolean) => {
+      if (!requirePermission('MANAGE_CONFIG')) return;
+      setDemoMode(enabled);
+  };
+
   const handleResetData = () => {
+      if (!requirePermission('MANAGE_CONFIG')) return;
       if(confirm("Reset all data (Checkpoints & Officers) to default? This cannot be undone.")) {
           setCheckpoints(DEFAULT_CHECKPOINTS);
-          setOfficers(DEFAULT_OFFICERS);
+          // Keep the acting admin so the reset does not lock everyone out
+          setOfficers(currentUser ? [...DEFAULT_OFFICERS.filter(o => o.id !== currentUser.id), currentUser] : DEFAULT_OFFICERS);
           localStorage.removeItem('securepatrol_checkpoints');
           localStorage.removeItem('securepatrol_officers');
+          resetSyncState(['checkpoints', 'officers']);
       }
   }
 
-  if (currentView === 'admin-setup') {
+  const handleClearSyncConflicts = () => {
+      clearSyncConflicts();
+      setSyncConflicts([]);
+  };
+
+  if (!session || !currentUser) {
+      return (
+        <LoginScreen 
+            users={officers}
+            setupStatus={setupStatus}
+            onLogin={setSession}
+            onCreateAdmin={handleCreateAdmin}
+        />
+      );
+  }
+
+  if (currentView === 'admin-setup' && canManageConfig) {
       return (
         <AdminQrSetup 
             checkpoints={checkpoints} 
             officers={officers}
             onAddCheckpoint={handleAddCheckpoint}
+            onUpdateCheckpoint={handleUpdateCheckpoint}
+            onArchiveCheckpoint={handleArchiveCheckpoint}
+            onRemoveCheckpoint={handleRemoveCheckpoint}
             onAddOfficer={handleAddOfficer}
-            onRemoveOfficer={handleRemoveOfficer}
+            onSetOfficerPin={handleSetOfficerPin}
+            onSetOfficerRole={handleSetOfficerRole}
+            onUpdateOfficer={handleUpdateOfficer}
+            onSetOfficerActive={handleSetOfficerActive}
             onBack={() => setCurrentView('dashboard')}
             onResetDefaults={handleResetData}
             onImportData={handleImportCheckpoints}
+            demoMode={demoMode}
+            onToggleDemoMode={handleToggleDemoMode}
+            qrKeys={qrKeys}
+            onRotateQrKey={handleRotateQrKey}
+            onRevokeQrKey={handleRevokeQrKey}
+            routes={routes}
+            onSaveRoute={handleSaveRoute}
+            onRemoveRoute={handleRemoveRoute}
+            siteSettings={siteSettings}
+            onSaveSiteSettings={handleSaveSiteSettings}
+            logSyncErrors={logSyncErrors}
+            syncConflicts={syncConflicts}
+            onClearSyncConflicts={handleClearSyncConflicts}
         />
       );
   }
@@ -199,6 +905,15 @@ const App: React.FC = () => {
       
       {showHelp && <HelpModal onClose={() => setShowHelp(false)} />}
 
+      {incidentCheckpointId !== undefined && canScan && (
+        <IncidentForm
+            checkpoints={activeCheckpoints}
+            initialCheckpointId={incidentCheckpointId || undefined}
+            onSubmit={handleReportIncident}
+            onClose={() => setIncidentCheckpointId(undefined)}
+        />
+      )}
+
       {/* Header */}
       <header className="bg-slate-900 border-b border-slate-800 p-4 sticky top-0 z-30">
         <div className="max-w-6xl mx-auto flex justify-between items-center">
@@ -209,13 +924,49 @@ const App: React.FC = () => {
                 <div>
                     <h1 className="text-xl font-bold tracking-tight text-white">SecurePatrol</h1>
                     <div className="text-xs text-slate-400 flex items-center gap-1">
-                        {getScriptUrl() ? <span className="text-emerald-400">● Online</span> : <span className="text-slate-500">○ Offline</span>}
-                        {lastSyncTime && <span className="text-slate-500 hidden sm:inline">| Last sync: {lastSyncTime.toLocaleTimeString()}</span>}
+                        {isBackendConfigured() ? <span className="text-emerald-400">● Online</span> : <span className="text-slate-500">○ Offline</span>}
+                        {lastSyncTime && <span className="text-slate-500 hidden sm:inline">| Last sync: {formatTime(lastSyncTime.getTime(), siteSettings.timeZone)}</span>}
+                        {outbox.length > 0 && (
+                            <span className="text-amber-400" title="Scans saved on this device, waiting to upload">| ⇡ {outbox.length} pending</span>
+                        )}
+                        {needsOnlineSignIn && (
+                            <span className="text-amber-400" title="Signed in offline. Sign out and in again while connected, or the server will refuse your changes.">| Sign in online to save changes</span>
+                        )}
                     </div>
                 </div>
             </div>
             
             <div className="flex items-center gap-3">
+               {mySos ? (
+                   <button 
+                      onClick={handleCancelSos}
+                      className="bg-red-600 text-white px-3 py-2 rounded-lg text-xs font-bold animate-pulse"
+                      title="Your SOS is active. Tap to cancel."
+                   >
+                      SOS ACTIVE · Cancel
+                   </button>
+               ) : (
+                   <button 
+                      onClick={handleRaiseSos}
+                      className="bg-red-700 hover:bg-red-600 text-white px-3 py-2 rounded-lg text-xs font-black tracking-wider"
+                      title="Send an SOS with your live location"
+                   >
+                      SOS
+                   </button>
+               )}
+
+               {canScan && (
+                   <button 
+                      onClick={handleToggleTracking}
+                      className={`p-2 rounded-full transition-colors ${trackingEnabled ? (trackerStatus?.status === 'ACTIVE' ? 'text-sky-400 bg-sky-900/40' : 'text-amber-400 bg-amber-900/40') : 'text-slate-500 hover:text-white hover:bg-slate-800'}`}
+                      title={trackingEnabled
+                          ? `Shift tracking on${trackerStatus?.message ? `: ${trackerStatus.message}` : ''}. Tap to stop.`
+                          : 'Share my patrol path with supervisors for this shift'}
+                   >
+                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 20l-5.447-2.724A1 1 0 013 16.382V5.618a1 1 0 011.447-.894L9 7m0 13l6-3m-6 3V7m6 10l4.553 2.276A1 1 0 0021 18.382V7.618a1 1 0 00-.553-.894L15 4m0 13V4m0 0L9 7"></path></svg>
+                   </button>
+               )}
+
                <button 
                   onClick={() => setShowHelp(true)}
                   className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-full transition-colors"
@@ -224,7 +975,20 @@ const App: React.FC = () => {
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8.228 9c.549-1.165 2.03-2 3.772-2 2.21 0 4 1.343 4 3 0 1.4-1.278 2.575-3.006 2.907-.542.104-.994.54-.994 1.093m0 3h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>
                </button>
                
+               <div className="hidden sm:flex flex-col items-end text-xs mr-1">
+                   <span className="text-white font-medium">{currentUser.name}</span>
+                   <span className="text-slate-500">Shift ends {formatTime(session.expiresAt, siteSettings.timeZone)}</span>
+               </div>
+               <button 
+                  onClick={handleLogout}
+                  className="p-2 text-slate-400 hover:text-red-400 hover:bg-slate-800 rounded-full transition-colors"
+                  title="End Shift / Log out"
+               >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M17 16l4-4m0 0l-4-4m4 4H7m6 4v1a3 3 0 01-3 3H6a3 3 0 01-3-3V7a3 3 0 013-3h4a3 3 0 013 3v1"></path></svg>
+               </button>
+
                {/* Admin Link */}
+               {canManageConfig && (
                <button 
                   onClick={() => setCurrentView('admin-setup')}
                   className="hidden md:flex p-2 text-slate-400 hover:text-indigo-400 hover:bg-slate-800 rounded-full transition-colors"
@@ -232,8 +996,9 @@ const App: React.FC = () => {
                >
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"></path><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"></path></svg>
                </button>
+               )}
 
-               {currentView === 'dashboard' && (
+               {currentView === 'dashboard' && canScan && (
                    <button 
                     onClick={() => setCurrentView('scanner')}
                     className="bg-emerald-600 hover:bg-emerald-500 text-white px-4 py-2 rounded-lg text-sm font-semibold shadow-lg shadow-emerald-900/20 transition-all flex items-center gap-2"
@@ -246,15 +1011,35 @@ const App: React.FC = () => {
         </div>
       </header>
 
+      {mySos && (
+        <div className="bg-red-900/80 border-b border-red-700 px-4 py-2 text-center text-xs text-red-100">
+            SOS sent. Sharing your location{mySos.location ? ` (±${Math.round(mySos.location.accuracy || 0)}m, updated ${formatTime(mySos.updatedAt, siteSettings.timeZone)})` : ''} until you cancel.
+            {sosError && <span className="block text-amber-300">{sosError}</span>}
+        </div>
+      )}
+
       {/* Main Content */}
       <main className="max-w-6xl mx-auto p-4 md:p-6">
-        {currentView === 'scanner' ? (
+        {currentView === 'scanner' && canScan ? (
           <Scanner 
-            officers={officers}
-            checkpoints={checkpoints} 
+            currentUser={currentUser}
+            checkpoints={activeCheckpoints} 
             onScanComplete={handleScanComplete}
             onCancel={handleCancelScan}
-            initialCheckpointId={initialScanId}
+            qrKeys={qrKeys}
+            signingState={getSigningState(qrKeys, isBackendConfigured())}
+            initialScanValue={initialScanValue}
+            allowSimulation={demoMode && canManageConfig}
+            routes={routes}
+            activeRound={activeRound && activeRound.officerId === currentUser.id ? activeRound : null}
+            roundLogs={activeRound ? getRoundLogs(logs, activeRound.id) : []}
+            officerLogs={logs.filter(l => isOfficersLog(l, currentUser.id))}
+            onStartRound={handleStartRound}
+            onEndRound={handleEndRound}
+            siteSettings={siteSettings}
+            onReportIncident={(checkpointId?: string) => setIncidentCheckpointId(checkpointId || '')}
+            sosActive={!!mySos}
+            onSos={mySos ? handleCancelSos : handleRaiseSos}
           />
         ) : (
           <Dashboard 
@@ -262,6 +1047,18 @@ const App: React.FC = () => {
             checkpoints={checkpoints} 
             onRefresh={loadCloudData}
             isSyncing={isSyncing}
+            pendingSyncCount={outbox.length}
+            routes={routes}
+            siteSettings={siteSettings}
+            incidents={incidents}
+            canManageIncidents={canManageIncidents}
+            onAdvanceIncident={handleAdvanceIncident}
+            onReportIncident={canScan ? () => setIncidentCheckpointId('') : undefined}
+            sosAlerts={sosAlerts.filter(a => isSosLive(a) && a.officerId !== currentUser.id)}
+            acknowledgedSosIds={acknowledgedSosIds}
+            onAcknowledgeSos={handleAcknowledgeSos}
+            officers={officers}
+            replayOfficers={canViewTracks ? officers : undefined}
           />
         )}
       </main>
@@ -275,12 +1072,15 @@ const App: React.FC = () => {
                 <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z"></path></svg>
                 <span className="text-[10px] font-medium">Dashboard</span>
             </button>
+            {canScan && (
             <button 
                 onClick={() => setCurrentView('scanner')}
                 className="bg-emerald-600 text-white p-3 rounded-full -mt-6 shadow-lg shadow-emerald-900/50 border-4 border-slate-900"
             >
                  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 4v1m6 11h2m-6 0h-2v4m0-11v3m0 0h.01M12 12h4.01M16 20h4M4 12h4m12 0h.01M5 8h2a1 1 0 001-1V5a1 1 0 00-1-1H5a1 1 0 00-1 1v2a1 1 0 001 1zm12 0h2a1 1 0 001-1V5a1 1 0 00-1-1h-2a1 1 0 00-1 1v2a1 1 0 001 1zM5 20h2a1 1 0 001-1v-2a1 1 0 00-1-1H5a1 1 0 00-1 1v2a1 1 0 001 1z"></path></svg>
             </button>
+            )}
+            {canManageConfig && (
             <button 
                 onClick={() => setCurrentView('admin-setup')}
                 className="flex flex-col items-center gap-1 text-slate-500"
@@ -288,6 +1088,7 @@ const App: React.FC = () => {
                  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"></path><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"></path></svg>
                 <span className="text-[10px] font-medium">Setup</span>
             </button>
+            )}
        </div>
 
     </div>
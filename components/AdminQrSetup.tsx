@@ -1,51 +1,132 @@
 import React, { useState, useRef, useEffect } from 'react';
 import QRCode from 'react-qr-code';
-import { Checkpoint, ScheduleConfig, ScheduleType, User, Role } from '../types';
-import { getCurrentPosition, downloadFile, latLonToUtm } from '../utils';
-import { setScriptUrl, getScriptUrl, testConnection } from '../services/sheetService';
+import { Checkpoint, ScheduleConfig, ScheduleType, User, Role, QrSigningKey, PatrolRoute, SiteSettings, LocationPolicyMode, OfficerShift } from '../types';
+import { BackendKind } from '../services/dataBackend';
+import { SyncConflict } from '../services/syncService';
+import { getCurrentPosition, downloadFile, latLonToUtm, buildQrValue, isValidTimeZone, getDeviceTimeZone, formatDate, formatTime } from '../utils';
+import { getBackend, getBackendConfig, setBackendConfig } from '../services/backendService';
+import { signCheckpoint, getActiveKey, getLocalSigningVersion } from '../services/qrSigningService';
+import { validatePin, hasPin } from '../services/authService';
+import { isNfcSupported, writeNfcTag } from '../services/nfcService';
+import { getActiveCheckpoints, getTagStatus, tagIdentity } from '../services/checkpointService';
+import { compressImageFile } from '../services/photoService';
+import RouteEditor from './RouteEditor';
+import SiteMap, { DEFAULT_TILE_URL } from './SiteMap';
+import { parseGeofence, parseGeofenceText, readDraftVertices, parseLocationPolicy, getLocationPolicy, DEFAULT_LOCATION_POLICY } from '../services/geofenceService';
 
 interface AdminQrSetupProps {
   checkpoints: Checkpoint[];
   officers: User[];
   onAddCheckpoint: (newCheckpoint: Checkpoint) => void;
-  onAddOfficer: (newOfficer: User) => void;
-  onRemoveOfficer: (id: string) => void;
+  onUpdateCheckpoint?: (checkpoint: Checkpoint) => void;
+  onArchiveCheckpoint?: (id: string, archived: boolean) => void;
+  onRemoveCheckpoint?: (id: string) => void;
+  onAddOfficer: (newOfficer: User, pin: string, photo?: Blob) => void;
+  onUpdateOfficer?: (profile: User, photo?: Blob) => void; // Profile fields only, not role or PIN
+  onSetOfficerPin: (id: string, pin: string) => void;
+  onSetOfficerRole: (id: string, role: Role) => void;
+  onSetOfficerActive?: (id: string, active: boolean) => void;
   onBack: () => void;
   onResetDefaults?: () => void;
   onImportData?: (data: Checkpoint[]) => void;
+  demoMode?: boolean;
+  onToggleDemoMode?: (enabled: boolean) => void;
+  qrKeys: QrSigningKey[];
+  onRotateQrKey: () => void;
+  onRevokeQrKey: (version: number) => void;
+  routes: PatrolRoute[];
+  onSaveRoute: (route: PatrolRoute) => void;
+  onRemoveRoute: (routeId: string) => void;
+  siteSettings: SiteSettings;
+  onSaveSiteSettings: (settings: SiteSettings) => void;
+  logSyncErrors?: string[]; // Log rows the last sync could not read
+  syncConflicts?: SyncConflict[]; // Newest first
+  onClearSyncConflicts?: () => void;
 }
 
-const AdminQrSetup: React.FC<AdminQrSetupProps> = ({ checkpoints, officers, onAddCheckpoint, onAddOfficer, onRemoveOfficer, onBack, onResetDefaults, onImportData }) => {
-  const [activeTab, setActiveTab] = useState<'checkpoints' | 'officers'>('checkpoints');
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const POLICY_LABELS: Record<LocationPolicyMode, string> = {
+  STRICT: 'strict',
+  TRUST_QR_INDOORS: 'trust QR',
+  REQUIRE_PHOTO: 'QR + photo'
+};
+
+const AdminQrSetup: React.FC<AdminQrSetupProps> = ({ checkpoints, officers, onAddCheckpoint, onUpdateCheckpoint, onArchiveCheckpoint, onRemoveCheckpoint, onAddOfficer, onUpdateOfficer, onSetOfficerPin, onSetOfficerRole, onSetOfficerActive, onBack, onResetDefaults, onImportData, demoMode, onToggleDemoMode, qrKeys, onRotateQrKey, onRevokeQrKey, routes, onSaveRoute, onRemoveRoute, siteSettings, onSaveSiteSettings, logSyncErrors = [], syncConflicts = [], onClearSyncConflicts }) => {
+  const [activeTab, setActiveTab] = useState<'checkpoints' | 'officers' | 'routes'>('checkpoints');
   const [isAdding, setIsAdding] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null); // Checkpoint loaded into the form
+  const [printOnlyStale, setPrintOnlyStale] = useState(false);
+  const activeCheckpoints = getActiveCheckpoints(checkpoints);
+  const archivedCheckpoints = checkpoints.filter(c => c.archived);
   
   // Checkpoint Form
   const [newName, setNewName] = useState('');
   const [newLat, setNewLat] = useState<string>('');
   const [newLng, setNewLng] = useState<string>('');
   const [newRadius, setNewRadius] = useState<number>(50);
+  const [newGeofenceText, setNewGeofenceText] = useState(''); // One "lat, lng" vertex per line
+  const [newPolicyMode, setNewPolicyMode] = useState<LocationPolicyMode>(DEFAULT_LOCATION_POLICY.mode);
+  const [newWeakAccuracy, setNewWeakAccuracy] = useState<number>(DEFAULT_LOCATION_POLICY.weakAccuracyMeters);
   const [currentUtm, setCurrentUtm] = useState<string>('');
+  const pinLat = parseFloat(newLat);
+  const pinLng = parseFloat(newLng);
+  const pinLocation = isNaN(pinLat) || isNaN(pinLng) ? null : { latitude: pinLat, longitude: pinLng };
+  const draftGeofence = readDraftVertices(newGeofenceText);
   
   // Officer Form
   const [newOfficerName, setNewOfficerName] = useState('');
   const [newOfficerId, setNewOfficerId] = useState('');
+  const [newOfficerPin, setNewOfficerPin] = useState('');
+  const [newOfficerRole, setNewOfficerRole] = useState<Role>(Role.OFFICER);
+  const [newOfficerPhone, setNewOfficerPhone] = useState('');
+  const [newOfficerSites, setNewOfficerSites] = useState(''); // Comma-separated
+  const [newShiftStart, setNewShiftStart] = useState(''); // Empty = no rostered shift
+  const [newShiftEnd, setNewShiftEnd] = useState('');
+  const [newShiftDays, setNewShiftDays] = useState<number[]>([]);
+  const [badgeUrl, setBadgeUrl] = useState<string | undefined>(undefined); // Photo already on the profile
+  const [badgePhoto, setBadgePhoto] = useState<Blob | null>(null); // Newly picked, uploaded on save
+  const [badgePreviewUrl, setBadgePreviewUrl] = useState<string | null>(null);
+  const [editingOfficerId, setEditingOfficerId] = useState<string | null>(null);
 
   // Schedule State
   const [scheduleType, setScheduleType] = useState<ScheduleType>('NONE');
   const [intervalMins, setIntervalMins] = useState<number>(90);
   const [fixedTimes, setFixedTimes] = useState<string[]>(['08:00']);
+  const [toleranceMins, setToleranceMins] = useState<number>(15);
+  const [lateGraceMins, setLateGraceMins] = useState<number>(15);
+  const [activeDays, setActiveDays] = useState<number[]>([]); // empty = every day
+  const [fixedTimeDays, setFixedTimeDays] = useState<number[][]>([[]]); // aligned with fixedTimes
+
+  const [shiftDayStart, setShiftDayStart] = useState(siteSettings.shiftDayStart);
+  const [timeZone, setTimeZone] = useState(siteSettings.timeZone);
+  const [mapTileUrl, setMapTileUrl] = useState(siteSettings.mapTileUrl || '');
+  const [mapTileAttribution, setMapTileAttribution] = useState(siteSettings.mapTileAttribution || '');
+  // Older browsers lack the list; the field then takes any zone name as typed
+  const timeZoneOptions: string[] = 'supportedValuesOf' in Intl ? Intl.supportedValuesOf('timeZone') : [];
 
   const [loadingGps, setLoadingGps] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   const [baseUrl, setBaseUrl] = useState<string>(window.location.origin + window.location.pathname);
-  const [scriptUrl, setScriptUrlState] = useState<string>(getScriptUrl());
+  const [backendKind, setBackendKind] = useState<BackendKind>(getBackendConfig().kind);
+  const [backendUrl, setBackendUrl] = useState<string>(getBackendConfig().url);
+  const [apiToken, setApiToken] = useState<string>(getBackendConfig().apiToken || '');
   const [connectionStatus, setConnectionStatus] = useState<{success: boolean; message: string} | null>(null);
   const [showAdvanced, setShowAdvanced] = useState(false);
 
-  useEffect(() => {
-    setScriptUrlState(getScriptUrl());
-  }, []);
+  // Signed tag URLs, keyed by checkpoint ID (signing is async)
+  const [qrValues, setQrValues] = useState<Record<string, { value: string; keyVersion: number | null }>>({});
+  const [nfcWritingId, setNfcWritingId] = useState<string | null>(null);
+  const [nfcResult, setNfcResult] = useState<{ checkpointId: string; ok: boolean; message: string } | null>(null);
+  const activeKey = getActiveKey(qrKeys);
+  const localSigningVersion = getLocalSigningVersion();
+  const canSign = !!activeKey && localSigningVersion === activeKey.version;
+
+  // "Needs reprint" compares what the tag encodes, so renaming or moving a checkpoint does not trigger it
+  const tagStatusOf = (cp: Checkpoint) => getTagStatus(cp, baseUrl, activeKey?.version ?? null);
+  const staleCheckpoints = activeCheckpoints.filter(cp => tagStatusOf(cp) !== 'ISSUED');
+  const printedCheckpoints = printOnlyStale ? staleCheckpoints : activeCheckpoints;
 
   // Update UTM display when Lat/Lng changes manually
   useEffect(() => {
@@ -58,8 +139,21 @@ const AdminQrSetup: React.FC<AdminQrSetupProps> = ({ checkpoints, officers, onAd
       }
   }, [newLat, newLng]);
 
+  const issuedTagOf = (cp: Checkpoint) => tagIdentity(baseUrl, cp.id, qrValues[cp.id]?.keyVersion ?? null);
+
+  const markTagsIssued = (printed: Checkpoint[]) => {
+      printed.filter(cp => cp.issuedTag !== issuedTagOf(cp))
+          .forEach(cp => onUpdateCheckpoint?.({ ...cp, issuedTag: issuedTagOf(cp) }));
+  };
+
+  // The print dialog gives no result, so ask before recording the cards as issued
   const handlePrint = () => {
     window.print();
+    if (activeTab !== 'checkpoints' || !onUpdateCheckpoint) return;
+    const changed = printedCheckpoints.filter(cp => cp.issuedTag !== issuedTagOf(cp));
+    if (changed.length > 0 && confirm(`Did the ${changed.length} new or changed tag${changed.length === 1 ? '' : 's'} print correctly? They will be marked as issued.`)) {
+        markTagsIssued(changed);
+    }
   };
 
   const handleGetLocation = async () => {
@@ -76,19 +170,21 @@ const AdminQrSetup: React.FC<AdminQrSetupProps> = ({ checkpoints, officers, onAd
     }
   };
 
-  const handleUpdateScriptUrl = () => {
-      setScriptUrl(scriptUrl);
+  const handleSaveBackend = () => {
+      setBackendConfig({ kind: backendKind, url: backendUrl, apiToken: backendKind === 'REST' ? apiToken : undefined });
       setConnectionStatus(null);
   };
 
+  // Tests the saved connection, not what is typed but unsaved
   const handleTestConnection = async () => {
       setConnectionStatus({ success: false, message: "Testing..." });
-      const result = await testConnection();
+      const result = await getBackend().testConnection();
       setConnectionStatus(result);
   };
 
   const handleAddFixedTime = () => {
       setFixedTimes([...fixedTimes, "12:00"]);
+      setFixedTimeDays([...fixedTimeDays, []]);
   };
 
   const handleFixedTimeChange = (index: number, val: string) => {
@@ -99,60 +195,266 @@ const AdminQrSetup: React.FC<AdminQrSetupProps> = ({ checkpoints, officers, onAd
 
   const handleRemoveFixedTime = (index: number) => {
       setFixedTimes(fixedTimes.filter((_, i) => i !== index));
+      setFixedTimeDays(fixedTimeDays.filter((_, i) => i !== index));
+  };
+
+  const toggleDay = (days: number[], day: number): number[] =>
+      days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort();
+
+  const handleToggleFixedTimeDay = (index: number, day: number) => {
+      setFixedTimeDays(fixedTimeDays.map((days, i) => i === index ? toggleDay(days, day) : days));
+  };
+
+  const handleSaveSiteClock = () => {
+      if (!isValidTimeZone(timeZone)) {
+          alert(`"${timeZone}" is not a recognised IANA time zone (e.g. Asia/Bangkok).`);
+          return;
+      }
+      const tileUrl = mapTileUrl.trim();
+      if (tileUrl && !/\{z\}.*\{x\}.*\{y\}/.test(tileUrl)) {
+          alert("The tile URL must contain {z}, {x} and {y}, e.g. http://tiles.local/{z}/{x}/{y}.png");
+          return;
+      }
+      onSaveSiteSettings({ ...siteSettings, shiftDayStart, timeZone, mapTileUrl: tileUrl, mapTileAttribution: mapTileAttribution.trim() });
   };
 
+  const siteSettingsChanged =
+      shiftDayStart !== siteSettings.shiftDayStart ||
+      timeZone !== siteSettings.timeZone ||
+      mapTileUrl.trim() !== (siteSettings.mapTileUrl || '') ||
+      mapTileAttribution.trim() !== (siteSettings.mapTileAttribution || '');
+
   const handleSubmitCheckpoint = (e: React.FormEvent) => {
     e.preventDefault();
     if (!newName || !newLat || !newLng) return;
 
+    const geofence = newGeofenceText.trim() ? parseGeofenceText(newGeofenceText) : undefined;
+    if (newGeofenceText.trim() && !geofence) {
+        alert("The polygon needs at least 3 valid \"lat, lng\" lines.");
+        return;
+    }
+
     const schedule: ScheduleConfig = {
         type: scheduleType,
         intervalMinutes: scheduleType === 'INTERVAL' ? intervalMins : undefined,
         fixedTimes: scheduleType === 'FIXED_TIME' ? fixedTimes : undefined,
-        toleranceMinutes: 15
+        toleranceMinutes: toleranceMins,
+        lateGraceMinutes: lateGraceMins,
+        activeDays: activeDays.length > 0 ? activeDays : undefined
     };
+    if (scheduleType === 'FIXED_TIME') {
+        const restricted = fixedTimes
+            .map((time, idx) => [time, fixedTimeDays[idx] || []] as const)
+            .filter(([, days]) => days.length > 0);
+        if (restricted.length > 0) schedule.fixedTimeDays = Object.fromEntries(restricted.map(([time, days]) => [time, [...days]]));
+    }
 
-    const newCheckpoint: Checkpoint = {
-        id: `cp-${Date.now()}`,
+    const fields = {
         name: newName,
         location: {
             latitude: parseFloat(newLat),
             longitude: parseFloat(newLng)
         },
         allowedRadiusMeters: newRadius,
+        geofence,
+        locationPolicy: { mode: newPolicyMode, weakAccuracyMeters: newWeakAccuracy },
         schedule: schedule
     };
 
-    onAddCheckpoint(newCheckpoint);
-    
-    // Reset Form
+    // The ID is kept on edit: it is what the printed tag encodes
+    const editing = editingId ? checkpoints.find(c => c.id === editingId) : undefined;
+    if (editing && onUpdateCheckpoint) {
+        onUpdateCheckpoint({ ...editing, ...fields });
+    } else {
+        onAddCheckpoint({ id: `cp-${Date.now()}`, ...fields });
+    }
+    resetCheckpointForm();
+  };
+
+  const resetCheckpointForm = () => {
+    setEditingId(null);
     setNewName('');
     setNewLat('');
     setNewLng('');
     setNewRadius(50);
+    setNewGeofenceText('');
+    setNewPolicyMode(DEFAULT_LOCATION_POLICY.mode);
+    setNewWeakAccuracy(DEFAULT_LOCATION_POLICY.weakAccuracyMeters);
     setScheduleType('NONE');
     setFixedTimes(['08:00']);
+    setFixedTimeDays([[]]);
+    setActiveDays([]);
+    setToleranceMins(15);
+    setLateGraceMins(15);
     setIsAdding(false);
   };
+
+  const handleEditCheckpoint = (cp: Checkpoint) => {
+    const policy = getLocationPolicy(cp);
+    const schedule: ScheduleConfig = cp.schedule || { type: 'NONE' };
+    const times = schedule.fixedTimes && schedule.fixedTimes.length > 0 ? schedule.fixedTimes : ['08:00'];
+    setEditingId(cp.id);
+    setNewName(cp.name);
+    setNewLat(String(cp.location.latitude));
+    setNewLng(String(cp.location.longitude));
+    setNewRadius(cp.allowedRadiusMeters);
+    setNewGeofenceText((cp.geofence || []).map(v => `${v.latitude}, ${v.longitude}`).join('\n'));
+    setNewPolicyMode(policy.mode);
+    setNewWeakAccuracy(policy.weakAccuracyMeters);
+    setScheduleType(schedule.type);
+    setIntervalMins(schedule.intervalMinutes ?? 90);
+    setFixedTimes(times);
+    setFixedTimeDays(times.map(time => [...(schedule.fixedTimeDays?.[time] || [])]));
+    setActiveDays(schedule.activeDays || []);
+    setToleranceMins(schedule.toleranceMinutes ?? 15);
+    setLateGraceMins(schedule.lateGraceMinutes ?? 15);
+    setIsAdding(true);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
   
+  useEffect(() => {
+      if (!badgePhoto) {
+          setBadgePreviewUrl(null);
+          return;
+      }
+      const url = URL.createObjectURL(badgePhoto);
+      setBadgePreviewUrl(url);
+      return () => URL.revokeObjectURL(url);
+  }, [badgePhoto]);
+
+  const handleBadgeFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = '';
+      if (!file) return;
+      try {
+          setBadgePhoto(await compressImageFile(file));
+      } catch (error) {
+          alert("Could not read that image.");
+      }
+  };
+
+  const resetOfficerForm = () => {
+      setEditingOfficerId(null);
+      setNewOfficerName('');
+      setNewOfficerId('');
+      setNewOfficerPin('');
+      setNewOfficerRole(Role.OFFICER);
+      setNewOfficerPhone('');
+      setNewOfficerSites('');
+      setNewShiftStart('');
+      setNewShiftEnd('');
+      setNewShiftDays([]);
+      setBadgeUrl(undefined);
+      setBadgePhoto(null);
+  };
+
+  const handleEditOfficer = (officer: User) => {
+      setEditingOfficerId(officer.id);
+      setNewOfficerName(officer.name);
+      setNewOfficerId(officer.id);
+      setNewOfficerPin('');
+      setNewOfficerPhone(officer.phone || '');
+      setNewOfficerSites((officer.assignedSites || []).join(', '));
+      setNewShiftStart(officer.shift?.start || '');
+      setNewShiftEnd(officer.shift?.end || '');
+      setNewShiftDays(officer.shift?.days || []);
+      setBadgeUrl(officer.photoUrl);
+      setBadgePhoto(null);
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
   const handleSubmitOfficer = (e: React.FormEvent) => {
       e.preventDefault();
       if (!newOfficerName || !newOfficerId) return;
+      if (!newShiftStart !== !newShiftEnd) {
+          alert("Enter both the start and the end of the shift, or neither.");
+          return;
+      }
+
+      const sites = newOfficerSites.split(',').map(s => s.trim()).filter(Boolean);
+      const shift: OfficerShift | undefined = newShiftStart
+          ? { start: newShiftStart, end: newShiftEnd, days: newShiftDays.length > 0 ? newShiftDays : undefined }
+          : undefined;
+      const profile = {
+          name: newOfficerName,
+          phone: newOfficerPhone.trim() || undefined,
+          assignedSites: sites.length > 0 ? sites : undefined,
+          shift,
+          photoUrl: badgeUrl
+      };
+
+      const editing = editingOfficerId ? officers.find(o => o.id === editingOfficerId) : undefined;
+      if (editing && onUpdateOfficer) {
+          onUpdateOfficer({ ...editing, ...profile }, badgePhoto || undefined);
+          resetOfficerForm();
+          return;
+      }
+
+      if (officers.some(o => o.id === newOfficerId)) {
+          alert(`Officer ID "${newOfficerId}" already exists.`);
+          return;
+      }
+      const pinError = validatePin(newOfficerPin);
+      if (pinError) {
+          alert(pinError);
+          return;
+      }
       
       const newOfficer: User = {
           id: newOfficerId,
-          name: newOfficerName,
-          role: Role.OFFICER
+          role: newOfficerRole,
+          ...profile
       };
       
-      onAddOfficer(newOfficer);
-      setNewOfficerName('');
-      setNewOfficerId('');
+      onAddOfficer(newOfficer, newOfficerPin, badgePhoto || undefined);
+      resetOfficerForm();
+  };
+
+  const formatShift = (shift: OfficerShift) =>
+      `${shift.start}–${shift.end}${shift.days && shift.days.length > 0 ? ` · ${shift.days.map(d => WEEKDAY_LABELS[d]).join('/')}` : ''}`;
+
+  const handleResetPin = (officer: User) => {
+      const pin = prompt(`New PIN for ${officer.name} (${officer.id}):`);
+      if (pin === null) return;
+      const pinError = validatePin(pin);
+      if (pinError) {
+          alert(pinError);
+          return;
+      }
+      onSetOfficerPin(officer.id, pin);
   };
 
+  useEffect(() => {
+      let cancelled = false;
+      (async () => {
+          const next: Record<string, { value: string; keyVersion: number | null }> = {};
+          for (const cp of activeCheckpoints) {
+              const signed = canSign ? await signCheckpoint(cp.id) : null;
+              next[cp.id] = { value: buildQrValue(baseUrl, cp.id, signed), keyVersion: signed?.keyVersion ?? null };
+          }
+          if (!cancelled) setQrValues(next);
+      })();
+      return () => { cancelled = true; };
+  }, [checkpoints, baseUrl, canSign, activeKey?.version]);
+
   const getQrValue = (checkpointId: string) => {
-      const cleanBase = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl;
-      return `${cleanBase}?checkpointId=${checkpointId}`;
+      return qrValues[checkpointId]?.value || buildQrValue(baseUrl, checkpointId);
+  };
+
+  // NFC tags get the same (signed) link as the QR card
+  const handleWriteNfc = async (cp: Checkpoint) => {
+      const checkpointId = cp.id;
+      setNfcWritingId(checkpointId);
+      setNfcResult(null);
+      try {
+          await writeNfcTag(getQrValue(checkpointId));
+          markTagsIssued([cp]);
+          setNfcResult({ checkpointId, ok: true, message: 'Tag written. Test it with the scanner.' });
+      } catch (error) {
+          setNfcResult({ checkpointId, ok: false, message: error instanceof Error ? error.message : 'Could not write the tag.' });
+      } finally {
+          setNfcWritingId(null);
+      }
   };
 
   const handleExportConfig = () => {
@@ -170,6 +472,15 @@ const AdminQrSetup: React.FC<AdminQrSetupProps> = ({ checkpoints, officers, onAd
               const content = e.target?.result as string;
               const parsed = JSON.parse(content) as Checkpoint[];
               if (Array.isArray(parsed) && parsed.length > 0 && parsed[0].id) {
+                  const badFence = parsed.find(cp => cp.geofence !== undefined && !parseGeofence(cp.geofence));
+                  if (badFence) {
+                      alert(`Invalid geofence polygon on checkpoint "${badFence.name || badFence.id}". It needs at least 3 {latitude, longitude} vertices.`);
+                      return;
+                  }
+                  parsed.forEach(cp => {
+                      if (cp.geofence !== undefined) cp.geofence = parseGeofence(cp.geofence);
+                      if (cp.locationPolicy !== undefined) cp.locationPolicy = parseLocationPolicy(cp.locationPolicy);
+                  });
                   if (onImportData) {
                       onImportData(parsed);
                       alert(`Successfully imported ${parsed.length} checkpoints!`);
@@ -222,23 +533,46 @@ const AdminQrSetup: React.FC<AdminQrSetupProps> = ({ checkpoints, officers, onAd
             >
                 Officers & Staff
             </button>
+            <button 
+                onClick={() => setActiveTab('routes')}
+                className={`pb-2 px-2 font-medium transition-colors ${activeTab === 'routes' ? 'text-emerald-400 border-b-2 border-emerald-400' : 'text-slate-400 hover:text-white'}`}
+            >
+                Patrol Routes
+            </button>
         </div>
         
         {/* GOOGLE SHEETS CONNECTION */}
         <div className="no-print mb-8 bg-slate-800 border-l-4 border-emerald-500 p-4 rounded-r-lg shadow-lg">
             <h3 className="text-white font-bold text-sm mb-2 flex items-center gap-2">
                 <svg className="w-5 h-5 text-green-500" viewBox="0 0 87.3 78" xmlns="http://www.w3.org/2000/svg"><path d="m6.6 66.85 3.85 6.65c.8 1.4 1.9 2.5 3.2 3.3l12.3-21.3h-26l6.65 11.35Z" fill="#0066da"/><path d="m43.65 25-12.3-21.3c-1.3.8-2.4 1.9-3.2 3.3l-25.4 44h26l14.9-26Z" fill="#00ac47"/><path d="m73.55 76.8c1.3-.8 2.4-1.9 3.2-3.3l6.65-11.35-26-45h-25.55l12.3 21.3 29.4 38.35Z" fill="#ea4335"/><path d="m43.65 25 14.9 26-14.9 26-14.9-26 14.9-26Z" fill="#2684fc"/></svg>
-                Google Sheets Connection
+                Data Backend
             </h3>
             <div className="flex flex-col md:flex-row gap-2">
+                <select
+                    value={backendKind}
+                    onChange={(e) => setBackendKind(e.target.value as BackendKind)}
+                    className="bg-slate-900 border border-slate-600 rounded px-3 py-2 text-white text-sm"
+                >
+                    <option value="SHEETS">Google Sheets</option>
+                    <option value="REST">Self-hosted server</option>
+                </select>
                 <input 
                     type="text" 
-                    value={scriptUrl}
-                    onChange={(e) => setScriptUrlState(e.target.value)}
-                    placeholder="https://script.google.com/macros/s/..."
+                    value={backendUrl}
+                    onChange={(e) => setBackendUrl(e.target.value)}
+                    placeholder={backendKind === 'REST' ? "https://patrol.example.com" : "https://script.google.com/macros/s/..."}
                     className="flex-1 bg-slate-900 border border-slate-600 rounded px-3 py-2 text-white text-sm"
                 />
-                <button onClick={handleUpdateScriptUrl} className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded text-sm font-medium">Save</button>
+                {backendKind === 'REST' && (
+                    <input 
+                        type="password" 
+                        value={apiToken}
+                        onChange={(e) => setApiToken(e.target.value)}
+                        placeholder="API token"
+                        className="md:w-56 bg-slate-900 border border-slate-600 rounded px-3 py-2 text-white text-sm"
+                    />
+                )}
+                <button onClick={handleSaveBackend} className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded text-sm font-medium">Save</button>
                 <button onClick={handleTestConnection} className="bg-emerald-600 hover:bg-emerald-500 text-white px-4 py-2 rounded text-sm font-medium whitespace-nowrap">Test</button>
             </div>
             {connectionStatus && (
@@ -246,39 +580,260 @@ const AdminQrSetup: React.FC<AdminQrSetupProps> = ({ checkpoints, officers, onAd
                     {connectionStatus.message}
                 </div>
             )}
+            {logSyncErrors.length > 0 && (
+                <div className="mt-2 text-xs p-2 rounded bg-amber-900/40 text-amber-200">
+                    <div className="font-bold mb-1">{logSyncErrors.length} log row{logSyncErrors.length === 1 ? '' : 's'} could not be read and were left out:</div>
+                    <ul className="font-mono space-y-0.5 max-h-32 overflow-y-auto">
+                        {logSyncErrors.map((message, i) => <li key={i}>{message}</li>)}
+                    </ul>
+                </div>
+            )}
+        </div>
+
+        {/* SYNC CONFLICTS */}
+        {syncConflicts.length > 0 && (
+            <div className="no-print mb-8 bg-slate-800 border border-amber-700/60 p-4 rounded-lg text-sm">
+                <div className="flex justify-between items-center mb-2">
+                    <h3 className="text-white font-bold">Sync Conflicts ({syncConflicts.length})</h3>
+                    {onClearSyncConflicts && (
+                        <button onClick={onClearSyncConflicts} className="text-xs bg-slate-700 hover:bg-slate-600 text-white px-3 py-1 rounded">Mark all reviewed</button>
+                    )}
+                </div>
+                <p className="text-slate-400 text-xs mb-2">
+                    These records were changed on this device and elsewhere between two syncs. The newer edit was kept; check that nothing important was lost.
+                </p>
+                <ul className="space-y-1 max-h-60 overflow-y-auto">
+                    {syncConflicts.map(conflict => (
+                        <li key={conflict.id} className="bg-slate-900 rounded px-3 py-2 text-xs">
+                            <div className="flex justify-between gap-2">
+                                <span className="text-white font-medium">{conflict.label} <span className="text-slate-500">({conflict.collection})</span></span>
+                                <span className="text-slate-500 whitespace-nowrap">{formatDate(conflict.detectedAt, siteSettings.timeZone)} {formatTime(conflict.detectedAt, siteSettings.timeZone)}</span>
+                            </div>
+                            <div className="text-slate-400">
+                                Kept the {conflict.kept === 'DEVICE' ? "edit made on this device" : "cloud version"}. Differed in: {conflict.fields.join(', ')}
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            </div>
+        )}
+
+        {/* SITE SETTINGS */}
+        <div className="no-print mb-8 bg-slate-800 border border-slate-700 p-4 rounded-lg text-sm">
+            <h3 className="text-white font-bold mb-2">Site Clock &amp; Map</h3>
+            <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-3 items-end">
+                <div>
+                    <label className="block text-slate-400 mb-1">Site time zone</label>
+                    <input 
+                        type="text"
+                        list="site-timezones"
+                        value={timeZone}
+                        onChange={(e) => setTimeZone(e.target.value.trim())}
+                        placeholder="e.g. Asia/Bangkok"
+                        className="w-full bg-slate-900 border border-slate-600 rounded px-3 py-1.5 text-white"
+                    />
+                    <datalist id="site-timezones">
+                        {timeZoneOptions.map(tz => <option key={tz} value={tz} />)}
+                    </datalist>
+                </div>
+                <div>
+                    <label className="block text-slate-400 mb-1">New shift date starts at</label>
+                    <input 
+                        type="time"
+                        value={shiftDayStart}
+                        onChange={(e) => setShiftDayStart(e.target.value)}
+                        className="w-full bg-slate-900 border border-slate-600 rounded px-3 py-1.5 text-white"
+                    />
+                </div>
+                <button 
+                    onClick={handleSaveSiteClock}
+                    disabled={!shiftDayStart || !timeZone || !siteSettingsChanged}
+                    className="bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white px-4 py-1.5 rounded text-sm font-medium"
+                >
+                    Save
+                </button>
+            </div>
+            <p className="text-xs text-slate-500 mt-2">
+                Schedules, the dashboard and CSV exports use the site zone, not each phone's clock
+                {timeZone !== getDeviceTimeZone() && ` (this device is on ${getDeviceTimeZone()})`}.
+                Scans before the shift start count toward the previous date's shift; use e.g. 18:00 for a 22:00-06:00 night shift.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-3">
+                <div>
+                    <label className="block text-slate-400 mb-1">Map tile URL</label>
+                    <input 
+                        type="text"
+                        value={mapTileUrl}
+                        onChange={(e) => setMapTileUrl(e.target.value)}
+                        placeholder={DEFAULT_TILE_URL}
+                        className="w-full bg-slate-900 border border-slate-600 rounded px-3 py-1.5 text-white font-mono text-xs"
+                    />
+                </div>
+                <div>
+                    <label className="block text-slate-400 mb-1">Map attribution</label>
+                    <input 
+                        type="text"
+                        value={mapTileAttribution}
+                        onChange={(e) => setMapTileAttribution(e.target.value)}
+                        placeholder="Required by most tile providers"
+                        className="w-full bg-slate-900 border border-slate-600 rounded px-3 py-1.5 text-white"
+                    />
+                </div>
+            </div>
+            <p className="text-xs text-slate-500 mt-2">
+                Leave the tile URL empty for OpenStreetMap, or point it at a local tile server for sites without internet.
+            </p>
         </div>
 
+        {/* --- ROUTES TAB --- */}
+        {activeTab === 'routes' && (
+            <RouteEditor
+                routes={routes}
+                checkpoints={activeCheckpoints}
+                onSaveRoute={onSaveRoute}
+                onRemoveRoute={onRemoveRoute}
+            />
+        )}
+
         {/* --- OFFICERS TAB --- */}
         {activeTab === 'officers' && (
             <div className="space-y-6">
                 <div className="bg-slate-800 p-6 rounded-xl border border-slate-700">
-                    <h3 className="text-lg font-bold text-white mb-4">Add New Officer</h3>
-                    <form onSubmit={handleSubmitOfficer} className="flex flex-col md:flex-row gap-4 items-end">
-                        <div className="flex-1 w-full">
-                            <label className="block text-sm text-slate-400 mb-1">Full Name</label>
-                            <input 
-                                type="text" 
-                                required
-                                placeholder="e.g. Somsak Jaidee"
-                                value={newOfficerName}
-                                onChange={(e) => setNewOfficerName(e.target.value)}
-                                className="w-full bg-slate-900 border border-slate-600 rounded p-2 text-white"
-                            />
+                    <h3 className="text-lg font-bold text-white mb-4">{editingOfficerId ? 'Edit Officer Profile' : 'Add New Officer'}</h3>
+                    <form onSubmit={handleSubmitOfficer} className="space-y-4">
+                        <div className="flex flex-col md:flex-row gap-4 items-end">
+                            <div className="flex-1 w-full">
+                                <label className="block text-sm text-slate-400 mb-1">Full Name</label>
+                                <input 
+                                    type="text" 
+                                    required
+                                    placeholder="e.g. Somsak Jaidee"
+                                    value={newOfficerName}
+                                    onChange={(e) => setNewOfficerName(e.target.value)}
+                                    className="w-full bg-slate-900 border border-slate-600 rounded p-2 text-white"
+                                />
+                            </div>
+                            <div className="flex-1 w-full">
+                                <label className="block text-sm text-slate-400 mb-1">Officer ID / Employee Code</label>
+                                <input 
+                                    type="text" 
+                                    required
+                                    placeholder="e.g. EMP-009"
+                                    value={newOfficerId}
+                                    disabled={!!editingOfficerId}
+                                    onChange={(e) => setNewOfficerId(e.target.value)}
+                                    className="w-full bg-slate-900 border border-slate-600 rounded p-2 text-white disabled:opacity-60"
+                                />
+                            </div>
+                            {!editingOfficerId && (
+                                <>
+                                    <div className="flex-1 w-full">
+                                        <label className="block text-sm text-slate-400 mb-1">Login PIN</label>
+                                        <input 
+                                            type="password" 
+                                            required
+                                            autoComplete="new-password"
+                                            placeholder="Min. 6 characters"
+                                            value={newOfficerPin}
+                                            onChange={(e) => setNewOfficerPin(e.target.value)}
+                                            className="w-full bg-slate-900 border border-slate-600 rounded p-2 text-white"
+                                        />
+                                    </div>
+                                    <div className="w-full md:w-40">
+                                        <label className="block text-sm text-slate-400 mb-1">Role</label>
+                                        <select 
+                                            value={newOfficerRole}
+                                            onChange={(e) => setNewOfficerRole(e.target.value as Role)}
+                                            className="w-full bg-slate-900 border border-slate-600 rounded p-2 text-white"
+                                        >
+                                            <option value={Role.OFFICER}>Officer</option>
+                                            <option value={Role.SUPERVISOR}>Supervisor</option>
+                                            <option value={Role.ADMIN}>Admin</option>
+                                        </select>
+                                    </div>
+                                </>
+                            )}
                         </div>
-                        <div className="flex-1 w-full">
-                            <label className="block text-sm text-slate-400 mb-1">Officer ID / Employee Code</label>
-                            <input 
-                                type="text" 
-                                required
-                                placeholder="e.g. EMP-009"
-                                value={newOfficerId}
-                                onChange={(e) => setNewOfficerId(e.target.value)}
-                                className="w-full bg-slate-900 border border-slate-600 rounded p-2 text-white"
-                            />
+                        <div className="flex flex-col md:flex-row gap-4 items-end">
+                            <div className="flex-1 w-full">
+                                <label className="block text-sm text-slate-400 mb-1">Contact Phone</label>
+                                <input 
+                                    type="tel" 
+                                    placeholder="e.g. 081 234 5678"
+                                    value={newOfficerPhone}
+                                    onChange={(e) => setNewOfficerPhone(e.target.value)}
+                                    className="w-full bg-slate-900 border border-slate-600 rounded p-2 text-white"
+                                />
+                            </div>
+                            <div className="flex-1 w-full">
+                                <label className="block text-sm text-slate-400 mb-1">Assigned Sites / Posts</label>
+                                <input 
+                                    type="text" 
+                                    placeholder="e.g. Warehouse A, Main Gate"
+                                    value={newOfficerSites}
+                                    onChange={(e) => setNewOfficerSites(e.target.value)}
+                                    className="w-full bg-slate-900 border border-slate-600 rounded p-2 text-white"
+                                />
+                            </div>
+                            <div className="w-full md:w-auto">
+                                <label className="block text-sm text-slate-400 mb-1">Shift (site time)</label>
+                                <div className="flex items-center gap-1">
+                                    <input 
+                                        type="time"
+                                        value={newShiftStart}
+                                        onChange={(e) => setNewShiftStart(e.target.value)}
+                                        className="bg-slate-900 border border-slate-600 rounded p-2 text-white"
+                                    />
+                                    <span className="text-slate-500">–</span>
+                                    <input 
+                                        type="time"
+                                        value={newShiftEnd}
+                                        onChange={(e) => setNewShiftEnd(e.target.value)}
+                                        className="bg-slate-900 border border-slate-600 rounded p-2 text-white"
+                                    />
+                                </div>
+                            </div>
+                        </div>
+                        <div className="flex flex-col md:flex-row gap-4 md:items-end">
+                            <div className="flex-1">
+                                <label className="block text-sm text-slate-400 mb-1">Shift days (none selected = every day)</label>
+                                <div className="flex flex-wrap gap-1">
+                                    {WEEKDAY_LABELS.map((label, day) => (
+                                        <button
+                                            key={day} type="button"
+                                            onClick={() => setNewShiftDays(toggleDay(newShiftDays, day))}
+                                            className={`text-xs px-2 py-1 rounded border ${newShiftDays.includes(day) ? 'bg-emerald-900/30 border-emerald-500 text-white' : 'bg-slate-900 border-slate-600 text-slate-400'}`}
+                                        >
+                                            {label}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                            <div className="flex items-center gap-3">
+                                {(badgePreviewUrl || badgeUrl) && (
+                                    <img src={badgePreviewUrl || badgeUrl} alt="Badge" className="w-12 h-12 rounded-full object-cover border border-slate-600" />
+                                )}
+                                <label className="bg-slate-700 hover:bg-slate-600 text-slate-200 border border-slate-600 px-3 py-2 rounded text-xs cursor-pointer">
+                                    {badgePreviewUrl || badgeUrl ? 'Change Badge Photo' : 'Add Badge Photo'}
+                                    <input type="file" accept="image/*" className="hidden" onChange={handleBadgeFile} />
+                                </label>
+                                {(badgePreviewUrl || badgeUrl) && (
+                                    <button type="button" onClick={() => { setBadgePhoto(null); setBadgeUrl(undefined); }} className="text-xs text-slate-400 hover:text-white">
+                                        Remove
+                                    </button>
+                                )}
+                            </div>
+                            <div className="flex gap-2">
+                                {editingOfficerId && (
+                                    <button type="button" onClick={resetOfficerForm} className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded font-medium">
+                                        Cancel
+                                    </button>
+                                )}
+                                <button type="submit" className="bg-emerald-600 hover:bg-emerald-500 text-white px-6 py-2 rounded font-medium w-full md:w-auto">
+                                    {editingOfficerId ? 'Save Changes' : 'Add Officer'}
+                                </button>
+                            </div>
                         </div>
-                        <button type="submit" className="bg-emerald-600 hover:bg-emerald-500 text-white px-6 py-2 rounded font-medium w-full md:w-auto">
-                            Add Officer
-                        </button>
                     </form>
                 </div>
 
@@ -290,26 +845,81 @@ const AdminQrSetup: React.FC<AdminQrSetupProps> = ({ checkpoints, officers, onAd
                                 <tr>
                                     <th className="px-6 py-3">ID</th>
                                     <th className="px-6 py-3">Name</th>
+                                    <th className="px-6 py-3">Contact &amp; Assignment</th>
+                                    <th className="px-6 py-3">Role</th>
                                     <th className="px-6 py-3 text-right">Action</th>
                                 </tr>
                             </thead>
                             <tbody>
-                                {officers.map(officer => (
-                                    <tr key={officer.id} className="border-b border-slate-700 hover:bg-slate-700/50">
+                                {[...officers].sort((a, b) => Number(!!a.inactive) - Number(!!b.inactive)).map(officer => (
+                                    <tr key={officer.id} className={`border-b border-slate-700 hover:bg-slate-700/50 ${officer.inactive ? 'opacity-60' : ''}`}>
                                         <td className="px-6 py-4 font-mono text-emerald-400">{officer.id}</td>
-                                        <td className="px-6 py-4 text-white font-medium">{officer.name}</td>
-                                        <td className="px-6 py-4 text-right">
+                                        <td className="px-6 py-4 text-white font-medium">
+                                            <div className="flex items-center gap-3">
+                                                {officer.photoUrl ? (
+                                                    <img src={officer.photoUrl} alt="" loading="lazy" className="w-8 h-8 rounded-full object-cover border border-slate-600" />
+                                                ) : (
+                                                    <div className="w-8 h-8 rounded-full bg-slate-700 flex items-center justify-center text-xs text-slate-400">{officer.name.charAt(0)}</div>
+                                                )}
+                                                <span>
+                                                    {officer.name}
+                                                    {officer.inactive && <span className="ml-2 text-[10px] uppercase bg-slate-700 text-slate-300 px-1.5 py-0.5 rounded">Inactive</span>}
+                                                </span>
+                                            </div>
+                                        </td>
+                                        <td className="px-6 py-4 text-xs">
+                                            {officer.phone && <a href={`tel:${officer.phone}`} className="block text-slate-300 hover:text-white">{officer.phone}</a>}
+                                            {officer.assignedSites && <span className="block">{officer.assignedSites.join(', ')}</span>}
+                                            {officer.shift && <span className="block text-slate-500">{formatShift(officer.shift)}</span>}
+                                            {!officer.phone && !officer.assignedSites && !officer.shift && <span className="text-slate-600">-</span>}
+                                        </td>
+                                        <td className="px-6 py-4 text-xs">
+                                            <select 
+                                                value={officer.role}
+                                                onChange={(e) => onSetOfficerRole(officer.id, e.target.value as Role)}
+                                                className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-white text-xs"
+                                            >
+                                                <option value={Role.OFFICER}>Officer</option>
+                                                <option value={Role.SUPERVISOR}>Supervisor</option>
+                                                <option value={Role.ADMIN}>Admin</option>
+                                            </select>
+                                            {!hasPin(officer) && <span className="ml-2 text-amber-400">(no PIN)</span>}
+                                        </td>
+                                        <td className="px-6 py-4 text-right space-x-2 whitespace-nowrap">
+                                            {onUpdateOfficer && (
+                                                <button 
+                                                    onClick={() => handleEditOfficer(officer)}
+                                                    className="text-slate-300 hover:text-white bg-slate-700 hover:bg-slate-600 px-3 py-1 rounded text-xs"
+                                                >
+                                                    Edit
+                                                </button>
+                                            )}
                                             <button 
-                                                onClick={() => onRemoveOfficer(officer.id)}
-                                                className="text-red-400 hover:text-red-300 bg-red-900/20 hover:bg-red-900/40 px-3 py-1 rounded text-xs"
+                                                onClick={() => handleResetPin(officer)}
+                                                className="text-slate-300 hover:text-white bg-slate-700 hover:bg-slate-600 px-3 py-1 rounded text-xs"
                                             >
-                                                Remove
+                                                {hasPin(officer) ? 'Reset PIN' : 'Set PIN'}
                                             </button>
+                                            {onSetOfficerActive && (officer.inactive ? (
+                                                <button 
+                                                    onClick={() => onSetOfficerActive(officer.id, true)}
+                                                    className="text-emerald-400 hover:text-emerald-300 bg-emerald-900/20 hover:bg-emerald-900/40 px-3 py-1 rounded text-xs"
+                                                >
+                                                    Reactivate
+                                                </button>
+                                            ) : (
+                                                <button 
+                                                    onClick={() => onSetOfficerActive(officer.id, false)}
+                                                    className="text-red-400 hover:text-red-300 bg-red-900/20 hover:bg-red-900/40 px-3 py-1 rounded text-xs"
+                                                >
+                                                    Deactivate
+                                                </button>
+                                            ))}
                                         </td>
                                     </tr>
                                 ))}
                                 {officers.length === 0 && (
-                                    <tr><td colSpan={3} className="px-6 py-4 text-center text-slate-500">No officers registered.</td></tr>
+                                    <tr><td colSpan={5} className="px-6 py-4 text-center text-slate-500">No officers registered.</td></tr>
                                 )}
                             </tbody>
                         </table>
@@ -324,7 +934,7 @@ const AdminQrSetup: React.FC<AdminQrSetupProps> = ({ checkpoints, officers, onAd
                 <div className="no-print mb-6 flex justify-between items-center">
                     <div className="flex gap-2">
                         <button 
-                            onClick={() => setIsAdding(!isAdding)}
+                            onClick={() => isAdding ? resetCheckpointForm() : setIsAdding(true)}
                             className="bg-emerald-600 hover:bg-emerald-500 text-white px-4 py-2 rounded-lg font-medium flex items-center gap-2"
                         >
                             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 6v6m0 0v6m0-6h6m-6 0H6"></path></svg>
@@ -340,6 +950,15 @@ const AdminQrSetup: React.FC<AdminQrSetupProps> = ({ checkpoints, officers, onAd
                             Import
                             <input type="file" accept=".json" className="hidden" ref={fileInputRef} onChange={handleFileImport} />
                         </label>
+                        <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={printOnlyStale}
+                                onChange={(e) => setPrintOnlyStale(e.target.checked)}
+                                className="accent-emerald-500"
+                            />
+                            Print only new or changed tags ({staleCheckpoints.length})
+                        </label>
                     </div>
 
                     <button 
@@ -367,6 +986,20 @@ const AdminQrSetup: React.FC<AdminQrSetupProps> = ({ checkpoints, officers, onAd
                                 Reset
                             </button>
                         </div>
+                        {onToggleDemoMode && (
+                            <div className="mt-4 pt-4 border-t border-slate-700">
+                                <label className="flex items-center gap-2 text-slate-300 cursor-pointer">
+                                    <input 
+                                        type="checkbox"
+                                        checked={!!demoMode}
+                                        onChange={(e) => onToggleDemoMode(e.target.checked)}
+                                        className="accent-emerald-500"
+                                    />
+                                    Demo Mode (show simulation buttons in Scanner)
+                                </label>
+                                <p className="text-xs text-slate-500 mt-1">Lets anyone check in without scanning the physical tag. Keep off on patrol devices.</p>
+                            </div>
+                        )}
                         {onResetDefaults && (
                             <div className="mt-4 pt-4 border-t border-slate-700">
                                 <button onClick={onResetDefaults} className="text-red-400 hover:text-red-300 text-xs">
@@ -377,10 +1010,47 @@ const AdminQrSetup: React.FC<AdminQrSetupProps> = ({ checkpoints, officers, onAd
                     </div>
                 )}
 
+                {/* TAG SIGNING KEYS */}
+                <div className="no-print mb-6 bg-slate-800 border border-slate-700 p-4 rounded-lg text-sm">
+                    <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+                        <div>
+                            <h3 className="text-white font-bold">Tag Signing Keys</h3>
+                            <p className="text-xs text-slate-400 mt-1">
+                                {!activeKey 
+                                    ? "Signing is off: scanners accept any tag with a known checkpoint ID. Generate a key, then print tags."
+                                    : canSign 
+                                        ? `Tags are signed with key v${activeKey.version}. Scanners reject unsigned or forged tags.`
+                                        : `Active key v${activeKey.version} was created on another device. Rotate here to print new tags from this device.`}
+                            </p>
+                        </div>
+                        <button 
+                            onClick={onRotateQrKey}
+                            className="bg-indigo-600 hover:bg-indigo-500 text-white px-4 py-2 rounded text-xs font-medium whitespace-nowrap"
+                        >
+                            {activeKey ? 'Rotate Key' : 'Generate Signing Key'}
+                        </button>
+                    </div>
+                    {qrKeys.length > 0 && (
+                        <div className="mt-3 flex flex-wrap gap-2">
+                            {[...qrKeys].sort((a, b) => b.version - a.version).map(key => (
+                                <div key={key.version} className={`flex items-center gap-2 px-2 py-1 rounded border text-xs ${key.revoked ? 'border-slate-700 text-slate-500 line-through' : 'border-slate-600 text-slate-300'}`}>
+                                    <span className="font-mono">v{key.version}</span>
+                                    <span>{new Date(key.createdAt).toLocaleDateString()}</span>
+                                    {!key.revoked && key.version !== activeKey?.version && (
+                                        <button onClick={() => onRevokeQrKey(key.version)} className="text-red-400 hover:text-red-300 no-underline">
+                                            Revoke
+                                        </button>
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
                 {/* ADD CHECKPOINT FORM */}
                 {isAdding && (
                     <div className="no-print mb-8 bg-slate-800 border border-slate-700 p-6 rounded-xl max-w-3xl mx-auto shadow-2xl">
-                        <h3 className="text-lg font-bold text-white mb-4 border-b border-slate-700 pb-2">Create New Checkpoint</h3>
+                        <h3 className="text-lg font-bold text-white mb-4 border-b border-slate-700 pb-2">{editingId ? 'Edit Checkpoint' : 'Create New Checkpoint'}</h3>
                         <form onSubmit={handleSubmitCheckpoint} className="space-y-6">
                             {/* Basic Info */}
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -399,6 +1069,7 @@ const AdminQrSetup: React.FC<AdminQrSetupProps> = ({ checkpoints, officers, onAd
                                     <div>
                                         <label className="block text-sm font-medium text-slate-400 mb-1">
                                             Allowed Radius: <span className="text-white">{newRadius} meters</span>
+                                            {draftGeofence.length >= 3 && <span className="text-xs text-slate-500"> (used only if the polygon is removed)</span>}
                                         </label>
                                         <input 
                                             type="range" min="10" max="500" step="10"
@@ -407,6 +1078,31 @@ const AdminQrSetup: React.FC<AdminQrSetupProps> = ({ checkpoints, officers, onAd
                                             className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-emerald-500"
                                         />
                                     </div>
+                                    <div>
+                                        <label className="block text-sm font-medium text-slate-400 mb-1">When GPS is weak</label>
+                                        <div className="flex gap-2">
+                                            <select
+                                                value={newPolicyMode}
+                                                onChange={(e) => setNewPolicyMode(e.target.value as LocationPolicyMode)}
+                                                className="flex-1 bg-slate-900 border border-slate-600 rounded-lg p-2.5 text-white text-sm"
+                                            >
+                                                <option value="TRUST_QR_INDOORS">Trust the QR (indoors, basements)</option>
+                                                <option value="REQUIRE_PHOTO">Trust the QR with a photo</option>
+                                                <option value="STRICT">Strict: geofence only (outdoor posts)</option>
+                                            </select>
+                                            <div className="flex items-center gap-1 text-sm text-slate-400">
+                                                <span>&gt;</span>
+                                                <input
+                                                    type="number" min="10" max="1000" step="10"
+                                                    value={newWeakAccuracy}
+                                                    onChange={(e) => setNewWeakAccuracy(parseInt(e.target.value) || DEFAULT_LOCATION_POLICY.weakAccuracyMeters)}
+                                                    className="w-20 bg-slate-900 border border-slate-600 rounded-lg p-2.5 text-white"
+                                                    title="Fixes less accurate than this count as weak GPS"
+                                                />
+                                                <span>m</span>
+                                            </div>
+                                        </div>
+                                    </div>
                                 </div>
 
                                 <div className="space-y-2">
@@ -440,6 +1136,54 @@ const AdminQrSetup: React.FC<AdminQrSetupProps> = ({ checkpoints, officers, onAd
                                 </div>
                             </div>
 
+                            <div>
+                                <SiteMap
+                                    checkpoints={activeCheckpoints.filter(c => c.id !== editingId)}
+                                    pin={pinLocation}
+                                    pinRadiusMeters={newRadius}
+                                    pinGeofence={draftGeofence}
+                                    onPinMove={(lat: number, lng: number) => {
+                                        setNewLat(lat.toFixed(6));
+                                        setNewLng(lng.toFixed(6));
+                                    }}
+                                    tileUrl={siteSettings.mapTileUrl}
+                                    tileAttribution={siteSettings.mapTileAttribution}
+                                    className="h-64"
+                                />
+                                <p className="text-xs text-slate-500 mt-1">Click the map or drag the pin to place the checkpoint. Dashed outlines are existing geofences.</p>
+                            </div>
+
+                            <div>
+                                <div className="flex justify-between items-center mb-1">
+                                    <label className="block text-sm font-medium text-slate-400">Polygon Geofence (optional)</label>
+                                    <div className="flex gap-2">
+                                        <button
+                                            type="button"
+                                            disabled={!pinLocation}
+                                            onClick={() => setNewGeofenceText(prev => `${prev.trim() ? `${prev.trim()}\n` : ''}${newLat}, ${newLng}`)}
+                                            className="text-xs bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-emerald-400 px-2 py-1 rounded border border-slate-600"
+                                        >
+                                            + Add pin as corner
+                                        </button>
+                                        {newGeofenceText && (
+                                            <button type="button" onClick={() => setNewGeofenceText('')} className="text-xs text-slate-400 hover:text-white px-2 py-1">
+                                                Clear
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                                <textarea
+                                    rows={4}
+                                    value={newGeofenceText}
+                                    onChange={(e) => setNewGeofenceText(e.target.value)}
+                                    placeholder={"13.756300, 100.501800\n13.756300, 100.502600\n13.755900, 100.502600"}
+                                    className="w-full bg-slate-900 border border-slate-600 rounded-lg p-2.5 text-white font-mono text-xs"
+                                />
+                                <p className="text-xs text-slate-500 mt-1">
+                                    One "lat, lng" corner per line, in order around the area. Use it for long buildings and fence lines; leave empty to use the radius.
+                                </p>
+                            </div>
+
                             {/* Scheduling Section */}
                             <div className="border-t border-slate-700 pt-4">
                                 <label className="block text-sm font-medium text-slate-400 mb-3">Schedule Strategy</label>
@@ -477,16 +1221,29 @@ const AdminQrSetup: React.FC<AdminQrSetupProps> = ({ checkpoints, officers, onAd
                                         <label className="block text-sm text-slate-400 mb-2">Required Check-in Times:</label>
                                         <div className="flex flex-wrap gap-2">
                                             {fixedTimes.map((time, idx) => (
-                                                <div key={idx} className="flex items-center gap-1">
-                                                    <input 
-                                                        type="time" 
-                                                        value={time}
-                                                        onChange={(e) => handleFixedTimeChange(idx, e.target.value)}
-                                                        className="bg-slate-800 border border-slate-600 rounded px-2 py-1 text-white"
-                                                    />
-                                                    {fixedTimes.length > 1 && (
-                                                        <button type="button" onClick={() => handleRemoveFixedTime(idx)} className="text-red-400 hover:text-red-300">×</button>
-                                                    )}
+                                                <div key={idx} className="flex flex-col gap-1 bg-slate-800/50 p-2 rounded">
+                                                    <div className="flex items-center gap-1">
+                                                        <input 
+                                                            type="time" 
+                                                            value={time}
+                                                            onChange={(e) => handleFixedTimeChange(idx, e.target.value)}
+                                                            className="bg-slate-800 border border-slate-600 rounded px-2 py-1 text-white"
+                                                        />
+                                                        {fixedTimes.length > 1 && (
+                                                            <button type="button" onClick={() => handleRemoveFixedTime(idx)} className="text-red-400 hover:text-red-300">×</button>
+                                                        )}
+                                                    </div>
+                                                    <div className="flex gap-0.5" title="Days this time applies (none selected = every day)">
+                                                        {WEEKDAY_LABELS.map((label, day) => (
+                                                            <button
+                                                                key={day} type="button"
+                                                                onClick={() => handleToggleFixedTimeDay(idx, day)}
+                                                                className={`text-[9px] w-6 py-0.5 rounded ${(fixedTimeDays[idx] || []).includes(day) ? 'bg-purple-600 text-white' : 'bg-slate-700 text-slate-400'}`}
+                                                            >
+                                                                {label.slice(0, 2)}
+                                                            </button>
+                                                        ))}
+                                                    </div>
                                                 </div>
                                             ))}
                                             <button 
@@ -499,22 +1256,64 @@ const AdminQrSetup: React.FC<AdminQrSetupProps> = ({ checkpoints, officers, onAd
                                         </div>
                                     </div>
                                 )}
+
+                                {/* Timing Windows */}
+                                {scheduleType !== 'NONE' && (
+                                    <div className="bg-slate-900 p-4 rounded-lg border border-slate-700 mt-3 grid grid-cols-2 gap-4">
+                                        <div>
+                                            <label className="block text-sm text-slate-400 mb-1">On-time window (+/- mins)</label>
+                                            <input 
+                                                type="number" min="0" step="1"
+                                                value={toleranceMins} onChange={(e) => setToleranceMins(parseInt(e.target.value) || 0)}
+                                                className="bg-slate-800 border border-slate-600 rounded px-3 py-2 text-white w-32"
+                                            />
+                                        </div>
+                                        <div>
+                                            <label className="block text-sm text-slate-400 mb-1">Late grace (mins)</label>
+                                            <input 
+                                                type="number" min="0" step="1"
+                                                value={lateGraceMins} onChange={(e) => setLateGraceMins(parseInt(e.target.value) || 0)}
+                                                className="bg-slate-800 border border-slate-600 rounded px-3 py-2 text-white w-32"
+                                            />
+                                        </div>
+                                        <p className="col-span-2 text-xs text-slate-500">Scans after the on-time window but within the grace period are recorded as LATE; later scans are rejected.</p>
+                                        <div className="col-span-2">
+                                            <label className="block text-sm text-slate-400 mb-1">Active days (by shift date, none selected = every day)</label>
+                                            <div className="flex flex-wrap gap-1">
+                                                {WEEKDAY_LABELS.map((label, day) => (
+                                                    <button
+                                                        key={day} type="button"
+                                                        onClick={() => setActiveDays(toggleDay(activeDays, day))}
+                                                        className={`text-xs px-2 py-1 rounded border ${activeDays.includes(day) ? 'bg-emerald-900/30 border-emerald-500 text-white' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+                                                    >
+                                                        {label}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        </div>
+                                    </div>
+                                )}
                             </div>
 
                             <button 
                                 type="submit" 
                                 className="w-full bg-emerald-600 hover:bg-emerald-500 text-white font-bold py-3 rounded-lg shadow-lg shadow-emerald-900/20 transition-all"
                             >
-                                Save Checkpoint
+                                {editingId ? 'Save Changes' : 'Save Checkpoint'}
                             </button>
+                            {editingId && (
+                                <p className="text-xs text-slate-500 text-center">
+                                    The QR only encodes the checkpoint ID, so printed tags keep working after these changes.
+                                </p>
+                            )}
                         </form>
                     </div>
                 )}
 
                 {/* LIST & QR GRIDS */}
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 print:grid-cols-2 print:gap-8">
-                {checkpoints.map((cp) => (
-                    <div key={cp.id} className="qr-card bg-white p-6 rounded-xl border-4 border-slate-200 text-center flex flex-col items-center shadow-lg print:shadow-none print:border-2 print:border-black break-inside-avoid">
+                {activeCheckpoints.map((cp) => (
+                    <div key={cp.id} className={`qr-card bg-white p-6 rounded-xl border-4 border-slate-200 text-center flex flex-col items-center shadow-lg print:shadow-none print:border-2 print:border-black break-inside-avoid ${printedCheckpoints.includes(cp) ? '' : 'print:hidden'}`}>
                     
                     <div className="mb-2 w-full border-b-2 border-slate-100 pb-2">
                         <h3 className="text-xl font-bold text-slate-900">{cp.name}</h3>
@@ -534,8 +1333,22 @@ const AdminQrSetup: React.FC<AdminQrSetupProps> = ({ checkpoints, officers, onAd
                     <div className="mt-2 pt-2 border-t-2 border-slate-100 w-full text-left">
                         <div className="text-[10px] text-slate-400 flex justify-between items-center">
                             <span className="font-mono">{cp.id}</span>
-                            <span>Range: {cp.allowedRadiusMeters}m</span>
+                            <span>{cp.geofence && cp.geofence.length >= 3 ? `Polygon: ${cp.geofence.length} corners` : `Range: ${cp.allowedRadiusMeters}m`}</span>
+                        </div>
+                        <div className="text-[10px] text-slate-400">
+                            Weak GPS (&gt;{getLocationPolicy(cp).weakAccuracyMeters}m): {POLICY_LABELS[getLocationPolicy(cp).mode]}
                         </div>
+                        {activeKey && (
+                            <div className={`text-[10px] mt-1 ${qrValues[cp.id]?.keyVersion ? 'text-slate-400' : 'no-print text-red-500 font-bold'}`}>
+                                {qrValues[cp.id]?.keyVersion ? `Signed · key v${qrValues[cp.id].keyVersion}` : 'UNSIGNED - will be rejected'}
+                            </div>
+                        )}
+                        {tagStatusOf(cp) === 'NEEDS_REPRINT' && (
+                            <div className="no-print text-[10px] mt-1 text-red-500 font-bold">Needs reprint: the signing key or base URL changed since this tag was issued</div>
+                        )}
+                        {tagStatusOf(cp) === 'NOT_ISSUED' && (
+                            <div className="no-print text-[10px] mt-1 text-amber-600">Not printed yet</div>
+                        )}
                         
                         {/* Schedule Display on Card */}
                         <div className="mt-2 bg-slate-50 p-2 rounded text-xs text-slate-600">
@@ -549,12 +1362,74 @@ const AdminQrSetup: React.FC<AdminQrSetupProps> = ({ checkpoints, officers, onAd
                                     At {cp.schedule.fixedTimes?.join(", ")}
                                 </span>
                             )}
+                            {cp.schedule?.activeDays && cp.schedule.activeDays.length > 0 && (
+                                <span className="text-slate-500"> · {cp.schedule.activeDays.map(d => WEEKDAY_LABELS[d]).join('/')}</span>
+                            )}
+                            {cp.schedule?.fixedTimeDays && Object.entries(cp.schedule.fixedTimeDays).map(([time, days]) => (
+                                <span key={time} className="block text-slate-500">{time} only {(days as number[]).map(d => WEEKDAY_LABELS[d]).join('/')}</span>
+                            ))}
+                            {cp.schedule && cp.schedule.type !== 'NONE' && cp.schedule.toleranceMinutes !== undefined && (
+                                <span className="text-slate-400"> (+/- {cp.schedule.toleranceMinutes}m{cp.schedule.lateGraceMinutes ? `, late +${cp.schedule.lateGraceMinutes}m` : ''})</span>
+                            )}
                         </div>
+
+                        {isNfcSupported() && (
+                            <div className="no-print mt-2">
+                                <button
+                                    onClick={() => handleWriteNfc(cp)}
+                                    disabled={nfcWritingId !== null}
+                                    className="w-full text-xs bg-sky-600 hover:bg-sky-500 disabled:opacity-50 text-white py-1.5 rounded"
+                                >
+                                    {nfcWritingId === cp.id ? 'Hold a tag against the phone...' : 'Write NFC Tag'}
+                                </button>
+                                {nfcResult?.checkpointId === cp.id && (
+                                    <div className={`text-[10px] mt-1 ${nfcResult.ok ? 'text-emerald-600' : 'text-red-500'}`}>{nfcResult.message}</div>
+                                )}
+                            </div>
+                        )}
+
+                        {(onUpdateCheckpoint || onArchiveCheckpoint || onRemoveCheckpoint) && (
+                            <div className="no-print mt-2 flex gap-2">
+                                {onUpdateCheckpoint && (
+                                    <button onClick={() => handleEditCheckpoint(cp)} className="flex-1 text-xs bg-slate-200 hover:bg-slate-300 text-slate-800 py-1.5 rounded">Edit</button>
+                                )}
+                                {onArchiveCheckpoint && (
+                                    <button onClick={() => onArchiveCheckpoint(cp.id, true)} className="flex-1 text-xs bg-slate-200 hover:bg-slate-300 text-slate-800 py-1.5 rounded">Archive</button>
+                                )}
+                                {onRemoveCheckpoint && (
+                                    <button onClick={() => onRemoveCheckpoint(cp.id)} className="text-xs text-red-500 hover:text-red-400 px-2 py-1.5">Delete</button>
+                                )}
+                            </div>
+                        )}
                     </div>
 
                     </div>
                 ))}
                 </div>
+
+                {/* ARCHIVED CHECKPOINTS */}
+                {archivedCheckpoints.length > 0 && (
+                    <div className="no-print mt-8 bg-slate-800 rounded-xl border border-slate-700 overflow-hidden">
+                        <div className="p-4 border-b border-slate-700">
+                            <h3 className="text-lg font-bold text-white">Archived Checkpoints</h3>
+                            <p className="text-xs text-slate-400 mt-1">Not scanned or scheduled any more. Past logs still point at them.</p>
+                        </div>
+                        <ul className="divide-y divide-slate-700">
+                            {archivedCheckpoints.map(cp => (
+                                <li key={cp.id} className="px-4 py-3 flex items-center gap-3 text-sm">
+                                    <span className="text-white font-medium">{cp.name}</span>
+                                    <span className="font-mono text-xs text-slate-500 mr-auto">{cp.id}</span>
+                                    {onArchiveCheckpoint && (
+                                        <button onClick={() => onArchiveCheckpoint(cp.id, false)} className="text-xs bg-slate-700 hover:bg-slate-600 text-white px-3 py-1 rounded">Restore</button>
+                                    )}
+                                    {onRemoveCheckpoint && (
+                                        <button onClick={() => onRemoveCheckpoint(cp.id)} className="text-xs text-red-400 hover:text-red-300">Delete</button>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    </div>
+                )}
             </>
         )}
       </div>
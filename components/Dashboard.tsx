@@ -1,6 +1,17 @@
-import React from 'react';
-import { Checkpoint, ScanLog, ScanStatus } from '../types';
-import { formatTime, convertLogsToCSV, downloadFile } from '../utils';
+import React, { useState, useEffect } from 'react';
+import { Checkpoint, ScanLog, ScanStatus, PatrolRoute, SiteSettings, Incident, IncidentStatus, SosAlert, User } from '../types';
+import { formatTime, formatDate, convertLogsToCSV, downloadFile, getDeviceTimeZone } from '../utils';
+import { summarizeRounds, RoundSummary } from '../services/patrolRouteService';
+import { getDailySlots, getOverdueSlots, summarizeCompliance } from '../services/scheduleService';
+import { hasPolygon } from '../services/geofenceService';
+import { getActiveCheckpoints } from '../services/checkpointService';
+import { describeOfficer } from '../services/officerService';
+import { needsReview } from '../services/locationRiskService';
+import EvidencePhoto from './EvidencePhoto';
+import IncidentPanel from './IncidentPanel';
+import SosAlertBanner from './SosAlertBanner';
+import ShiftReplay from './ShiftReplay';
+import SiteMap from './SiteMap';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip as ReTooltip, Legend } from 'recharts';
 
 interface DashboardProps {
@@ -8,17 +19,43 @@ interface DashboardProps {
   checkpoints: Checkpoint[];
   onRefresh?: () => void;
   isSyncing?: boolean;
+  pendingSyncCount?: number;
+  routes?: PatrolRoute[];
+  siteSettings?: SiteSettings;
+  incidents?: Incident[];
+  canManageIncidents?: boolean;
+  onAdvanceIncident?: (incident: Incident, to: IncidentStatus, note?: string) => void;
+  onReportIncident?: () => void;
+  sosAlerts?: SosAlert[]; // Live alerts from other officers
+  acknowledgedSosIds?: string[];
+  onAcknowledgeSos?: (alertId: string) => void;
+  officers?: User[]; // Resolves officer IDs on logs, rounds and incidents to names
+  replayOfficers?: User[]; // Only passed to roles allowed to see other officers' paths
 }
 
 const COLORS = ['#10b981', '#ef4444', '#f59e0b', '#3b82f6']; // Emerald, Red, Amber, Blue
 const DRIVE_FOLDER_URL = "https://drive.google.com/drive/folders/1q0exFEAkQQTlnyL2HOjy4Tl4H9s-iFtk?usp=sharing";
 
-const Dashboard: React.FC<DashboardProps> = ({ logs, checkpoints, onRefresh, isSyncing }) => {
+const roundStatus = ({ progress }: RoundSummary): { label: string; className: string } => {
+  if (progress.isFinished) {
+    return progress.isOverdue
+      ? { label: 'Completed late', className: 'bg-amber-900 text-amber-300' }
+      : { label: 'Completed', className: 'bg-emerald-900 text-emerald-300' };
+  }
+  return progress.isOverdue
+    ? { label: 'Overdue', className: 'bg-red-900 text-red-300' }
+    : { label: 'In progress', className: 'bg-blue-900 text-blue-300' };
+};
+
+const Dashboard: React.FC<DashboardProps> = ({ logs, checkpoints, onRefresh, isSyncing, pendingSyncCount = 0, routes = [], siteSettings, incidents = [], canManageIncidents = false, onAdvanceIncident, onReportIncident, sosAlerts = [], acknowledgedSosIds = [], onAcknowledgeSos, officers = [], replayOfficers }) => {
   // Calculate Stats
   const validScans = logs.filter(l => l.status === ScanStatus.VALID).length;
   const invalidScans = logs.filter(l => l.status === ScanStatus.INVALID_LOCATION).length;
   const issueScans = logs.filter(l => l.status === ScanStatus.ISSUE_REPORTED).length;
   const lateScans = logs.filter(l => l.status === ScanStatus.LATE).length;
+  const flaggedScans = logs.filter(needsReview).length;
+  const [showFlaggedOnly, setShowFlaggedOnly] = useState(false);
+  const tableLogs = showFlaggedOnly && flaggedScans > 0 ? logs.filter(needsReview) : logs;
 
   const data = [
     { name: 'Valid', value: validScans },
@@ -27,13 +64,51 @@ const Dashboard: React.FC<DashboardProps> = ({ logs, checkpoints, onRefresh, isS
     { name: 'Late', value: lateScans },
   ].filter(d => d.value > 0);
 
+  // Re-evaluate schedules every minute so overdue slots appear without new scans
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Times are shown in the site's zone so supervisors elsewhere see the same clock as the guards
+  const timeZone = siteSettings?.timeZone || getDeviceTimeZone();
+
+  const describeMiss = (log: ScanLog): string => {
+    const checkpoint = checkpoints.find(c => c.id === log.checkpointId);
+    const distance = Math.round(log.distanceFromTarget || 0);
+    if (!checkpoint) return `Dist: ${distance}m`;
+    return hasPolygon(checkpoint)
+        ? `${distance}m outside geofence`
+        : `Dist: ${distance}m (Allowed: ${checkpoint.allowedRadiusMeters}m)`;
+  };
+
+  // Archived checkpoints still name old logs and appear in replays, but have no slots or map pin
+  const activeCheckpoints = getActiveCheckpoints(checkpoints);
+  const rounds = summarizeRounds(logs, routes, now);
+  const slots = getDailySlots(activeCheckpoints, logs, now, now, siteSettings);
+  const overdueSlots = getOverdueSlots(slots, now);
+  const compliance = summarizeCompliance(slots);
+  const closedSlots = slots.filter(s => s.status === 'ON_TIME' || s.status === 'LATE' || s.status === 'MISSED').length;
+  const onTimeRate = closedSlots > 0 ? Math.round((slots.filter(s => s.status === 'ON_TIME').length / closedSlots) * 100) : null;
+
   const handleExportCsv = () => {
-      const csvContent = convertLogsToCSV(logs);
+      // Exported as "Name (ID)", like logs written before officer IDs were stored raw
+      const csvContent = convertLogsToCSV(logs.map(log => ({ ...log, officerId: describeOfficer(officers, log.officerId) })), timeZone);
       downloadFile(csvContent, `scan_logs_${new Date().toISOString().slice(0,10)}.csv`, 'text/csv');
   };
 
   return (
     <div className="space-y-6">
+      {/* SOS Alerts */}
+      <SosAlertBanner
+          alerts={sosAlerts}
+          acknowledgedIds={acknowledgedSosIds}
+          onAcknowledge={(id) => onAcknowledgeSos?.(id)}
+          timeZone={timeZone}
+          now={Date.now()}
+      />
+
       {/* Stats Grid */}
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
         <div className="bg-slate-800 p-4 rounded-xl border border-slate-700">
@@ -54,6 +129,83 @@ const Dashboard: React.FC<DashboardProps> = ({ logs, checkpoints, onRefresh, isS
         </div>
       </div>
 
+      {/* Incidents */}
+      {(incidents.length > 0 || onReportIncident) && (
+        <IncidentPanel
+            incidents={incidents}
+            logs={logs}
+            officers={officers}
+            timeZone={timeZone}
+            canManage={canManageIncidents && !!onAdvanceIncident}
+            onAdvance={(incident, to, note) => onAdvanceIncident?.(incident, to, note)}
+            onReport={onReportIncident}
+        />
+      )}
+
+      {/* Schedule Compliance (today) */}
+      {slots.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className={`bg-slate-800 rounded-xl border overflow-hidden ${overdueSlots.length > 0 ? 'border-red-700' : 'border-slate-700'}`}>
+                <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+                    <h3 className="text-lg font-semibold text-white">Overdue Now</h3>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${overdueSlots.length > 0 ? 'bg-red-900 text-red-300' : 'bg-emerald-900 text-emerald-300'}`}>
+                        {overdueSlots.length}
+                    </span>
+                </div>
+                {overdueSlots.length === 0 ? (
+                    <p className="px-6 py-4 text-center text-slate-500 text-sm">All scheduled checks are up to date.</p>
+                ) : (
+                    <ul className="divide-y divide-slate-700 max-h-64 overflow-y-auto">
+                        {[...overdueSlots].reverse().map(slot => (
+                            <li key={`${slot.checkpointId}-${slot.dueAt}`} className="px-4 py-3 flex items-center justify-between text-sm">
+                                <div>
+                                    <div className="text-white font-medium">{slot.checkpointName}</div>
+                                    <div className="text-xs text-slate-400">Due {formatTime(slot.dueAt, timeZone)}</div>
+                                </div>
+                                {slot.status === 'MISSED' ? (
+                                    <span className="px-2 py-1 rounded-full text-xs font-semibold bg-red-900 text-red-300">MISSED</span>
+                                ) : (
+                                    <span className="px-2 py-1 rounded-full text-xs font-semibold bg-amber-900 text-amber-300">
+                                        {Math.floor((now - slot.dueAt) / 60000)} min overdue
+                                    </span>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+
+            <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden">
+                <div className="p-4 border-b border-slate-700 flex items-center justify-between">
+                    <h3 className="text-lg font-semibold text-white">Schedule Compliance (Current Shift)</h3>
+                    {onTimeRate !== null && <span className="text-sm font-bold text-emerald-400">{onTimeRate}% on time</span>}
+                </div>
+                <table className="w-full text-sm text-left text-slate-400">
+                    <thead className="text-xs text-slate-300 uppercase bg-slate-900/50">
+                        <tr>
+                            <th className="px-4 py-2">Checkpoint</th>
+                            <th className="px-4 py-2 text-emerald-400">On time</th>
+                            <th className="px-4 py-2 text-blue-400">Late</th>
+                            <th className="px-4 py-2 text-red-400">Missed</th>
+                            <th className="px-4 py-2">Remaining</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {compliance.map(c => (
+                            <tr key={c.checkpointId} className="border-b border-slate-700">
+                                <td className="px-4 py-2 text-white">{c.checkpointName}</td>
+                                <td className="px-4 py-2">{c.onTime}</td>
+                                <td className="px-4 py-2">{c.late}</td>
+                                <td className="px-4 py-2">{c.missed}</td>
+                                <td className="px-4 py-2">{c.remaining}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+      )}
+
       {/* Charts Section */}
       <div className="grid grid-cols-1 gap-6">
         <div className="bg-slate-800 p-6 rounded-xl border border-slate-700 min-h-[300px] flex flex-col">
@@ -92,11 +244,93 @@ const Dashboard: React.FC<DashboardProps> = ({ logs, checkpoints, onRefresh, isS
         </div>
       </div>
 
+      {/* Patrol Rounds */}
+      {rounds.length > 0 && (
+        <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden">
+            <h3 className="text-lg font-semibold text-white p-4 border-b border-slate-700">Patrol Rounds</h3>
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm text-left text-slate-400">
+                    <thead className="text-xs text-slate-300 uppercase bg-slate-900/50">
+                        <tr>
+                            <th className="px-6 py-3">Started</th>
+                            <th className="px-6 py-3">Route</th>
+                            <th className="px-6 py-3">Officer</th>
+                            <th className="px-6 py-3">Completion</th>
+                            <th className="px-6 py-3">Status</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rounds.map(round => {
+                            const status = roundStatus(round);
+                            const { progress } = round;
+                            return (
+                                <tr key={round.roundId} className="border-b border-slate-700 hover:bg-slate-700/50">
+                                    <td className="px-6 py-4">
+                                        {formatTime(round.startedAt, timeZone)}
+                                        <span className="block text-[10px] text-slate-500">{formatDate(round.startedAt, timeZone)}</span>
+                                    </td>
+                                    <td className="px-6 py-4 text-white font-medium">{round.route.name}</td>
+                                    <td className="px-6 py-4">{describeOfficer(officers, round.officerId)}</td>
+                                    <td className="px-6 py-4 min-w-[10rem]">
+                                        <div className="flex items-center gap-2">
+                                            <div className="flex-1 h-2 bg-slate-700 rounded-full overflow-hidden">
+                                                <div className="h-full bg-emerald-500" style={{ width: `${Math.round(progress.completion * 100)}%` }}></div>
+                                            </div>
+                                            <span className="text-xs text-slate-300">{progress.visitedIds.length}/{round.route.checkpointIds.length}</span>
+                                        </div>
+                                        {(progress.skippedIds.length > 0 || progress.outOfOrderCount > 0) && (
+                                            <span className="block mt-1 text-[10px] text-amber-400">
+                                                {progress.skippedIds.length > 0 && `${progress.skippedIds.length} skipped`}
+                                                {progress.skippedIds.length > 0 && progress.outOfOrderCount > 0 && ' · '}
+                                                {progress.outOfOrderCount > 0 && `${progress.outOfOrderCount} out of order`}
+                                            </span>
+                                        )}
+                                    </td>
+                                    <td className="px-6 py-4">
+                                        <span className={`px-2 py-1 rounded-full text-xs font-semibold ${status.className}`}>{status.label}</span>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+            </div>
+        </div>
+      )}
+
+      {/* Site Map */}
+      {activeCheckpoints.length > 0 && (
+        <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden">
+            <div className="p-4 border-b border-slate-700 flex flex-wrap items-center gap-4">
+                <h3 className="text-lg font-bold text-white mr-auto">Site Map</h3>
+                <span className="flex items-center gap-1 text-xs text-slate-400"><span className="w-2 h-2 rounded-full bg-emerald-500 inline-block"></span>valid</span>
+                <span className="flex items-center gap-1 text-xs text-slate-400"><span className="w-2 h-2 rounded-full bg-blue-500 inline-block"></span>late</span>
+                <span className="flex items-center gap-1 text-xs text-slate-400"><span className="w-2 h-2 rounded-full bg-amber-500 inline-block"></span>issue</span>
+                <span className="flex items-center gap-1 text-xs text-slate-400"><span className="w-2 h-2 rounded-full bg-red-500 inline-block"></span>rejected</span>
+            </div>
+            <div className="p-4">
+                <SiteMap
+                    checkpoints={activeCheckpoints}
+                    logs={logs}
+                    officers={officers}
+                    tileUrl={siteSettings?.mapTileUrl}
+                    tileAttribution={siteSettings?.mapTileAttribution}
+                />
+            </div>
+        </div>
+      )}
+
+      {/* Shift Replay */}
+      {replayOfficers && replayOfficers.length > 0 && siteSettings && (
+        <ShiftReplay officers={replayOfficers} checkpoints={checkpoints} logs={logs} siteSettings={siteSettings} />
+      )}
+
       {/* Detailed Logs Table */}
       <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden">
         <div className="p-4 border-b border-slate-700 flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
             <div className="flex items-center gap-3">
                 <h3 className="text-lg font-semibold text-white">Recent Patrol Logs</h3>
+                <span className="text-[10px] text-slate-500">{timeZone}</span>
                 {onRefresh && (
                     <button 
                         onClick={onRefresh}
@@ -107,6 +341,20 @@ const Dashboard: React.FC<DashboardProps> = ({ logs, checkpoints, onRefresh, isS
                         <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"></path></svg>
                     </button>
                 )}
+                {pendingSyncCount > 0 && (
+                    <span className="bg-amber-900/50 text-amber-300 border border-amber-700/50 px-2 py-0.5 rounded-full text-xs">
+                        {pendingSyncCount} waiting to upload
+                    </span>
+                )}
+                {flaggedScans > 0 && (
+                    <button
+                        onClick={() => setShowFlaggedOnly(!showFlaggedOnly)}
+                        title="Scans whose GPS position looks faked"
+                        className={`px-2 py-0.5 rounded-full text-xs border ${showFlaggedOnly ? 'bg-orange-600 text-white border-orange-500' : 'bg-orange-900/50 text-orange-300 border-orange-700/50'}`}
+                    >
+                        ⚠ {flaggedScans} flagged for review
+                    </button>
+                )}
             </div>
             
             <div className="flex gap-2">
@@ -141,30 +389,56 @@ const Dashboard: React.FC<DashboardProps> = ({ logs, checkpoints, onRefresh, isS
                     </tr>
                 </thead>
                 <tbody>
-                    {logs.length === 0 && (
+                    {tableLogs.length === 0 && (
                         <tr><td colSpan={5} className="px-6 py-4 text-center">No scans recorded today.</td></tr>
                     )}
-                    {[...logs].reverse().map(log => (
-                        <tr key={log.id} className="border-b border-slate-700 hover:bg-slate-700/50">
-                            <td className="px-6 py-4">{formatTime(log.timestamp)}</td>
-                            <td className="px-6 py-4 text-white font-medium">{log.checkpointName}</td>
-                            <td className="px-6 py-4">{log.officerId}</td>
+                    {[...tableLogs].reverse().map(log => (
+                        <tr key={log.id} className={`border-b border-slate-700 hover:bg-slate-700/50 ${needsReview(log) ? 'bg-orange-950/30' : ''}`}>
+                            <td className="px-6 py-4">
+                                {formatTime(log.timestamp, timeZone)}
+                                <span className="block text-[10px] text-slate-500">{formatDate(log.timestamp, timeZone)}</span>
+                            </td>
+                            <td className="px-6 py-4 text-white font-medium">
+                                {log.checkpointName}
+                                {log.scanMethod && <span className="block text-[10px] font-normal text-slate-500">via {log.scanMethod === 'MANUAL' ? 'manual entry' : log.scanMethod}</span>}
+                            </td>
+                            <td className="px-6 py-4">{describeOfficer(officers, log.officerId)}</td>
                             <td className="px-6 py-4">
                                 <span className={`px-2 py-1 rounded-full text-xs font-semibold
                                     ${log.status === ScanStatus.VALID ? 'bg-emerald-900 text-emerald-300' : 
-                                      log.status === ScanStatus.INVALID_LOCATION ? 'bg-red-900 text-red-300' :
+                                      log.status === ScanStatus.INVALID_LOCATION || log.status === ScanStatus.INVALID_TAG ? 'bg-red-900 text-red-300' :
                                       log.status === ScanStatus.ISSUE_REPORTED ? 'bg-amber-900 text-amber-300' :
+                                      log.status === ScanStatus.SIMULATED ? 'bg-slate-700 text-slate-300' :
                                       'bg-blue-900 text-blue-300'}
                                 `}>
-                                    {log.status === ScanStatus.INVALID_LOCATION ? 'LOCATION MISMATCH' : log.status}
+                                    {log.status === ScanStatus.INVALID_LOCATION ? 'LOCATION MISMATCH' : log.status === ScanStatus.INVALID_TAG ? 'INVALID TAG' : log.status}
                                 </span>
+                                {log.syncState === 'PENDING' && (
+                                    <span className="block mt-1 text-[10px] text-amber-400">⇡ Pending upload</span>
+                                )}
+                                {log.syncState === 'FAILED' && (
+                                    <span className="block mt-1 text-[10px] text-red-400">⇡ Upload failed, retrying</span>
+                                )}
+                                {needsReview(log) && (
+                                    <span className="block mt-1 text-[10px] text-orange-400" title={(log.riskReasons || []).join('\n')}>
+                                        ⚠ Location risk {log.riskScore}
+                                    </span>
+                                )}
                             </td>
                             <td className="px-6 py-4 text-xs">
-                                {log.distanceFromTarget && log.status === ScanStatus.INVALID_LOCATION ? (
-                                    <span className="text-red-400">Dist: {Math.round(log.distanceFromTarget)}m (Allowed: 50m)</span>
-                                ) : (
-                                    log.note
-                                )}
+                                <div className="flex items-center gap-3">
+                                    <EvidencePhoto log={log} officerLabel={describeOfficer(officers, log.officerId)} />
+                                    <div>
+                                        {log.distanceFromTarget && log.status === ScanStatus.INVALID_LOCATION ? (
+                                            <span className="text-red-400">{describeMiss(log)}</span>
+                                        ) : (
+                                            log.note
+                                        )}
+                                        {needsReview(log) && log.riskReasons && (
+                                            <span className="block text-[10px] text-orange-300 mt-0.5">{log.riskReasons.join(' · ')}</span>
+                                        )}
+                                    </div>
+                                </div>
                             </td>
                         </tr>
                     ))}
@@ -0,0 +1,73 @@
+import React, { useState, useEffect } from 'react';
+import { ScanLog } from '../types';
+import { getPendingPhoto } from '../services/photoService';
+
+interface EvidencePhotoProps {
+  log: ScanLog;
+  officerLabel?: string; // Resolved officer name; defaults to the stored officer ID
+}
+
+// Thumbnail for a log's evidence photo that opens the full-size image.
+// Photos still waiting in the outbox are shown from the local store.
+const EvidencePhoto: React.FC<EvidencePhotoProps> = ({ log, officerLabel }) => {
+  const [localUrl, setLocalUrl] = useState<string | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [thumbFailed, setThumbFailed] = useState(false);
+
+  useEffect(() => {
+    if (!log.evidencePhotoPending || log.evidencePhotoUrl) return;
+    let url: string | null = null;
+    let cancelled = false;
+    getPendingPhoto(log.id).then(blob => {
+        if (cancelled || !blob) return;
+        url = URL.createObjectURL(blob);
+        setLocalUrl(url);
+    });
+    return () => {
+        cancelled = true;
+        if (url) URL.revokeObjectURL(url);
+    };
+  }, [log.id, log.evidencePhotoPending, log.evidencePhotoUrl]);
+
+  const fullUrl = log.evidencePhotoUrl || localUrl;
+  const thumbUrl = log.evidenceThumbnailUrl || fullUrl;
+  if (!fullUrl || !thumbUrl) return null;
+
+  return (
+    <>
+        <button
+            onClick={() => setIsOpen(true)}
+            className="block w-12 h-12 rounded overflow-hidden border border-slate-600 bg-slate-900 hover:border-emerald-500 flex-shrink-0"
+            title="View photo"
+        >
+            {thumbFailed ? (
+                <span className="text-[10px] text-slate-400">Photo</span>
+            ) : (
+                <img src={thumbUrl} alt="Evidence" loading="lazy" className="w-full h-full object-cover" onError={() => setThumbFailed(true)} />
+            )}
+        </button>
+
+        {isOpen && (
+            <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/90 backdrop-blur-sm" onClick={() => setIsOpen(false)}>
+                <div className="max-w-4xl w-full" onClick={(e) => e.stopPropagation()}>
+                    <div className="flex justify-between items-center mb-2 text-sm">
+                        <span className="text-white font-medium">
+                            {log.checkpointName} <span className="text-slate-400">· {officerLabel || log.officerId}</span>
+                            {!log.evidencePhotoUrl && <span className="ml-2 text-amber-400 text-xs">Not uploaded yet</span>}
+                        </span>
+                        <div className="flex items-center gap-3">
+                            <a href={fullUrl} target="_blank" rel="noreferrer" className="text-blue-400 hover:text-blue-300 text-xs">Open original</a>
+                            <button onClick={() => setIsOpen(false)} className="text-slate-400 hover:text-white transition-colors">
+                                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+                            </button>
+                        </div>
+                    </div>
+                    <img src={fullUrl} alt={`Evidence at ${log.checkpointName}`} className="w-full max-h-[80vh] object-contain rounded-lg bg-black" />
+                </div>
+            </div>
+        )}
+    </>
+  );
+};
+
+export default EvidencePhoto;
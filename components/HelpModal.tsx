@@ -38,7 +38,7 @@ const HelpModal: React.FC<HelpModalProps> = ({ onClose }) => {
                   Press <span className="text-emerald-400 font-mono text-xs border border-emerald-500/30 px-1 rounded">Scan Checkpoint</span>. Point your camera at the QR code tag fixed at the location.
                 </p>
                 <p className="text-xs text-slate-500 mt-2 italic bg-slate-900/50 p-2 rounded border border-slate-700/50">
-                  *Simulation Mode: Use the buttons on the screen to simulate scanning different QR codes.
+                  *Simulation Mode: Only available when an admin enables Demo Mode in Setup. Patrol devices must scan the real tag.
                 </p>
               </div>
             </div>
@@ -0,0 +1,196 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Checkpoint, Coordinates, IncidentCategory, IncidentSeverity } from '../types';
+import { getCurrentPosition } from '../utils';
+import { compressImageFile } from '../services/photoService';
+import { CATEGORY_LABELS, SEVERITY_ORDER, MAX_INCIDENT_PHOTOS, IncidentDraft } from '../services/incidentService';
+
+interface IncidentFormProps {
+  checkpoints: Checkpoint[];
+  initialCheckpointId?: string;
+  onSubmit: (draft: IncidentDraft, photos: Blob[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const SEVERITY_STYLES: Record<IncidentSeverity, string> = {
+  [IncidentSeverity.LOW]: 'border-slate-500 text-slate-300',
+  [IncidentSeverity.MEDIUM]: 'border-amber-500 text-amber-300',
+  [IncidentSeverity.HIGH]: 'border-orange-500 text-orange-300',
+  [IncidentSeverity.CRITICAL]: 'border-red-500 text-red-300'
+};
+
+const IncidentForm: React.FC<IncidentFormProps> = ({ checkpoints, initialCheckpointId, onSubmit, onClose }) => {
+  const [category, setCategory] = useState<IncidentCategory | null>(null);
+  const [severity, setSeverity] = useState<IncidentSeverity>(IncidentSeverity.MEDIUM);
+  const [description, setDescription] = useState('');
+  const [checkpointId, setCheckpointId] = useState(initialCheckpointId || '');
+  const [photos, setPhotos] = useState<Blob[]>([]);
+  const [photoUrls, setPhotoUrls] = useState<string[]>([]);
+  const [location, setLocation] = useState<Coordinates | undefined>(undefined);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+
+  // Best effort: an incident report must never wait for a GPS fix
+  useEffect(() => {
+    getCurrentPosition().then(setLocation).catch(() => setLocation(undefined));
+  }, []);
+
+  useEffect(() => {
+    const urls = photos.map(p => URL.createObjectURL(p));
+    setPhotoUrls(urls);
+    return () => urls.forEach(u => URL.revokeObjectURL(u));
+  }, [photos]);
+
+  const handlePhotoFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+        const compressed = await compressImageFile(file);
+        setPhotos(prev => [...prev, compressed].slice(0, MAX_INCIDENT_PHOTOS));
+    } catch (err) {
+        setError(err instanceof Error ? err.message : "Could not read that image.");
+    } finally {
+        setIsBusy(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!category) {
+        setError("Choose what kind of incident this is.");
+        return;
+    }
+    if (!description.trim()) {
+        setError("Describe what you found.");
+        return;
+    }
+    setIsBusy(true);
+    setError(null);
+    try {
+        await onSubmit({ category, severity, description, checkpointId: checkpointId || undefined, location }, photos);
+    } catch (err) {
+        setError(err instanceof Error ? err.message : "Could not submit the report.");
+        setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+      <div className="bg-slate-800 border border-slate-700 rounded-2xl max-w-lg w-full shadow-2xl max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          <div className="flex justify-between items-center">
+            <h2 className="text-xl font-bold text-white flex items-center gap-2">
+              <span className="bg-amber-600 w-8 h-8 rounded-lg flex items-center justify-center text-sm">!</span>
+              Report Incident
+            </h2>
+            <button type="button" onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"></path></svg>
+            </button>
+          </div>
+
+          <div>
+            <label className="block text-sm text-slate-400 mb-2">Category</label>
+            <div className="grid grid-cols-2 gap-2">
+                {Object.values(IncidentCategory).map(c => (
+                    <button
+                        key={c} type="button"
+                        onClick={() => setCategory(c)}
+                        className={`p-3 rounded-xl border text-sm font-medium transition-colors ${category === c ? 'bg-amber-900/40 border-amber-500 text-white' : 'bg-slate-900 border-slate-700 text-slate-400 hover:border-slate-500'}`}
+                    >
+                        {CATEGORY_LABELS[c]}
+                    </button>
+                ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm text-slate-400 mb-2">Severity</label>
+            <div className="flex gap-2">
+                {SEVERITY_ORDER.map(s => (
+                    <button
+                        key={s} type="button"
+                        onClick={() => setSeverity(s)}
+                        className={`flex-1 py-2 rounded-lg border text-xs font-bold ${severity === s ? `${SEVERITY_STYLES[s]} bg-slate-700` : 'border-slate-700 text-slate-500 bg-slate-900'}`}
+                    >
+                        {s}
+                    </button>
+                ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm text-slate-400 mb-1">Checkpoint (optional)</label>
+            <select
+                value={checkpointId}
+                onChange={(e) => setCheckpointId(e.target.value)}
+                className="w-full bg-slate-900 border border-slate-600 rounded p-2 text-white"
+            >
+                <option value="">Not at a checkpoint</option>
+                {checkpoints.map(cp => (
+                    <option key={cp.id} value={cp.id}>{cp.name}</option>
+                ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm text-slate-400 mb-1">What happened?</label>
+            <textarea
+                className="w-full bg-slate-900 border border-slate-600 rounded-xl p-3 text-white focus:ring-2 focus:ring-amber-500 outline-none h-24"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="e.g., Broken window at rear stairwell, glass on floor"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm text-slate-400 mb-2">Photos ({photos.length}/{MAX_INCIDENT_PHOTOS})</label>
+            <input ref={photoInputRef} type="file" accept="image/*" capture="environment" className="hidden" onChange={handlePhotoFile} />
+            <div className="flex gap-2 flex-wrap">
+                {photoUrls.map((url, idx) => (
+                    <div key={url} className="relative w-20 h-20 rounded-lg overflow-hidden border border-slate-600">
+                        <img src={url} alt={`Photo ${idx + 1}`} className="w-full h-full object-cover" />
+                        <button
+                            type="button"
+                            onClick={() => setPhotos(photos.filter((_, i) => i !== idx))}
+                            className="absolute top-0 right-0 bg-black/70 text-white text-xs w-5 h-5"
+                        >
+                            ×
+                        </button>
+                    </div>
+                ))}
+                {photos.length < MAX_INCIDENT_PHOTOS && (
+                    <button
+                        type="button"
+                        onClick={() => photoInputRef.current?.click()}
+                        disabled={isBusy}
+                        className="w-20 h-20 rounded-lg border-2 border-dashed border-slate-600 text-slate-400 hover:border-slate-400 text-xs disabled:opacity-50"
+                    >
+                        + Photo
+                    </button>
+                )}
+            </div>
+          </div>
+
+          <p className="text-[10px] text-slate-500">
+            {location ? `Location attached (±${Math.round(location.accuracy || 0)}m)` : 'Location unavailable, the report will be sent without it.'}
+          </p>
+
+          {error && <div className="text-xs text-red-300 bg-red-900/40 p-2 rounded">{error}</div>}
+
+          <button
+              type="submit"
+              disabled={isBusy}
+              className="w-full bg-amber-600 hover:bg-amber-500 disabled:opacity-50 text-white font-bold py-3 rounded-xl"
+          >
+              {isBusy ? 'Sending...' : 'Submit Incident'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default IncidentForm;
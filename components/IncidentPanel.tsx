@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { Incident, IncidentSeverity, IncidentStatus, ScanLog, User } from '../types';
+import { formatTime, formatDate } from '../utils';
+import { CATEGORY_LABELS, getNextStatus, sortIncidents } from '../services/incidentService';
+import { describeOfficer } from '../services/officerService';
+import EvidencePhoto from './EvidencePhoto';
+
+interface IncidentPanelProps {
+  incidents: Incident[];
+  logs: ScanLog[];
+  officers?: User[]; // Resolves the officer IDs on incidents to names
+  timeZone: string;
+  canManage: boolean;
+  onAdvance: (incident: Incident, to: IncidentStatus, note?: string) => void;
+  onReport?: () => void;
+}
+
+const SEVERITY_BADGE: Record<IncidentSeverity, string> = {
+  [IncidentSeverity.LOW]: 'bg-slate-700 text-slate-300',
+  [IncidentSeverity.MEDIUM]: 'bg-amber-900 text-amber-300',
+  [IncidentSeverity.HIGH]: 'bg-orange-900 text-orange-300',
+  [IncidentSeverity.CRITICAL]: 'bg-red-900 text-red-300'
+};
+
+const STATUS_BADGE: Record<IncidentStatus, string> = {
+  OPEN: 'text-red-400',
+  ACKNOWLEDGED: 'text-amber-400',
+  RESOLVED: 'text-emerald-400'
+};
+
+const IncidentPanel: React.FC<IncidentPanelProps> = ({ incidents, logs, officers = [], timeZone, canManage, onAdvance, onReport }) => {
+  const [showResolved, setShowResolved] = useState(false);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [resolutionNote, setResolutionNote] = useState('');
+
+  const openCount = incidents.filter(i => i.status !== 'RESOLVED').length;
+  const visible = sortIncidents(incidents).filter(i => showResolved || i.status !== 'RESOLVED');
+
+  const handleAdvance = (incident: Incident) => {
+    const next = getNextStatus(incident.status);
+    if (!next) return;
+    if (next === 'RESOLVED') {
+        setResolvingId(incident.id);
+        setResolutionNote('');
+        return;
+    }
+    onAdvance(incident, next);
+  };
+
+  const handleConfirmResolve = (incident: Incident) => {
+    onAdvance(incident, 'RESOLVED', resolutionNote);
+    setResolvingId(null);
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden">
+        <div className="p-4 border-b border-slate-700 flex justify-between items-center">
+            <h3 className="text-lg font-bold text-white">
+                Incidents
+                {openCount > 0 && <span className="ml-2 bg-amber-600 text-white text-xs px-2 py-0.5 rounded-full align-middle">{openCount} open</span>}
+            </h3>
+            <div className="flex items-center gap-3">
+                <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                    <input type="checkbox" checked={showResolved} onChange={(e) => setShowResolved(e.target.checked)} />
+                    Show resolved
+                </label>
+                {onReport && (
+                    <button onClick={onReport} className="bg-amber-600 hover:bg-amber-500 text-white px-3 py-1.5 rounded text-xs font-semibold">
+                        Report Incident
+                    </button>
+                )}
+            </div>
+        </div>
+        {visible.length === 0 ? (
+            <p className="px-6 py-4 text-center text-slate-500 text-sm">No {showResolved ? '' : 'open '}incidents.</p>
+        ) : (
+            <div className="divide-y divide-slate-700">
+                {visible.map(incident => {
+                    const log = logs.find(l => l.id === incident.logId);
+                    const next = getNextStatus(incident.status);
+                    return (
+                        <div key={incident.id} className="p-4 space-y-2">
+                            <div className="flex flex-col md:flex-row md:items-start justify-between gap-3">
+                                <div className="flex gap-3">
+                                    {log && <EvidencePhoto log={log} officerLabel={describeOfficer(officers, log.officerId)} />}
+                                    <div>
+                                        <div className="flex flex-wrap items-center gap-2">
+                                            <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold ${SEVERITY_BADGE[incident.severity]}`}>{incident.severity}</span>
+                                            <span className="text-white font-medium">{CATEGORY_LABELS[incident.category] || incident.category}</span>
+                                            <span className={`text-xs font-semibold ${STATUS_BADGE[incident.status]}`}>{incident.status}</span>
+                                        </div>
+                                        <p className="text-sm text-slate-300 mt-1">{incident.description}</p>
+                                        <div className="text-[10px] text-slate-500 mt-1">
+                                            {formatDate(incident.reportedAt, timeZone)} {formatTime(incident.reportedAt, timeZone)} · {describeOfficer(officers, incident.reportedBy)}
+                                            {incident.checkpointName && <> · {incident.checkpointName}</>}
+                                            {incident.location && (
+                                                <> · <a href={`https://www.google.com/maps?q=${incident.location.latitude},${incident.location.longitude}`} target="_blank" rel="noreferrer" className="text-blue-400 hover:underline">map</a></>
+                                            )}
+                                        </div>
+                                        {incident.acknowledgedAt && (
+                                            <div className="text-[10px] text-slate-500">Acknowledged by {describeOfficer(officers, incident.acknowledgedBy)} at {formatTime(incident.acknowledgedAt, timeZone)}</div>
+                                        )}
+                                        {incident.resolvedAt && (
+                                            <div className="text-[10px] text-slate-500">
+                                                Resolved by {describeOfficer(officers, incident.resolvedBy)} at {formatTime(incident.resolvedAt, timeZone)}
+                                                {incident.resolutionNote && <>: {incident.resolutionNote}</>}
+                                            </div>
+                                        )}
+                                        {incident.photoUrls.length > 0 && (
+                                            <div className="flex gap-2 mt-2">
+                                                {incident.photoUrls.map((url, idx) => (
+                                                    <a key={url} href={url} target="_blank" rel="noreferrer" className="text-[10px] text-blue-400 hover:underline">Photo {idx + 2}</a>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
+                                </div>
+                                {canManage && next && resolvingId !== incident.id && (
+                                    <button
+                                        onClick={() => handleAdvance(incident)}
+                                        className={`px-3 py-1 rounded text-xs whitespace-nowrap ${next === 'ACKNOWLEDGED' ? 'bg-amber-600 hover:bg-amber-500 text-white' : 'bg-emerald-600 hover:bg-emerald-500 text-white'}`}
+                                    >
+                                        {next === 'ACKNOWLEDGED' ? 'Acknowledge' : 'Resolve'}
+                                    </button>
+                                )}
+                            </div>
+                            {resolvingId === incident.id && (
+                                <div className="flex flex-col sm:flex-row gap-2">
+                                    <input
+                                        type="text"
+                                        autoFocus
+                                        placeholder="How was it resolved? (optional)"
+                                        value={resolutionNote}
+                                        onChange={(e) => setResolutionNote(e.target.value)}
+                                        className="flex-1 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-white text-sm"
+                                    />
+                                    <button onClick={() => handleConfirmResolve(incident)} className="bg-emerald-600 hover:bg-emerald-500 text-white px-3 py-1 rounded text-xs">Mark Resolved</button>
+                                    <button onClick={() => setResolvingId(null)} className="bg-slate-700 hover:bg-slate-600 text-white px-3 py-1 rounded text-xs">Cancel</button>
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default IncidentPanel;
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import { User, Role } from '../types';
+import { verifyLogin, hasPin, validatePin, Session, SetupStatus, SHIFT_DURATION_MS } from '../services/authService';
+import { getBackend, isBackendConfigured } from '../services/backendService';
+
+interface LoginScreenProps {
+  users: User[];
+  setupStatus: SetupStatus;
+  onLogin: (session: Session) => void;
+  onCreateAdmin: (admin: User, pin: string) => Promise<void>;
+}
+
+const LoginScreen: React.FC<LoginScreenProps> = ({ users, setupStatus, onLogin, onCreateAdmin }) => {
+  const [selectedUserId, setSelectedUserId] = useState('');
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  // First run: nobody can log in until an administrator account exists
+  const [adminName, setAdminName] = useState('');
+  const [adminId, setAdminId] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+
+  const loginableUsers = users.filter(u => hasPin(u) && !u.inactive);
+  // Decided by the backend when there is one (App), never by this device's possibly unsynced list
+  const needsBootstrap = setupStatus === 'NEEDS_ADMIN';
+
+  const handleLogin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const user = users.find(u => u.id === selectedUserId);
+    if (!user || !pin) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+        const session = await verifyLogin(user, pin, isBackendConfigured() ? getBackend() : null);
+        setPin('');
+        onLogin(session);
+    } catch (err) {
+        setError(err instanceof Error ? err.message : "Login failed.");
+        setPin('');
+    } finally {
+        setBusy(false);
+    }
+  };
+
+  const handleCreateAdmin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const pinError = validatePin(pin);
+    if (pinError) { setError(pinError); return; }
+    if (pin !== confirmPin) { setError("PINs do not match."); return; }
+    if (users.some(u => u.id === adminId)) { setError(`ID "${adminId}" is already used by another account.`); return; }
+
+    setBusy(true);
+    setError(null);
+    try {
+        await onCreateAdmin({ id: adminId, name: adminName, role: Role.ADMIN }, pin);
+        setSelectedUserId(adminId);
+        setPin('');
+        setConfirmPin('');
+    } catch (err) {
+        setError(err instanceof Error ? err.message : "Could not create administrator.");
+    } finally {
+        setBusy(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-50 flex items-center justify-center p-4">
+      <div className="bg-slate-800 border border-slate-700 rounded-2xl max-w-sm w-full shadow-2xl p-6">
+        <div className="flex items-center gap-2 mb-6">
+            <div className="w-10 h-10 bg-emerald-600 rounded-lg flex items-center justify-center">
+                <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z"></path></svg>
+            </div>
+            <div>
+                <h1 className="text-xl font-bold text-white">SecurePatrol</h1>
+                <p className="text-xs text-slate-400">{needsBootstrap ? 'Initial setup' : 'Sign in to start your shift'}</p>
+            </div>
+        </div>
+
+        {needsBootstrap ? (
+            <form onSubmit={handleCreateAdmin} className="space-y-4">
+                <p className="text-sm text-slate-400">No account has a PIN yet. Create the first administrator to continue.</p>
+                <input
+                    type="text" required placeholder="Full Name"
+                    value={adminName} onChange={(e) => setAdminName(e.target.value)}
+                    className="w-full bg-slate-900 border border-slate-600 rounded-xl p-3 text-white"
+                />
+                <input
+                    type="text" required placeholder="Admin ID (e.g. ADM-001)"
+                    value={adminId} onChange={(e) => setAdminId(e.target.value)}
+                    className="w-full bg-slate-900 border border-slate-600 rounded-xl p-3 text-white"
+                />
+                <input
+                    type="password" required placeholder="PIN / Passphrase" autoComplete="new-password"
+                    value={pin} onChange={(e) => setPin(e.target.value)}
+                    className="w-full bg-slate-900 border border-slate-600 rounded-xl p-3 text-white"
+                />
+                <input
+                    type="password" required placeholder="Confirm PIN" autoComplete="new-password"
+                    value={confirmPin} onChange={(e) => setConfirmPin(e.target.value)}
+                    className="w-full bg-slate-900 border border-slate-600 rounded-xl p-3 text-white"
+                />
+                {error && <div className="text-xs text-red-300 bg-red-900/40 p-2 rounded">{error}</div>}
+                <button
+                    type="submit" disabled={busy}
+                    className="w-full bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-white font-bold py-3 rounded-xl"
+                >
+                    {busy ? 'Creating...' : 'Create Administrator'}
+                </button>
+            </form>
+        ) : (
+            <form onSubmit={handleLogin} className="space-y-4">
+                {loginableUsers.length === 0 && (
+                    <p className="text-sm text-slate-400">
+                        {setupStatus === 'UNREACHABLE'
+                            ? "Cannot reach the backend. Check the connection, then reload."
+                            : "Loading officers from the backend..."}
+                    </p>
+                )}
+                <div>
+                    <label className="block text-sm font-medium text-emerald-400 mb-1">Officer</label>
+                    <select
+                        value={selectedUserId}
+                        onChange={(e) => { setSelectedUserId(e.target.value); setError(null); }}
+                        className="w-full bg-slate-900 border border-slate-600 rounded-xl p-3 text-white focus:ring-2 focus:ring-emerald-500 outline-none"
+                    >
+                        <option value="" disabled>-- Select your name --</option>
+                        {loginableUsers.map(u => (
+                            <option key={u.id} value={u.id}>{u.name} ({u.id})</option>
+                        ))}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-sm font-medium text-slate-400 mb-1">PIN</label>
+                    <input
+                        type="password" autoComplete="current-password"
+                        value={pin} onChange={(e) => setPin(e.target.value)}
+                        className="w-full bg-slate-900 border border-slate-600 rounded-xl p-3 text-white tracking-widest focus:ring-2 focus:ring-emerald-500 outline-none"
+                    />
+                </div>
+                {error && <div className="text-xs text-red-300 bg-red-900/40 p-2 rounded">{error}</div>}
+                <button
+                    type="submit" disabled={busy || !selectedUserId || !pin}
+                    className="w-full bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold py-3 rounded-xl"
+                >
+                    {busy ? 'Checking...' : 'Start Shift'}
+                </button>
+                <p className="text-[10px] text-slate-500 text-center">Your session ends automatically after {SHIFT_DURATION_MS / 3600000} hours.</p>
+            </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LoginScreen;
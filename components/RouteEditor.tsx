@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { Checkpoint, PatrolRoute } from '../types';
+
+interface RouteEditorProps {
+  routes: PatrolRoute[];
+  checkpoints: Checkpoint[];
+  onSaveRoute: (route: PatrolRoute) => void;
+  onRemoveRoute: (routeId: string) => void;
+}
+
+interface DraftStop {
+  checkpointId: string;
+  legMinutes: number;
+}
+
+const RouteEditor: React.FC<RouteEditorProps> = ({ routes, checkpoints, onSaveRoute, onRemoveRoute }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [deadlineMinutes, setDeadlineMinutes] = useState<number>(60);
+  const [stops, setStops] = useState<DraftStop[]>([]);
+
+  const checkpointName = (id: string) => checkpoints.find(c => c.id === id)?.name || `${id} (missing)`;
+
+  const resetForm = () => {
+    setEditingId(null);
+    setName('');
+    setDeadlineMinutes(60);
+    setStops([]);
+  };
+
+  const handleEdit = (route: PatrolRoute) => {
+    setEditingId(route.id);
+    setName(route.name);
+    setDeadlineMinutes(route.deadlineMinutes);
+    setStops(route.checkpointIds.map((id, idx) => ({ checkpointId: id, legMinutes: route.legMinutes[idx] || 0 })));
+  };
+
+  const handleAddStop = () => {
+    const firstUnused = checkpoints.find(c => !stops.some(s => s.checkpointId === c.id));
+    if (!firstUnused) return;
+    setStops([...stops, { checkpointId: firstUnused.id, legMinutes: stops.length === 0 ? 0 : 5 }]);
+  };
+
+  const handleStopChange = (index: number, patch: Partial<DraftStop>) => {
+    setStops(stops.map((s, i) => i === index ? { ...s, ...patch } : s));
+  };
+
+  const handleMoveStop = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= stops.length) return;
+    const updated = [...stops];
+    [updated[index], updated[target]] = [updated[target], updated[index]];
+    setStops(updated);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name || stops.length < 2) {
+        alert("A route needs a name and at least two stops.");
+        return;
+    }
+    if (new Set(stops.map(s => s.checkpointId)).size !== stops.length) {
+        alert("Each checkpoint can only appear once in a route.");
+        return;
+    }
+
+    onSaveRoute({
+        id: editingId || `route-${Date.now()}`,
+        name,
+        checkpointIds: stops.map(s => s.checkpointId),
+        legMinutes: stops.map((s, idx) => idx === 0 ? 0 : s.legMinutes),
+        deadlineMinutes
+    });
+    resetForm();
+  };
+
+  const walkingTotal = stops.slice(1).reduce((sum, s) => sum + (s.legMinutes || 0), 0);
+
+  return (
+    <div className="space-y-6">
+        <div className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+            <h3 className="text-lg font-bold text-white mb-4">{editingId ? 'Edit Patrol Route' : 'Create Patrol Route'}</h3>
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <label className="block text-sm text-slate-400 mb-1">Route Name</label>
+                        <input
+                            type="text" required
+                            placeholder="e.g. Night Perimeter Round"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            className="w-full bg-slate-900 border border-slate-600 rounded p-2 text-white"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm text-slate-400 mb-1">Round Deadline (minutes from start)</label>
+                        <input
+                            type="number" min="5" step="5" required
+                            value={deadlineMinutes}
+                            onChange={(e) => setDeadlineMinutes(parseInt(e.target.value) || 0)}
+                            className="w-full bg-slate-900 border border-slate-600 rounded p-2 text-white"
+                        />
+                    </div>
+                </div>
+
+                <div className="bg-slate-900 p-4 rounded-lg border border-slate-700">
+                    <label className="block text-sm text-slate-400 mb-2">Stops (in walking order)</label>
+                    <div className="space-y-2">
+                        {stops.map((stop, idx) => (
+                            <div key={idx} className="flex flex-wrap items-center gap-2">
+                                <span className="w-6 text-slate-500 font-mono text-xs">{idx + 1}.</span>
+                                <select
+                                    value={stop.checkpointId}
+                                    onChange={(e) => handleStopChange(idx, { checkpointId: e.target.value })}
+                                    className="flex-1 min-w-[10rem] bg-slate-800 border border-slate-600 rounded px-2 py-1 text-white text-sm"
+                                >
+                                    {checkpoints.map(cp => (
+                                        <option key={cp.id} value={cp.id}>{cp.name}</option>
+                                    ))}
+                                </select>
+                                {idx > 0 ? (
+                                    <label className="flex items-center gap-1 text-xs text-slate-400">
+                                        walk
+                                        <input
+                                            type="number" min="0"
+                                            value={stop.legMinutes}
+                                            onChange={(e) => handleStopChange(idx, { legMinutes: parseInt(e.target.value) || 0 })}
+                                            className="w-16 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-white"
+                                        />
+                                        min
+                                    </label>
+                                ) : (
+                                    <span className="text-xs text-slate-500 w-[7.5rem]">start</span>
+                                )}
+                                <button type="button" onClick={() => handleMoveStop(idx, -1)} className="text-slate-400 hover:text-white px-1">↑</button>
+                                <button type="button" onClick={() => handleMoveStop(idx, 1)} className="text-slate-400 hover:text-white px-1">↓</button>
+                                <button type="button" onClick={() => setStops(stops.filter((_, i) => i !== idx))} className="text-red-400 hover:text-red-300 px-1">×</button>
+                            </div>
+                        ))}
+                    </div>
+                    <button
+                        type="button"
+                        onClick={handleAddStop}
+                        disabled={stops.length >= checkpoints.length}
+                        className="mt-3 bg-slate-800 border border-slate-600 border-dashed text-slate-400 px-3 py-1 rounded hover:text-white disabled:opacity-50 text-sm"
+                    >
+                        + Add Stop
+                    </button>
+                    {stops.length > 1 && (
+                        <p className={`text-xs mt-2 ${walkingTotal > deadlineMinutes ? 'text-red-400' : 'text-slate-500'}`}>
+                            Expected walking time: {walkingTotal} min (deadline {deadlineMinutes} min)
+                        </p>
+                    )}
+                </div>
+
+                <div className="flex gap-2">
+                    <button type="submit" className="bg-emerald-600 hover:bg-emerald-500 text-white px-6 py-2 rounded font-medium">
+                        {editingId ? 'Update Route' : 'Save Route'}
+                    </button>
+                    {editingId && (
+                        <button type="button" onClick={resetForm} className="bg-slate-700 hover:bg-slate-600 text-white px-4 py-2 rounded">
+                            Cancel
+                        </button>
+                    )}
+                </div>
+            </form>
+        </div>
+
+        <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden">
+            <h3 className="text-lg font-bold text-white p-4 border-b border-slate-700">Patrol Routes</h3>
+            {routes.length === 0 ? (
+                <p className="px-6 py-4 text-center text-slate-500 text-sm">No routes defined. Checkpoints can still be scanned freely.</p>
+            ) : (
+                <div className="divide-y divide-slate-700">
+                    {routes.map(route => (
+                        <div key={route.id} className="p-4 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                            <div>
+                                <div className="text-white font-medium">{route.name}</div>
+                                <div className="text-xs text-slate-400 mt-1">
+                                    {route.checkpointIds.map(checkpointName).join(' → ')}
+                                </div>
+                                <div className="text-[10px] text-slate-500 mt-1">Deadline: {route.deadlineMinutes} min</div>
+                            </div>
+                            <div className="flex gap-2">
+                                <button onClick={() => handleEdit(route)} className="text-slate-300 hover:text-white bg-slate-700 hover:bg-slate-600 px-3 py-1 rounded text-xs">
+                                    Edit
+                                </button>
+                                <button onClick={() => onRemoveRoute(route.id)} className="text-red-400 hover:text-red-300 bg-red-900/20 hover:bg-red-900/40 px-3 py-1 rounded text-xs">
+                                    Delete
+                                </button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    </div>
+  );
+};
+
+export default RouteEditor;
@@ -1,16 +1,49 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Checkpoint, Coordinates, ScanLog, ScanStatus, User } from '../types';
-import { calculateDistance, getCurrentPosition, formatTime } from '../utils';
+import { Checkpoint, Coordinates, ScanLog, ScanStatus, ScanMethod, User, QrSigningKey, PatrolRoute, PatrolRound, SiteSettings } from '../types';
+import jsQR from 'jsqr';
+import { formatTime, parseQrPayload } from '../utils';
+import { verifyCheckpointSignature, TagVerdict, SigningState } from '../services/qrSigningService';
+import { evaluateRouteScan, getRoundProgress } from '../services/patrolRouteService';
+import { checkScanTime, describeScanWindow, shiftDateOf, formatShiftDate } from '../services/scheduleService';
+import { checkGeofence, getLocationPolicy, decideWeakGps } from '../services/geofenceService';
+import { sampleFixes, bestSample, assessLocationRisk, RISK_REVIEW_THRESHOLD } from '../services/locationRiskService';
+import { isNfcSupported, startNfcScan } from '../services/nfcService';
+import { newLogId } from '../services/logSchema';
+import { captureVideoFrame, compressImageFile } from '../services/photoService';
 
 interface ScannerProps {
-  officers: User[];
+  currentUser: User; // Logged-in officer, stamped on every log
   checkpoints: Checkpoint[];
-  onScanComplete: (log: ScanLog) => void;
+  onScanComplete: (log: ScanLog, photo?: Blob) => void; // photo is already downscaled and JPEG-compressed
   onCancel: () => void;
-  initialCheckpointId?: string | null;
+  qrKeys: QrSigningKey[];
+  signingState: SigningState;
+  initialScanValue?: string | null; // Deep-link URL the app was opened with
+  allowSimulation?: boolean; // Demo/admin only: tap a checkpoint instead of scanning its tag
+  routes: PatrolRoute[];
+  activeRound: PatrolRound | null;
+  roundLogs: ScanLog[];
+  officerLogs: ScanLog[]; // This officer's earlier scans, for the travel-speed and repeated-position checks
+  onStartRound: (routeId: string) => void;
+  onEndRound: () => void;
+  siteSettings: SiteSettings;
+  onReportIncident?: (checkpointId?: string) => void;
+  sosActive?: boolean;
+  onSos?: () => void; // Raises an SOS, or cancels the active one
 }
 
-const Scanner: React.FC<ScannerProps> = ({ officers, checkpoints, onScanComplete, onCancel, initialCheckpointId }) => {
+// Frames are downscaled before decoding to keep the loop cheap on low-end phones
+const QR_DECODE_MAX_WIDTH = 640;
+const QR_DECODE_INTERVAL_MS = 250;
+
+const TAG_PROBLEM_NOTES: Record<Exclude<TagVerdict, 'VALID'>, (keyVersion?: number) => string> = {
+    UNSIGNED: () => "Unsigned tag. Reprint required.",
+    INVALID: () => "Tag signature invalid (possible forged or altered tag).",
+    UNKNOWN_KEY: (kv) => `Tag signed with unknown key v${kv}.`,
+    REVOKED_KEY: (kv) => `Tag signed with revoked key v${kv}. Reprint required.`
+};
+
+const Scanner: React.FC<ScannerProps> = ({ currentUser, checkpoints, qrKeys, signingState, onScanComplete, onCancel, initialScanValue, allowSimulation = false, routes, activeRound, roundLogs, officerLogs = [], onStartRound, onEndRound, siteSettings, onReportIncident, sosActive = false, onSos }) => {
   const [processing, setProcessing] = useState(false);
   const [gpsLoading, setGpsLoading] = useState(false);
   const [cameraError, setCameraError] = useState<string | null>(null);
@@ -19,12 +52,34 @@ const Scanner: React.FC<ScannerProps> = ({ officers, checkpoints, onScanComplete
   const mountedRef = useRef<boolean>(true);
   const [hasAutoScanned, setHasAutoScanned] = useState(false);
 
+  // QR Decode State
+  const scanLockRef = useRef<boolean>(false);
+  const lastDecodedRef = useRef<string | null>(null);
+  const decodeHandlerRef = useRef<(raw: string, method: ScanMethod) => void>(() => {});
+  const [scanHint, setScanHint] = useState<string | null>(null);
+
   // New States for Confirmation Step
   const [pendingLog, setPendingLog] = useState<ScanLog | null>(null);
   const [noteText, setNoteText] = useState('');
-  const [hasPhoto, setHasPhoto] = useState(false);
-  const [selectedOfficerId, setSelectedOfficerId] = useState<string>("");
+
+  // Evidence Photo: a still from the scanner's camera stream, or a picked file
+  const [photo, setPhoto] = useState<Blob | null>(null);
+  const [photoPreviewUrl, setPhotoPreviewUrl] = useState<string | null>(null);
+  const [photoCameraOpen, setPhotoCameraOpen] = useState(false);
+  const [photoBusy, setPhotoBusy] = useState(false);
+  const [photoRequired, setPhotoRequired] = useState(false); // Weak GPS at a REQUIRE_PHOTO checkpoint
+  const [photoError, setPhotoError] = useState<string | null>(null);
+  const photoVideoRef = useRef<HTMLVideoElement>(null);
+  const photoInputRef = useRef<HTMLInputElement>(null);
   
+  // Patrol Round
+  const [selectedRouteId, setSelectedRouteId] = useState<string>('');
+  const activeRoute = activeRound ? routes.find(r => r.id === activeRound.routeId) : undefined;
+  const roundProgress = activeRound && activeRoute ? getRoundProgress(activeRoute, activeRound.startedAt, roundLogs) : null;
+  const nextStop = activeRoute && roundProgress?.nextStopIndex != null
+      ? checkpoints.find(c => c.id === activeRoute.checkpointIds[roundProgress.nextStopIndex!])
+      : undefined;
+
   // Debug / Info
   const [currentAccuracy, setCurrentAccuracy] = useState<number | null>(null);
 
@@ -126,16 +181,120 @@ const Scanner: React.FC<ScannerProps> = ({ officers, checkpoints, onScanComplete
   }, [startCamera]);
 
   useEffect(() => {
-    if (initialCheckpointId && !hasAutoScanned) {
+    if (initialScanValue && !hasAutoScanned) {
         setHasAutoScanned(true);
         setTimeout(() => {
-             if(mountedRef.current) handleSimulatedScan(initialCheckpointId);
+             if(mountedRef.current) handleDecodedQr(initialScanValue, 'QR');
         }, 500);
     }
-  }, [initialCheckpointId]);
+  }, [initialScanValue]);
+
+  // --- NFC TAGS ---
+  // Chrome only starts reading after the user has granted NFC once with a tap; later visits start silently
+  const [nfcState, setNfcState] = useState<'UNSUPPORTED' | 'NEEDS_PERMISSION' | 'LISTENING'>(() => isNfcSupported() ? 'NEEDS_PERMISSION' : 'UNSUPPORTED');
+  const nfcStopRef = useRef<(() => void) | null>(null);
+
+  const startNfc = useCallback(async () => {
+    if (nfcStopRef.current) return;
+    try {
+        const stop = await startNfcScan(
+            value => {
+                if (!scanLockRef.current) decodeHandlerRef.current(value, 'NFC');
+            },
+            message => setScanHint(message)
+        );
+        if (!mountedRef.current) {
+            stop();
+            return;
+        }
+        nfcStopRef.current = stop;
+        setNfcState('LISTENING');
+    } catch (error) {
+        if (mountedRef.current) setNfcState('NEEDS_PERMISSION');
+    }
+  }, []);
 
+  useEffect(() => {
+    if (isNfcSupported()) startNfc();
+    return () => {
+        nfcStopRef.current?.();
+        nfcStopRef.current = null;
+    };
+  }, [startNfc]);
+
+  // --- QR DECODE LOOP ---
+  useEffect(() => {
+    if (cameraError || pendingLog) return;
+
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return;
+
+    const timer = window.setInterval(() => {
+        const video = videoRef.current;
+        if (!video || scanLockRef.current) return;
 
-  const handleSimulatedScan = async (checkpointId: string) => {
+        // The video element is re-created after the confirmation screen closes
+        if (streamRef.current && video.srcObject !== streamRef.current) {
+            video.srcObject = streamRef.current;
+        }
+        if (video.readyState < video.HAVE_ENOUGH_DATA || !video.videoWidth) return;
+
+        const scale = Math.min(1, QR_DECODE_MAX_WIDTH / video.videoWidth);
+        canvas.width = Math.floor(video.videoWidth * scale);
+        canvas.height = Math.floor(video.videoHeight * scale);
+        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+        const frame = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        const code = jsQR(frame.data, frame.width, frame.height, { inversionAttempts: 'dontInvert' });
+        if (!code || !code.data || code.data === lastDecodedRef.current) return;
+
+        lastDecodedRef.current = code.data;
+        decodeHandlerRef.current(code.data, 'QR');
+    }, QR_DECODE_INTERVAL_MS);
+
+    return () => window.clearInterval(timer);
+  }, [cameraError, pendingLog]);
+
+  const releaseScanLock = () => {
+    scanLockRef.current = false;
+    lastDecodedRef.current = null;
+  };
+
+  const handleDecodedQr = async (raw: string, method: ScanMethod) => {
+    const payload = parseQrPayload(raw);
+    if (!payload) {
+        setScanHint(method === 'NFC' ? "This NFC tag is not a SecurePatrol checkpoint tag." : "This QR code is not a SecurePatrol checkpoint tag.");
+        return;
+    }
+    if (!checkpoints.some(c => c.id === payload.checkpointId)) {
+        setScanHint(`Unknown checkpoint "${payload.checkpointId}". Ask an admin to check the tag.`);
+        return;
+    }
+    if (signingState === 'UNKNOWN') {
+        setScanHint("This device has not synced the site's signing keys yet. Connect and sync, then scan again.");
+        return;
+    }
+    setScanHint(null);
+    scanLockRef.current = true;
+
+    // Signatures are enforced once the site has had a signing key, even if none are loaded here
+    let tagProblem: string | undefined;
+    if (signingState === 'REQUIRED') {
+        const verdict = await verifyCheckpointSignature(qrKeys, payload.checkpointId, payload.keyVersion, payload.signature);
+        if (verdict !== 'VALID') tagProblem = TAG_PROBLEM_NOTES[verdict](payload.keyVersion);
+    }
+
+    if (!mountedRef.current) return;
+    // Only our own reader counts as NFC: anything in the link could have been typed or printed
+    handleSimulatedScan(payload.checkpointId, tagProblem, method);
+  };
+  decodeHandlerRef.current = handleDecodedQr;
+
+
+  const handleSimulatedScan = async (checkpointId: string, tagProblem?: string, scanMethod: ScanMethod = 'MANUAL') => {
+    if (scanMethod === 'MANUAL' && !allowSimulation) return;
+    scanLockRef.current = true;
     setProcessing(true);
     setGpsLoading(true);
 
@@ -143,84 +302,112 @@ const Scanner: React.FC<ScannerProps> = ({ officers, checkpoints, onScanComplete
         const targetCheckpoint = checkpoints.find(c => c.id === checkpointId);
         if (!targetCheckpoint) throw new Error("Unknown QR Code. Checkpoint ID not found in system.");
 
-        // 1. Get Device Location (with Timeout and High Accuracy)
-        const locationPromise = getCurrentPosition();
-        const timeoutPromise = new Promise<Coordinates>((_, reject) => 
-            setTimeout(() => reject(new Error("GPS timed out. Move to open sky.")), 10000)
-        );
-
-        const currentLocation = await Promise.race([locationPromise, timeoutPromise]);
+        // 1. Get Device Location: several fixes over a few seconds, so a frozen mock position stands out
+        const samples = await sampleFixes();
+        const fix = bestSample(samples);
+        const currentLocation: Coordinates = { latitude: fix.latitude, longitude: fix.longitude, accuracy: fix.accuracy };
         const accuracy = currentLocation.accuracy || 0;
+        const policy = getLocationPolicy(targetCheckpoint);
+        const risk = assessLocationRisk(samples, officerLogs, policy.weakAccuracyMeters);
 
         // Track accuracy for display
         if (currentLocation.accuracy) {
             setCurrentAccuracy(currentLocation.accuracy);
         }
 
-        // 2. Anti-Cheat Check: Distance
-        const distance = calculateDistance(currentLocation, targetCheckpoint.location);
-        const isNearby = distance <= targetCheckpoint.allowedRadiusMeters;
+        // 2. Anti-Cheat Check: Geofence (polygon when drawn, radius otherwise)
+        const geofenceCheck = checkGeofence(currentLocation, targetCheckpoint);
+        const distance = geofenceCheck.distance;
+        const isNearby = geofenceCheck.inside;
         
-        // Trust QR if GPS is very poor (Indoors)
-        const isGpsPoor = accuracy > 100;
+        // Weak GPS handling is the checkpoint's policy: trusted indoors, suspicious on the perimeter.
+        // A position that itself looks faked never unlocks the QR fallback.
+        const weakGps = decideWeakGps(policy, accuracy, risk.score >= RISK_REVIEW_THRESHOLD);
+        const isGpsPoor = weakGps.acceptByQr;
 
-        // 3. Time Check
-        let timeStatus: 'VALID' | 'INVALID_TIME' = 'VALID';
-        let timeNote = "";
-
-        if (targetCheckpoint.schedule?.type === 'FIXED_TIME' && targetCheckpoint.schedule.fixedTimes) {
-            const now = new Date();
-            const currentMinutes = now.getHours() * 60 + now.getMinutes();
-            const tolerance = targetCheckpoint.schedule.toleranceMinutes || 10;
-            
-            // Check if current time is within ANY of the scheduled windows
-            const isValidTime = targetCheckpoint.schedule.fixedTimes.some(timeStr => {
-                const [h, m] = timeStr.split(':').map(Number);
-                const targetMinutes = h * 60 + m;
-                return Math.abs(currentMinutes - targetMinutes) <= tolerance;
-            });
-
-            if (!isValidTime) {
-                timeStatus = 'INVALID_TIME';
-                timeNote = `Wrong Time. Schedule: ${targetCheckpoint.schedule.fixedTimes.join(', ')} (+/- ${tolerance}m)`;
-            }
-        }
+        // 3. Time Check (night shifts: slots and scans are matched across midnight)
+        const scannedAt = Date.now();
+        const timeCheck = checkScanTime(targetCheckpoint.schedule, scannedAt, siteSettings);
 
         let status = ScanStatus.VALID;
         let autoNote = "Routine Check: OK";
 
         // Logic Priority:
-        if (timeStatus === 'INVALID_TIME') {
+        if (scanMethod === 'MANUAL') {
+            // A demo tap reads no tag, so it is recorded but never passes as a verified visit
+            status = ScanStatus.SIMULATED;
+            autoNote = "Simulated scan (demo mode): no tag was read";
+        } else if (tagProblem) {
+            status = ScanStatus.INVALID_TAG;
+            autoNote = tagProblem;
+        } else if (timeCheck.verdict === 'INVALID') {
             status = ScanStatus.INVALID_TIME;
-            autoNote = timeNote;
+            autoNote = timeCheck.note;
         } else if (isGpsPoor) {
              status = ScanStatus.VALID;
-             autoNote = `Weak GPS (Acc: ${Math.round(accuracy)}m). Verified by QR.`;
+             autoNote = weakGps.photoRequired
+                ? `Weak GPS (Acc: ${Math.round(accuracy)}m). Verified by QR and photo.`
+                : `Weak GPS (Acc: ${Math.round(accuracy)}m). Verified by QR.`;
         } else if (!isNearby) {
              status = ScanStatus.INVALID_LOCATION;
-             autoNote = `Location Mismatch. Dist: ${Math.round(distance)}m`;
+             autoNote = geofenceCheck.shape === 'POLYGON'
+                ? `Location Mismatch. Outside geofence by ${Math.round(distance)}m`
+                : `Location Mismatch. Dist: ${Math.round(distance)}m`;
+             if (weakGps.isWeak) autoNote = `${autoNote} (Weak GPS ±${Math.round(accuracy)}m not accepted here)`;
+        }
+
+        // Inside the grace period the visit still counts, it is just recorded as late
+        if (status === ScanStatus.VALID && timeCheck.verdict === 'LATE') {
+            status = ScanStatus.LATE;
+            autoNote = isGpsPoor ? `${timeCheck.note}. ${autoNote}` : timeCheck.note;
         }
         
         if (!mountedRef.current) return;
         setGpsLoading(false);
         setProcessing(false);
 
+        // 4. Route Check: order, skipped stops and pace within the active round
+        const routeVerdict = activeRound && activeRoute
+            ? evaluateRouteScan(
+                activeRoute, 
+                activeRound, 
+                roundLogs, 
+                targetCheckpoint.id, 
+                Object.fromEntries(checkpoints.map(c => [c.id, c.name]))
+              )
+            : null;
+        if (routeVerdict) {
+            autoNote = `${autoNote} | ${routeVerdict.note}`;
+        }
+
         const draftLog: ScanLog = {
-            id: Date.now().toString(),
+            id: newLogId(),
             checkpointId: targetCheckpoint.id,
             checkpointName: targetCheckpoint.name,
             officerId: "", 
-            timestamp: Date.now(),
+            timestamp: scannedAt,
+            shiftDate: formatShiftDate(shiftDateOf(scannedAt, siteSettings)),
             status: status,
             userLocation: currentLocation,
             distanceFromTarget: distance,
-            note: autoNote
+            note: autoNote,
+            scanMethod,
+            riskScore: risk.score,
+            riskReasons: risk.reasons,
+            ...(routeVerdict && activeRound ? {
+                routeId: activeRound.routeId,
+                roundId: activeRound.id,
+                routeFlags: routeVerdict.flags,
+                skippedCheckpointIds: routeVerdict.skippedIds
+            } : {})
         };
 
         setPendingLog(draftLog);
         setNoteText(autoNote); // Pre-fill note with the diagnosis
-        setHasPhoto(false);
-        setSelectedOfficerId(""); 
+        setPhoto(null);
+        setPhotoRequired(isGpsPoor && weakGps.photoRequired && (status === ScanStatus.VALID || status === ScanStatus.LATE));
+        setPhotoCameraOpen(false);
+        setPhotoError(null);
 
     } catch (error) {
         if (!mountedRef.current) return;
@@ -229,38 +416,92 @@ const Scanner: React.FC<ScannerProps> = ({ officers, checkpoints, onScanComplete
         const errMessage = error instanceof Error ? error.message : "Location verification failed.";
         alert(`Error: ${errMessage}`);
         setHasAutoScanned(true); 
+        releaseScanLock();
     }
   };
 
-  const handleFinalSubmit = () => {
-      if (!pendingLog) return;
-      if (!selectedOfficerId) {
-          alert("Please select your name/ID from the list.");
-          return;
+  // --- EVIDENCE PHOTO ---
+  useEffect(() => {
+    if (!photo) {
+        setPhotoPreviewUrl(null);
+        return;
+    }
+    const url = URL.createObjectURL(photo);
+    setPhotoPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [photo]);
+
+  // Reuse the scanning stream for the photo preview instead of opening the camera twice
+  useEffect(() => {
+    if (photoCameraOpen && photoVideoRef.current && streamRef.current) {
+        photoVideoRef.current.srcObject = streamRef.current;
+    }
+  }, [photoCameraOpen]);
+
+  const handleTakePhoto = () => {
+      setPhotoError(null);
+      if (streamRef.current && streamRef.current.active) {
+          setPhotoCameraOpen(true);
+      } else {
+          // No live camera (denied or unsupported): let the OS camera / gallery handle it
+          photoInputRef.current?.click();
       }
-      
-      const officer = officers.find(o => o.id === selectedOfficerId);
-      const officerDisplayName = officer ? `${officer.name} (${officer.id})` : selectedOfficerId;
+  };
+
+  const handleCapturePhoto = async () => {
+      if (!photoVideoRef.current) return;
+      setPhotoBusy(true);
+      try {
+          setPhoto(await captureVideoFrame(photoVideoRef.current));
+          setPhotoCameraOpen(false);
+      } catch (error) {
+          setPhotoError(error instanceof Error ? error.message : "Could not capture photo.");
+      } finally {
+          setPhotoBusy(false);
+      }
+  };
+
+  const handlePhotoFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = ''; // Allow picking the same file again
+      if (!file) return;
+      setPhotoBusy(true);
+      setPhotoError(null);
+      try {
+          setPhoto(await compressImageFile(file));
+          setPhotoCameraOpen(false);
+      } catch (error) {
+          setPhotoError(error instanceof Error ? error.message : "Could not read that image.");
+      } finally {
+          setPhotoBusy(false);
+      }
+  };
 
+  const handleFinalSubmit = () => {
+      if (!pendingLog || (photoRequired && !photo)) return;
+      
+      // The raw ID: names are resolved when the log is shown
       const finalLog: ScanLog = {
           ...pendingLog,
-          officerId: officerDisplayName,
-          note: noteText,
-          evidencePhotoUrl: hasPhoto ? "mock_photo_url.jpg" : undefined
+          officerId: currentUser.id,
+          note: noteText
       };
       
-      onScanComplete(finalLog);
+      onScanComplete(finalLog, photo || undefined);
   };
 
   // --- REPORT MODAL RENDER ---
   if (pendingLog) {
-      const isValid = pendingLog.status === ScanStatus.VALID;
+      const isValid = pendingLog.status === ScanStatus.VALID || pendingLog.status === ScanStatus.LATE;
       const isInvalidTime = pendingLog.status === ScanStatus.INVALID_TIME;
+      const isLate = pendingLog.status === ScanStatus.LATE;
+      const scannedCheckpoint = checkpoints.find(c => c.id === pendingLog.checkpointId);
+      const scanWindowHelp = describeScanWindow(scannedCheckpoint?.schedule);
       const distance = Math.round(pendingLog.distanceFromTarget || 0);
       const accuracy = pendingLog.userLocation?.accuracy ? Math.round(pendingLog.userLocation.accuracy) : 0;
       
       // Determine UI state
-      const isWeakSignal = isValid && accuracy > 100;
+      const isWeakSignal = isValid && accuracy > getLocationPolicy(scannedCheckpoint).weakAccuracyMeters;
 
       // Card Style Logic
       let cardBg = 'bg-emerald-900/20 border-emerald-500/50';
@@ -270,13 +511,34 @@ const Scanner: React.FC<ScannerProps> = ({ officers, checkpoints, onScanComplete
       let subTitle = `You are at ${pendingLog.checkpointName}`;
       let icon = <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M5 13l4 4L19 7"></path></svg>;
 
-      if (isInvalidTime) {
+      if (pendingLog.status === ScanStatus.SIMULATED) {
+          cardBg = 'bg-slate-800/40 border-slate-500/50';
+          iconColor = 'bg-slate-500 text-white';
+          textColor = 'text-slate-300';
+          title = 'Simulated Scan';
+          subTitle = 'Demo mode: no tag was read, so this does not count as a visit';
+          icon = <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>;
+      } else if (pendingLog.status === ScanStatus.INVALID_TAG) {
+          cardBg = 'bg-red-900/20 border-red-500/50';
+          iconColor = 'bg-red-500 text-white';
+          textColor = 'text-red-400';
+          title = 'Invalid Tag';
+          subTitle = pendingLog.note || 'Tag could not be verified';
+          icon = <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"></path></svg>;
+      } else if (isInvalidTime) {
           cardBg = 'bg-red-900/20 border-red-500/50';
           iconColor = 'bg-red-500 text-white';
           textColor = 'text-red-400';
           title = 'Schedule Mismatch';
           subTitle = `Outside allowed scan time`;
           icon = <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>;
+      } else if (isLate) {
+          cardBg = 'bg-blue-900/20 border-blue-500/50';
+          iconColor = 'bg-blue-500 text-white';
+          textColor = 'text-blue-400';
+          title = 'Checked In Late';
+          subTitle = pendingLog.note || `You are at ${pendingLog.checkpointName}`;
+          icon = <svg className="w-8 h-8" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>;
       } else if (pendingLog.status === ScanStatus.INVALID_LOCATION) {
           cardBg = 'bg-red-900/20 border-red-500/50';
           iconColor = 'bg-red-500 text-white';
@@ -290,12 +552,22 @@ const Scanner: React.FC<ScannerProps> = ({ officers, checkpoints, onScanComplete
           <div className="fixed inset-0 bg-slate-900 z-[100] flex flex-col overflow-y-auto">
               <div className="p-4 border-b border-slate-800 bg-slate-900 sticky top-0 z-10 flex justify-between items-center">
                   <h2 className="text-white font-bold text-lg">Report Detail</h2>
-                  <button 
-                    onClick={() => { setPendingLog(null); setHasAutoScanned(true); }} 
-                    className="text-slate-400 text-sm"
-                  >
-                      Cancel
-                  </button>
+                  <div className="flex items-center gap-3">
+                      {onSos && (
+                          <button 
+                            onClick={onSos}
+                            className={`text-white px-3 py-1 rounded-full text-xs font-bold ${sosActive ? 'bg-red-600 animate-pulse' : 'bg-red-700'}`}
+                          >
+                              {sosActive ? 'SOS ACTIVE' : 'SOS'}
+                          </button>
+                      )}
+                      <button 
+                        onClick={() => { setPendingLog(null); setHasAutoScanned(true); releaseScanLock(); }} 
+                        className="text-slate-400 text-sm"
+                      >
+                          Cancel
+                      </button>
+                  </div>
               </div>
 
               <div className="p-6 space-y-6 max-w-md mx-auto w-full">
@@ -323,20 +595,22 @@ const Scanner: React.FC<ScannerProps> = ({ officers, checkpoints, onScanComplete
                           )}
                           {isInvalidTime && (
                               <div className="px-3 py-1 rounded text-xs border bg-red-900/50 border-red-500/30 text-red-300">
-                                  Current Time: {formatTime(Date.now())}
+                                  Current Time: {formatTime(Date.now(), siteSettings.timeZone)}
                               </div>
                           )}
                       </div>
                       
                       {isWeakSignal && !isInvalidTime && (
                            <div className="mt-3 text-xs text-emerald-200/60">
-                              *GPS signal weak (Indoors), but QR verified.
+                              {photoRequired
+                                  ? '*GPS signal weak. This checkpoint needs a photo to accept the QR scan.'
+                                  : '*GPS signal weak (Indoors), but QR verified.'}
                           </div>
                       )}
 
-                      {isInvalidTime && (
-                           <div className="mt-3 text-xs text-red-200/60 leading-relaxed">
-                              You can only scan within +/- 10 mins of the scheduled time.
+                      {(isInvalidTime || isLate) && (
+                           <div className={`mt-3 text-xs leading-relaxed ${isLate ? 'text-blue-200/60' : 'text-red-200/60'}`}>
+                              {scanWindowHelp}
                               <br/>
                               (See schedule in Admin Setup)
                           </div>
@@ -347,20 +621,11 @@ const Scanner: React.FC<ScannerProps> = ({ officers, checkpoints, onScanComplete
                   <div className="space-y-4">
                       <div>
                           <label className="block text-sm font-medium text-emerald-400 mb-1">
-                              Who is scanning? <span className="text-red-500">*</span>
+                              Scanning as
                           </label>
-                          <select 
-                            value={selectedOfficerId}
-                            onChange={(e) => setSelectedOfficerId(e.target.value)}
-                            className="w-full bg-slate-800 border border-slate-600 rounded-xl p-3 text-white focus:ring-2 focus:ring-emerald-500 outline-none"
-                          >
-                              <option value="" disabled>-- Select Officer Name --</option>
-                              {officers.map(off => (
-                                  <option key={off.id} value={off.id}>
-                                      {off.name} ({off.id})
-                                  </option>
-                              ))}
-                          </select>
+                          <div className="w-full bg-slate-800 border border-slate-600 rounded-xl p-3 text-white">
+                              {currentUser.name} <span className="text-slate-400 font-mono text-sm">({currentUser.id})</span>
+                          </div>
                       </div>
 
                       <div>
@@ -377,35 +642,77 @@ const Scanner: React.FC<ScannerProps> = ({ officers, checkpoints, onScanComplete
 
                       <div>
                           <label className="block text-sm font-medium text-slate-400 mb-2">
-                              Photo Evidence (Optional)
+                              Photo Evidence {photoRequired ? <span className="text-amber-400">(Required: weak GPS)</span> : '(Optional)'}
                           </label>
+                          <input 
+                              ref={photoInputRef}
+                              type="file" accept="image/*" capture="environment"
+                              className="hidden"
+                              onChange={handlePhotoFile}
+                          />
+
+                          {photoCameraOpen ? (
+                              <div className="rounded-xl overflow-hidden border border-slate-700 bg-black">
+                                  <video ref={photoVideoRef} autoPlay playsInline muted className="w-full max-h-72 object-cover" />
+                                  <div className="flex gap-2 p-2 bg-slate-800">
+                                      <button 
+                                          onClick={handleCapturePhoto}
+                                          disabled={photoBusy}
+                                          className="flex-1 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-white font-semibold py-2 rounded-lg"
+                                      >
+                                          {photoBusy ? 'Saving...' : 'Capture'}
+                                      </button>
+                                      <button onClick={() => setPhotoCameraOpen(false)} className="px-4 bg-slate-700 hover:bg-slate-600 text-white rounded-lg">
+                                          Cancel
+                                      </button>
+                                  </div>
+                              </div>
+                          ) : photoPreviewUrl ? (
+                              <div className="rounded-xl overflow-hidden border-2 border-emerald-500 bg-emerald-900/20">
+                                  <img src={photoPreviewUrl} alt="Evidence" className="w-full max-h-72 object-contain bg-black" />
+                                  <div className="flex items-center justify-between p-2 text-xs">
+                                      <span className="text-emerald-400">Photo attached ({Math.round((photo?.size || 0) / 1024)} KB)</span>
+                                      <div className="flex gap-3">
+                                          <button onClick={handleTakePhoto} className="text-slate-300 hover:text-white">Retake</button>
+                                          <button onClick={() => setPhoto(null)} className="text-red-400 hover:text-red-300">Remove</button>
+                                      </div>
+                                  </div>
+                              </div>
+                          ) : (
+                              <button 
+                                  onClick={handleTakePhoto}
+                                  disabled={photoBusy}
+                                  className="w-full border-2 border-dashed rounded-xl p-4 flex items-center justify-center gap-2 transition-all border-slate-700 bg-slate-800 text-slate-400 hover:border-slate-500 disabled:opacity-50"
+                              >
+                                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z"></path><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 13a3 3 0 11-6 0 3 3 0 016 0z"></path></svg>
+                                  {photoBusy ? 'Processing...' : 'Take Photo'}
+                              </button>
+                          )}
+                          {!photoCameraOpen && (
+                              <button 
+                                  onClick={() => photoInputRef.current?.click()}
+                                  className="mt-2 text-xs text-slate-400 hover:text-white underline"
+                              >
+                                  Choose from gallery
+                              </button>
+                          )}
+                          {photoError && <div className="mt-2 text-xs text-red-300 bg-red-900/40 p-2 rounded">{photoError}</div>}
+                      </div>
+
+                      {onReportIncident && (
                           <button 
-                              onClick={() => setHasPhoto(!hasPhoto)}
-                              className={`w-full border-2 border-dashed rounded-xl p-4 flex items-center justify-center gap-2 transition-all ${
-                                  hasPhoto 
-                                  ? 'border-emerald-500 bg-emerald-900/20 text-emerald-400' 
-                                  : 'border-slate-700 bg-slate-800 text-slate-400 hover:border-slate-500'
-                              }`}
+                              onClick={() => onReportIncident(pendingLog.checkpointId)}
+                              className="w-full border border-amber-700 bg-amber-900/20 hover:bg-amber-900/40 text-amber-300 rounded-xl p-3 text-sm font-medium"
                           >
-                              {hasPhoto ? (
-                                  <>
-                                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>
-                                      Photo Attached
-                                  </>
-                              ) : (
-                                  <>
-                                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z"></path><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 13a3 3 0 11-6 0 3 3 0 016 0z"></path></svg>
-                                      Take Photo
-                                  </>
-                              )}
+                              Report an incident at this checkpoint
                           </button>
-                      </div>
+                      )}
                   </div>
                   
                   <div className="pt-4">
                       <button 
                           onClick={handleFinalSubmit}
-                          disabled={!selectedOfficerId}
+                          disabled={photoBusy || (photoRequired && !photo)}
                           className="w-full bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold py-4 rounded-xl shadow-lg shadow-emerald-900/20 flex items-center justify-center gap-2"
                       >
                           <span>Submit Report</span>
@@ -423,7 +730,20 @@ const Scanner: React.FC<ScannerProps> = ({ officers, checkpoints, onScanComplete
     <div className="fixed inset-0 bg-black z-50 flex flex-col">
       <div className="absolute top-0 w-full p-4 flex justify-between items-center z-10 bg-gradient-to-b from-black/80 to-transparent">
         <h2 className="text-white font-bold text-lg">Scan Checkpoint</h2>
-        <button onClick={onCancel} className="text-white bg-white/20 px-3 py-1 rounded-full text-sm">Close</button>
+        <div className="flex gap-2">
+            {onSos && (
+                <button 
+                    onClick={onSos}
+                    className={`text-white px-3 py-1 rounded-full text-sm font-bold ${sosActive ? 'bg-red-600 animate-pulse' : 'bg-red-700'}`}
+                >
+                    {sosActive ? 'SOS ACTIVE' : 'SOS'}
+                </button>
+            )}
+            {onReportIncident && (
+                <button onClick={() => onReportIncident()} className="text-amber-200 bg-amber-600/40 px-3 py-1 rounded-full text-sm">Report Incident</button>
+            )}
+            <button onClick={onCancel} className="text-white bg-white/20 px-3 py-1 rounded-full text-sm">Close</button>
+        </div>
       </div>
 
       <div className="flex-1 relative flex items-center justify-center overflow-hidden bg-slate-900">
@@ -451,7 +771,9 @@ const Scanner: React.FC<ScannerProps> = ({ officers, checkpoints, onScanComplete
                     Retry Camera
                  </button>
 
-                 <p className="text-slate-500 text-xs">You can still use the simulation buttons below.</p>
+                 {allowSimulation && (
+                     <p className="text-slate-500 text-xs">You can still use the simulation buttons below.</p>
+                 )}
             </div>
         )}
         
@@ -470,33 +792,107 @@ const Scanner: React.FC<ScannerProps> = ({ officers, checkpoints, onScanComplete
                         </span>
                     </div>
                 )}
+                {!processing && (
+                    <div className="absolute left-2 right-2 h-0.5 bg-emerald-400/70 animate-pulse"></div>
+                )}
             </div>
         )}
       </div>
 
       <div className="bg-slate-900 p-6 rounded-t-2xl -mt-4 z-20">
         <p className="text-slate-400 text-sm mb-4 text-center">
-            {cameraError ? "Simulate scanning checkpoints:" : "Align QR code within the frame."}
+            {cameraError 
+                ? (allowSimulation ? "Simulate scanning checkpoints:" : "A working camera is required to scan checkpoint tags.") 
+                : "Align QR code within the frame."}
         </p>
 
-        <div className="space-y-2">
-            <p className="text-xs text-slate-500 uppercase font-bold tracking-wider mb-2 text-center">
-                Simulation Mode
-            </p>
-            <div className="grid grid-cols-2 gap-2">
-                {checkpoints.map(cp => (
-                    <button
-                        key={cp.id}
-                        onClick={() => handleSimulatedScan(cp.id)}
-                        disabled={processing}
-                        className="bg-slate-800 hover:bg-slate-700 text-slate-200 text-xs py-3 px-2 rounded border border-slate-700 transition-colors disabled:opacity-50"
-                    >
-                        Scan "{cp.name}"
-                    </button>
-                ))}
+        {/* Patrol Round Guidance */}
+        {activeRound && activeRoute && roundProgress ? (
+            <div className="mb-4 p-3 bg-indigo-900/30 border border-indigo-700/50 rounded text-xs text-indigo-100">
+                <div className="flex justify-between items-center mb-2">
+                    <span className="font-bold">Round: {activeRoute.name}</span>
+                    <button onClick={onEndRound} className="text-indigo-300 hover:text-white underline">End Round</button>
+                </div>
+                <div className="w-full h-1.5 bg-slate-800 rounded mb-2">
+                    <div className="h-1.5 bg-indigo-400 rounded" style={{ width: `${Math.round(roundProgress.completion * 100)}%` }}></div>
+                </div>
+                {nextStop ? (
+                    <p>
+                        Next stop ({(roundProgress.nextStopIndex ?? 0) + 1}/{activeRoute.checkpointIds.length}): <strong className="text-white">{nextStop.name}</strong>
+                        {roundProgress.nextDueAt && <span className={Date.now() > roundProgress.nextDueAt ? 'text-red-300' : 'text-indigo-300'}> · due {formatTime(roundProgress.nextDueAt, siteSettings.timeZone)}</span>}
+                    </p>
+                ) : (
+                    <p>All stops scanned.</p>
+                )}
+                {roundProgress.skippedIds.length > 0 && (
+                    <p className="text-amber-300 mt-1">Skipped: {roundProgress.skippedIds.length} stop(s)</p>
+                )}
+                <p className={`mt-1 ${roundProgress.isOverdue ? 'text-red-300' : 'text-indigo-300'}`}>Round deadline: {formatTime(roundProgress.deadlineAt, siteSettings.timeZone)}</p>
+            </div>
+        ) : routes.length > 0 && (
+            <div className="mb-4 flex gap-2">
+                <select 
+                    value={selectedRouteId}
+                    onChange={(e) => setSelectedRouteId(e.target.value)}
+                    className="flex-1 bg-slate-800 border border-slate-700 rounded px-2 py-2 text-white text-xs"
+                >
+                    <option value="">-- Free patrol (no route) --</option>
+                    {routes.map(r => (
+                        <option key={r.id} value={r.id}>{r.name} ({r.checkpointIds.length} stops)</option>
+                    ))}
+                </select>
+                <button 
+                    onClick={() => selectedRouteId && onStartRound(selectedRouteId)}
+                    disabled={!selectedRouteId}
+                    className="bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white px-3 py-2 rounded text-xs font-medium"
+                >
+                    Start Round
+                </button>
             </div>
+        )}
+
+        {scanHint && (
+            <div className="mb-4 p-3 bg-red-900/30 border border-red-700/50 rounded text-xs text-red-200 text-center">
+                {scanHint}
+            </div>
+        )}
+
+        {nfcState === 'LISTENING' && (
+            <div className="mb-4 p-2 bg-sky-900/30 border border-sky-700/50 rounded text-xs text-sky-200 text-center">
+                NFC ready: hold the phone against the checkpoint tag
+            </div>
+        )}
+        {nfcState === 'NEEDS_PERMISSION' && (
+            <button
+                onClick={startNfc}
+                className="mb-4 w-full p-2 bg-slate-800 hover:bg-slate-700 border border-sky-700/50 rounded text-xs text-sky-300"
+            >
+                Enable NFC tag reading
+            </button>
+        )}
+
+        <div className="space-y-2">
+            {allowSimulation && (
+                <>
+                    <p className="text-xs text-slate-500 uppercase font-bold tracking-wider mb-2 text-center">
+                        Simulation Mode (Demo)
+                    </p>
+                    <div className="grid grid-cols-2 gap-2">
+                        {checkpoints.map(cp => (
+                            <button
+                                key={cp.id}
+                                onClick={() => handleSimulatedScan(cp.id)}
+                                disabled={processing}
+                                className="bg-slate-800 hover:bg-slate-700 text-slate-200 text-xs py-3 px-2 rounded border border-slate-700 transition-colors disabled:opacity-50"
+                            >
+                                Scan "{cp.name}"
+                            </button>
+                        ))}
+                    </div>
+                </>
+            )}
             <div className="mt-4 p-3 bg-yellow-900/30 border border-yellow-700/50 rounded text-xs text-yellow-200">
-                <strong>Anti-Cheat Active:</strong> Checks GPS Location & Accuracy (+/- meters).
+                <strong>Anti-Cheat Active:</strong> Checks GPS Location & Accuracy (+/- meters) and flags positions that look faked.
             </div>
         </div>
       </div>
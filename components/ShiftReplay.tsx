@@ -0,0 +1,200 @@
+import React, { useState, useEffect } from 'react';
+import { Breadcrumb, Checkpoint, ScanLog, ScanStatus, SiteSettings, User } from '../types';
+import { calculateDistance, formatTime, isOfficersLog } from '../utils';
+import { getBackend } from '../services/backendService';
+import { getLocalBreadcrumbs } from '../services/trackingService';
+import { shiftDateOf, formatShiftDate } from '../services/scheduleService';
+
+interface ShiftReplayProps {
+  officers: User[];
+  checkpoints: Checkpoint[];
+  logs: ScanLog[];
+  siteSettings: SiteSettings;
+}
+
+const VIEW_WIDTH = 600;
+const VIEW_HEIGHT = 400;
+const PADDING = 30;
+const METERS_PER_DEGREE = 111320;
+const REPLAY_STEPS = 200;
+const REPLAY_TICK_MS = 100;
+
+interface Point { x: number; y: number; }
+
+// Local flat projection in meters around the area's centre; fine for a site a few km across
+const makeProjection = (coords: { latitude: number; longitude: number }[], extraMeters: number) => {
+  const lats = coords.map(c => c.latitude);
+  const lons = coords.map(c => c.longitude);
+  const lat0 = (Math.min(...lats) + Math.max(...lats)) / 2;
+  const lon0 = (Math.min(...lons) + Math.max(...lons)) / 2;
+  const cosLat = Math.cos((lat0 * Math.PI) / 180);
+  const toMeters = (c: { latitude: number; longitude: number }) => ({
+    x: (c.longitude - lon0) * METERS_PER_DEGREE * cosLat,
+    y: (c.latitude - lat0) * METERS_PER_DEGREE
+  });
+  const meters = coords.map(toMeters);
+  const spanX = Math.max(...meters.map(m => Math.abs(m.x)), 1) + extraMeters;
+  const spanY = Math.max(...meters.map(m => Math.abs(m.y)), 1) + extraMeters;
+  const scale = Math.min((VIEW_WIDTH / 2 - PADDING) / spanX, (VIEW_HEIGHT / 2 - PADDING) / spanY);
+  return {
+    scale,
+    project: (c: { latitude: number; longitude: number }): Point => {
+      const m = toMeters(c);
+      return { x: VIEW_WIDTH / 2 + m.x * scale, y: VIEW_HEIGHT / 2 - m.y * scale };
+    }
+  };
+};
+
+const scanColor = (status: ScanStatus): string =>
+  status === ScanStatus.VALID || status === ScanStatus.LATE ? '#10b981' :
+  status === ScanStatus.ISSUE_REPORTED ? '#f59e0b' :
+  status === ScanStatus.SIMULATED ? '#94a3b8' : '#ef4444';
+
+const ShiftReplay: React.FC<ShiftReplayProps> = ({ officers, checkpoints, logs, siteSettings }) => {
+  const [officerId, setOfficerId] = useState(officers[0]?.id || '');
+  const [shiftDate, setShiftDate] = useState(() => formatShiftDate(shiftDateOf(Date.now(), siteSettings)));
+  const [points, setPoints] = useState<Breadcrumb[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [cursor, setCursor] = useState(REPLAY_STEPS);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const handleLoad = async () => {
+    if (!officerId || !shiftDate) return;
+    setIsLoading(true);
+    setError(null);
+    setIsPlaying(false);
+    const [cloud, local] = await Promise.all([
+        getBackend().fetchBreadcrumbs(officerId, shiftDate),
+        getLocalBreadcrumbs(officerId, shiftDate)
+    ]);
+    if (cloud === null) setError("Could not reach the sheet; showing points stored on this device only.");
+    const byId = new Map([...(cloud || []), ...local].map(b => [b.id, b]));
+    setPoints(Array.from(byId.values()).sort((a, b) => a.timestamp - b.timestamp));
+    setCursor(REPLAY_STEPS);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    const timer = window.setInterval(() => setCursor(prev => Math.min(prev + 1, REPLAY_STEPS)), REPLAY_TICK_MS);
+    return () => window.clearInterval(timer);
+  }, [isPlaying]);
+
+  useEffect(() => {
+    if (cursor >= REPLAY_STEPS) setIsPlaying(false);
+  }, [cursor]);
+
+  const shiftLogs = logs
+    .filter(l => isOfficersLog(l, officerId) && l.userLocation && (l.shiftDate || formatShiftDate(shiftDateOf(l.timestamp, siteSettings))) === shiftDate)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const startAt = points.length > 0 ? points[0].timestamp : 0;
+  const endAt = points.length > 0 ? points[points.length - 1].timestamp : 0;
+  const cursorTime = startAt + ((endAt - startAt) * cursor) / REPLAY_STEPS;
+  const walked = points.filter(p => p.timestamp <= cursorTime);
+
+  const distanceMeters = points.slice(1).reduce((sum, p, idx) => sum + calculateDistance(points[idx], p), 0);
+
+  const hasData = points.length > 0;
+  const projection = hasData
+    ? makeProjection([...points, ...checkpoints.flatMap(c => [c.location, ...(c.geofence || [])])], Math.max(...checkpoints.map(c => c.allowedRadiusMeters), 0))
+    : null;
+  const pathOf = (crumbs: Breadcrumb[]) => projection ? crumbs.map(p => projection.project(p)).map(p => `${p.x.toFixed(1)},${p.y.toFixed(1)}`).join(' ') : '';
+  const marker = walked.length > 0 && projection ? projection.project(walked[walked.length - 1]) : null;
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden">
+        <div className="p-4 border-b border-slate-700 flex flex-wrap items-end gap-3">
+            <h3 className="text-lg font-bold text-white mr-auto">Shift Replay</h3>
+            <select
+                value={officerId}
+                onChange={(e) => setOfficerId(e.target.value)}
+                className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-white text-sm"
+            >
+                {officers.map(o => <option key={o.id} value={o.id}>{o.name} ({o.id}){o.inactive ? ' · inactive' : ''}</option>)}
+            </select>
+            <input
+                type="date"
+                value={shiftDate}
+                onChange={(e) => setShiftDate(e.target.value)}
+                className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-white text-sm"
+            />
+            <button
+                onClick={handleLoad}
+                disabled={isLoading || !officerId}
+                className="bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white px-3 py-1 rounded text-sm"
+            >
+                {isLoading ? 'Loading...' : 'Load Path'}
+            </button>
+        </div>
+
+        {error && <div className="px-4 py-2 text-xs text-amber-300 bg-amber-900/30">{error}</div>}
+
+        {!hasData ? (
+            <p className="px-6 py-4 text-center text-slate-500 text-sm">
+                No tracked path loaded. Officers must turn on shift tracking for their path to be recorded.
+            </p>
+        ) : (
+            <div className="p-4 space-y-3">
+                <svg viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`} className="w-full bg-slate-900 rounded-lg border border-slate-700">
+                    {projection && checkpoints.map(cp => {
+                        const c = projection.project(cp.location);
+                        const visited = shiftLogs.some(l => l.checkpointId === cp.id && l.timestamp <= cursorTime);
+                        const fill = visited ? '#10b98122' : '#64748b22';
+                        const stroke = visited ? '#10b981' : '#64748b';
+                        return (
+                            <g key={cp.id}>
+                                {cp.geofence && cp.geofence.length >= 3 ? (
+                                    <polygon points={cp.geofence.map(v => projection.project(v)).map(p => `${p.x.toFixed(1)},${p.y.toFixed(1)}`).join(' ')} fill={fill} stroke={stroke} strokeDasharray="4 3" />
+                                ) : (
+                                    <circle cx={c.x} cy={c.y} r={Math.max(3, cp.allowedRadiusMeters * projection.scale)} fill={fill} stroke={stroke} strokeDasharray="4 3" />
+                                )}
+                                <text x={c.x} y={c.y - 6} textAnchor="middle" className="fill-slate-300" fontSize="10">{cp.name}</text>
+                            </g>
+                        );
+                    })}
+                    <polyline points={pathOf(points)} fill="none" stroke="#334155" strokeWidth="2" />
+                    <polyline points={pathOf(walked)} fill="none" stroke="#38bdf8" strokeWidth="2.5" strokeLinejoin="round" />
+                    {projection && shiftLogs.filter(l => l.timestamp <= cursorTime).map(l => {
+                        const p = projection.project(l.userLocation!);
+                        return <circle key={l.id} cx={p.x} cy={p.y} r="4" fill={scanColor(l.status)} stroke="#0f172a" />;
+                    })}
+                    {marker && <circle cx={marker.x} cy={marker.y} r="6" fill="#f59e0b" stroke="#fff" strokeWidth="2" />}
+                </svg>
+
+                <div className="flex items-center gap-3">
+                    <button
+                        onClick={() => {
+                            if (cursor >= REPLAY_STEPS) setCursor(0);
+                            setIsPlaying(!isPlaying);
+                        }}
+                        className="bg-emerald-600 hover:bg-emerald-500 text-white px-3 py-1 rounded text-sm w-16"
+                    >
+                        {isPlaying ? 'Pause' : 'Play'}
+                    </button>
+                    <input
+                        type="range" min="0" max={REPLAY_STEPS}
+                        value={cursor}
+                        onChange={(e) => { setIsPlaying(false); setCursor(Number(e.target.value)); }}
+                        className="flex-1"
+                    />
+                    <span className="text-xs text-slate-300 font-mono w-12 text-right">{formatTime(cursorTime, siteSettings.timeZone)}</span>
+                </div>
+
+                <div className="flex flex-wrap gap-4 text-xs text-slate-400">
+                    <span>{formatTime(startAt, siteSettings.timeZone)} – {formatTime(endAt, siteSettings.timeZone)}</span>
+                    <span>{points.length} points</span>
+                    <span>{(distanceMeters / 1000).toFixed(2)} km walked</span>
+                    <span>{shiftLogs.length} scans</span>
+                    <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-emerald-500 inline-block"></span>valid scan</span>
+                    <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-amber-500 inline-block"></span>issue</span>
+                    <span className="flex items-center gap-1"><span className="w-2 h-2 rounded-full bg-red-500 inline-block"></span>rejected</span>
+                </div>
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default ShiftReplay;
@@ -0,0 +1,157 @@
+import React, { useEffect, useRef } from 'react';
+import * as L from 'leaflet';
+import { Checkpoint, Coordinates, ScanLog, ScanStatus, User } from '../types';
+import { describeOfficer } from '../services/officerService';
+
+export const DEFAULT_TILE_URL = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+export const DEFAULT_TILE_ATTRIBUTION = '&copy; OpenStreetMap contributors';
+
+interface SiteMapProps {
+  checkpoints: Checkpoint[];
+  logs?: ScanLog[]; // Scans with a position are drawn as dots coloured by status
+  officers?: User[]; // Names for the scan popups
+  tileUrl?: string; // {z}/{x}/{y} template; point it at a local tile server for offline sites
+  tileAttribution?: string;
+  // Editable pin for placing a checkpoint: drag it or click the map
+  pin?: Coordinates | null;
+  pinRadiusMeters?: number;
+  pinGeofence?: Coordinates[]; // Drawn instead of the radius circle while a polygon is being entered
+  onPinMove?: (latitude: number, longitude: number) => void;
+  className?: string;
+}
+
+const SCAN_COLORS: Record<ScanStatus, string> = {
+  [ScanStatus.VALID]: '#10b981',
+  [ScanStatus.LATE]: '#3b82f6',
+  [ScanStatus.ISSUE_REPORTED]: '#f59e0b',
+  [ScanStatus.INVALID_LOCATION]: '#ef4444',
+  [ScanStatus.INVALID_TIME]: '#ef4444',
+  [ScanStatus.INVALID_TAG]: '#ef4444',
+  [ScanStatus.SIMULATED]: '#94a3b8'
+};
+
+// A styled div instead of Leaflet's default marker images, which bundlers fail to resolve
+const pinIcon = L.divIcon({
+  className: '',
+  html: '<div style="width:18px;height:18px;border-radius:50%;background:#10b981;border:3px solid #fff;box-shadow:0 0 0 2px #064e3b"></div>',
+  iconSize: [18, 18],
+  iconAnchor: [9, 9]
+});
+
+const escapeHtml = (text: string) => text.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+
+// Imperative Leaflet map wrapped in a component. The map is created once;
+// overlays are redrawn when the data changes, without moving the view.
+const SiteMap: React.FC<SiteMapProps> = ({
+  checkpoints, logs = [], officers = [], tileUrl, tileAttribution, pin, pinRadiusMeters, pinGeofence, onPinMove, className = 'h-80'
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const tileLayerRef = useRef<L.TileLayer | null>(null);
+  const overlayRef = useRef<L.LayerGroup | null>(null);
+  const pinLayerRef = useRef<L.LayerGroup | null>(null);
+  const hasFittedRef = useRef(false);
+  const onPinMoveRef = useRef(onPinMove);
+  onPinMoveRef.current = onPinMove;
+
+  // Create / destroy the map
+  useEffect(() => {
+    if (!containerRef.current) return;
+    const map = L.map(containerRef.current, { zoomControl: true }).setView([0, 0], 2);
+    overlayRef.current = L.layerGroup().addTo(map);
+    pinLayerRef.current = L.layerGroup().addTo(map);
+    map.on('click', (e: L.LeafletMouseEvent) => onPinMoveRef.current?.(e.latlng.lat, e.latlng.lng));
+    mapRef.current = map;
+
+    return () => {
+        map.remove();
+        mapRef.current = null;
+        tileLayerRef.current = null;
+        hasFittedRef.current = false;
+    };
+  }, []);
+
+  // Tile source
+  useEffect(() => {
+    const map = mapRef.current;
+    if (!map) return;
+    if (tileLayerRef.current) tileLayerRef.current.remove();
+    tileLayerRef.current = L.tileLayer(tileUrl || DEFAULT_TILE_URL, {
+        attribution: tileAttribution || (tileUrl ? '' : DEFAULT_TILE_ATTRIBUTION),
+        maxZoom: 20
+    }).addTo(map);
+  }, [tileUrl, tileAttribution]);
+
+  // Geofences and scan positions
+  useEffect(() => {
+    const map = mapRef.current;
+    const overlay = overlayRef.current;
+    if (!map || !overlay) return;
+    overlay.clearLayers();
+
+    const bounds = L.latLngBounds([]);
+    const fenceStyle = { color: '#10b981', weight: 1, fillOpacity: 0.08, dashArray: '4 4' };
+    checkpoints.forEach(cp => {
+        const center = L.latLng(cp.location.latitude, cp.location.longitude);
+        if (cp.geofence && cp.geofence.length >= 3) {
+            const outline = cp.geofence.map(v => L.latLng(v.latitude, v.longitude));
+            L.polygon(outline, fenceStyle).bindTooltip(escapeHtml(cp.name)).addTo(overlay);
+            outline.forEach(v => bounds.extend(v));
+        } else {
+            L.circle(center, { ...fenceStyle, radius: cp.allowedRadiusMeters })
+                .bindTooltip(`${escapeHtml(cp.name)} (${cp.allowedRadiusMeters}m)`)
+                .addTo(overlay);
+        }
+        bounds.extend(center);
+    });
+
+    logs.forEach(log => {
+        if (!log.userLocation) return;
+        const at = L.latLng(log.userLocation.latitude, log.userLocation.longitude);
+        const distance = log.distanceFromTarget ? ` · ${Math.round(log.distanceFromTarget)}m from target` : '';
+        L.circleMarker(at, { radius: 5, color: '#0f172a', weight: 1, fillColor: SCAN_COLORS[log.status] || '#94a3b8', fillOpacity: 0.9 })
+            .bindPopup(`<strong>${escapeHtml(log.checkpointName)}</strong><br/>${escapeHtml(describeOfficer(officers, log.officerId))}<br/>${log.status}${distance}`)
+            .addTo(overlay);
+        bounds.extend(at);
+    });
+
+    if (pin) bounds.extend(L.latLng(pin.latitude, pin.longitude));
+
+    // Only frame the data the first time, so a background sync does not yank the view away
+    if (!hasFittedRef.current && bounds.isValid()) {
+        map.fitBounds(bounds.pad(0.2), { maxZoom: 18 });
+        hasFittedRef.current = true;
+    }
+  }, [checkpoints, logs, officers]);
+
+  // Editable pin
+  useEffect(() => {
+    const map = mapRef.current;
+    const layer = pinLayerRef.current;
+    if (!map || !layer) return;
+    layer.clearLayers();
+    if (pinGeofence && pinGeofence.length > 0) {
+        const outline = pinGeofence.map(v => L.latLng(v.latitude, v.longitude));
+        (outline.length >= 3 ? L.polygon(outline, { color: '#34d399', weight: 2, fillOpacity: 0.15 }) : L.polyline(outline, { color: '#34d399', weight: 2 }))
+            .addTo(layer);
+    }
+    if (!pin) return;
+
+    const at = L.latLng(pin.latitude, pin.longitude);
+    if (pinRadiusMeters && !(pinGeofence && pinGeofence.length >= 3)) {
+        L.circle(at, { radius: pinRadiusMeters, color: '#34d399', weight: 2, fillOpacity: 0.15 }).addTo(layer);
+    }
+    const marker = L.marker(at, { icon: pinIcon, draggable: !!onPinMoveRef.current }).addTo(layer);
+    marker.on('dragend', () => {
+        const { lat, lng } = marker.getLatLng();
+        onPinMoveRef.current?.(lat, lng);
+    });
+
+    if (map.getZoom() < 14) map.setView(at, 17);
+    else if (!map.getBounds().contains(at)) map.panTo(at);
+  }, [pin?.latitude, pin?.longitude, pinRadiusMeters, JSON.stringify(pinGeofence || [])]);
+
+  return <div ref={containerRef} className={`w-full rounded-lg overflow-hidden border border-slate-700 z-0 ${className}`} />;
+};
+
+export default SiteMap;
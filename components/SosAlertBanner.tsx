@@ -0,0 +1,106 @@
+import React from 'react';
+import { SosAlert } from '../types';
+import { formatTime } from '../utils';
+
+interface SosAlertBannerProps {
+  alerts: SosAlert[]; // Live alerts from other officers
+  acknowledgedIds: string[];
+  onAcknowledge: (alertId: string) => void;
+  timeZone: string;
+  now: number;
+}
+
+// OpenStreetMap embed: a pinned map without loading a map library
+const mapEmbedUrl = (latitude: number, longitude: number): string => {
+  const d = 0.003;
+  const bbox = [longitude - d, latitude - d, longitude + d, latitude + d].join(',');
+  return `https://www.openstreetmap.org/export/embed.html?bbox=${bbox}&layer=mapnik&marker=${latitude},${longitude}`;
+};
+
+const minutesAgo = (timestamp: number, now: number): string => {
+  const minutes = Math.max(0, Math.floor((now - timestamp) / 60000));
+  return minutes === 0 ? 'just now' : `${minutes} min ago`;
+};
+
+// New alerts block the dashboard until someone on this device acknowledges them;
+// acknowledged ones stay pinned at the top until the officer cancels.
+const SosAlertBanner: React.FC<SosAlertBannerProps> = ({ alerts, acknowledgedIds, onAcknowledge, timeZone, now }) => {
+  if (alerts.length === 0) return null;
+
+  const blocking = alerts.find(a => !acknowledgedIds.includes(a.id));
+
+  return (
+    <>
+        <div className="space-y-2">
+            {alerts.filter(a => a !== blocking).map(alert => (
+                <div key={alert.id} className="bg-red-700 border border-red-500 rounded-xl p-3 flex flex-wrap items-center justify-between gap-2 animate-pulse">
+                    <div className="text-white text-sm font-bold">
+                        SOS ACTIVE · {alert.officerName}
+                        <span className="ml-2 font-normal text-red-100 text-xs">since {formatTime(alert.startedAt, timeZone)}, last position {minutesAgo(alert.updatedAt, now)}</span>
+                    </div>
+                    {alert.location && (
+                        <a
+                            href={`https://www.google.com/maps?q=${alert.location.latitude},${alert.location.longitude}`}
+                            target="_blank" rel="noreferrer"
+                            className="bg-white text-red-700 px-3 py-1 rounded text-xs font-bold"
+                        >
+                            Open in Maps
+                        </a>
+                    )}
+                </div>
+            ))}
+        </div>
+
+        {blocking && (
+            <div className="fixed inset-0 z-[120] flex items-center justify-center p-4 bg-red-950/90 backdrop-blur-sm">
+                <div className="bg-slate-900 border-2 border-red-500 rounded-2xl max-w-lg w-full shadow-2xl overflow-hidden">
+                    <div className="bg-red-600 p-4 text-center">
+                        <div className="text-3xl font-black text-white tracking-widest">SOS</div>
+                        <div className="text-white font-semibold mt-1">{blocking.officerName} needs help</div>
+                        <div className="text-red-100 text-xs mt-1">
+                            Raised {formatTime(blocking.startedAt, timeZone)} · last position {minutesAgo(blocking.updatedAt, now)}
+                        </div>
+                    </div>
+                    {blocking.location ? (
+                        <div>
+                            <iframe
+                                title="SOS location"
+                                src={mapEmbedUrl(blocking.location.latitude, blocking.location.longitude)}
+                                className="w-full h-64 border-0"
+                            />
+                            <div className="px-4 py-2 text-xs text-slate-400 flex justify-between">
+                                <span>
+                                    {blocking.location.latitude.toFixed(5)}, {blocking.location.longitude.toFixed(5)}
+                                    {blocking.location.accuracy ? ` (±${Math.round(blocking.location.accuracy)}m)` : ''}
+                                </span>
+                                <a
+                                    href={`https://www.google.com/maps?q=${blocking.location.latitude},${blocking.location.longitude}`}
+                                    target="_blank" rel="noreferrer"
+                                    className="text-blue-400 hover:underline"
+                                >
+                                    Open in Maps
+                                </a>
+                            </div>
+                        </div>
+                    ) : (
+                        <p className="p-6 text-center text-slate-400 text-sm">No position received yet. Call the officer directly.</p>
+                    )}
+                    <div className="p-4">
+                        <button
+                            onClick={() => onAcknowledge(blocking.id)}
+                            className="w-full bg-red-600 hover:bg-red-500 text-white font-bold py-3 rounded-xl"
+                        >
+                            Acknowledge
+                        </button>
+                        {alerts.length > 1 && (
+                            <p className="text-center text-xs text-red-300 mt-2">{alerts.length} officers have raised an SOS</p>
+                        )}
+                    </div>
+                </div>
+            </div>
+        )}
+    </>
+  );
+};
+
+export default SosAlertBanner;
@@ -0,0 +1,369 @@
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from 'node:crypto';
+import { openStore, COLLECTIONS } from './store.js';
+
+// Self-hosted SecurePatrol backend: JSON over HTTP in front of a single SQLite file.
+// Mirrors services/restBackend.ts in the app; keep the two in step.
+
+const PORT = Number(process.env.PORT) || 8787;
+const DB_PATH = process.env.DB_PATH || 'data/securepatrol.db';
+const PHOTO_DIR = process.env.PHOTO_DIR || 'data/photos';
+const API_TOKEN = process.env.API_TOKEN || '';
+// Without a token anyone who can reach the server can rewrite officers and roles: local testing only
+const ALLOW_ANONYMOUS = process.env.ALLOW_ANONYMOUS === 'true';
+const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGINS || '*').split(',').map(o => o.trim()).filter(Boolean);
+
+const MAX_JSON_BYTES = 1024 * 1024;
+const DEFAULT_PAGE_SIZE = 1000;
+const MAX_PAGE_SIZE = 5000;
+const MAX_PHOTO_BYTES = 15 * 1024 * 1024;
+const PHOTO_TYPES = { 'image/jpeg': '.jpg', 'image/png': '.png', 'image/webp': '.webp' };
+const MAX_FAILED_LOGINS = 5;
+const LOGIN_LOCKOUT_MS = 5 * 60 * 1000;
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000; // One shift, like the app's own session
+
+// URL segment -> collection name
+const ROUTES = {
+    logs: 'logs',
+    officers: 'officers',
+    checkpoints: 'checkpoints',
+    routes: 'routes',
+    'qr-keys': 'qrKeys',
+    incidents: 'incidents',
+    sos: 'sos'
+};
+
+class HttpError extends Error {
+    constructor(status, code, message) {
+        super(message);
+        this.status = status;
+        this.code = code;
+    }
+}
+
+const badRequest = (message) => new HttpError(400, 'BAD_REQUEST', message);
+const notFound = (message = 'No such endpoint') => new HttpError(404, 'NOT_FOUND', message);
+
+if (!API_TOKEN && !ALLOW_ANONYMOUS) {
+    console.error('API_TOKEN is not set. Set it to a long random string, or set ALLOW_ANONYMOUS=true for local testing only.');
+    process.exit(1);
+}
+
+fs.mkdirSync(path.dirname(path.resolve(DB_PATH)), { recursive: true });
+fs.mkdirSync(PHOTO_DIR, { recursive: true });
+const store = openStore(DB_PATH);
+
+const corsHeaders = (req) => {
+    const origin = req.headers.origin;
+    const allowed = ALLOWED_ORIGINS.includes('*') ? '*' : ALLOWED_ORIGINS.includes(origin) ? origin : '';
+    return {
+        ...(allowed ? { 'Access-Control-Allow-Origin': allowed } : {}),
+        'Access-Control-Allow-Headers': 'Authorization, Content-Type, X-Session-Token',
+        'Access-Control-Allow-Methods': 'GET, PUT, POST, OPTIONS',
+        'Vary': 'Origin'
+    };
+};
+
+const sendJson = (req, res, status, body) => {
+    res.writeHead(status, { ...corsHeaders(req), 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+};
+
+const readBody = (req, limit) => new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', chunk => {
+        size += chunk.length;
+        if (size > limit) {
+            reject(new HttpError(413, 'PAYLOAD_TOO_LARGE', `Body exceeds ${limit} bytes`));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+});
+
+const readJson = async (req) => {
+    const raw = await readBody(req, MAX_JSON_BYTES);
+    try {
+        const body = JSON.parse(raw.toString('utf8'));
+        if (!body || typeof body !== 'object' || Array.isArray(body)) throw new Error();
+        return body;
+    } catch (e) {
+        throw badRequest('Body must be a JSON object');
+    }
+};
+
+const checkAuth = (req) => {
+    if (!API_TOKEN && ALLOW_ANONYMOUS) return;
+    if (req.headers.authorization !== `Bearer ${API_TOKEN}`) {
+        throw new HttpError(401, 'UNAUTHORIZED', 'Missing or wrong API token');
+    }
+};
+
+// --- ROLES ---
+// The API token is shared by every device of the site, so it cannot tell an officer from an
+// administrator. Writes that change accounts, site configuration or an incident's review also
+// need the session issued at PIN login, sent as X-Session-Token. The role is read from the
+// current officer record, so demoting or deactivating someone takes effect at once.
+// Scans, SOS alerts, breadcrumbs and new incident reports only need the token, so a device can
+// upload its queue after an offline sign-in.
+
+const ADMIN = ['ADMIN'];
+const REVIEWERS = ['ADMIN', 'SUPERVISOR'];
+const ADMIN_COLLECTIONS = ['officers', 'checkpoints', 'routes', 'qrKeys'];
+const INCIDENT_REVIEW_FIELDS = ['status', 'acknowledgedBy', 'acknowledgedAt', 'resolvedBy', 'resolvedAt', 'resolutionNote'];
+
+const hashToken = (token) => createHash('sha256').update(token).digest('hex');
+
+const issueSession = (officerId) => {
+    const token = randomBytes(32).toString('hex');
+    store.putSession(hashToken(token), officerId, Date.now() + SESSION_TTL_MS);
+    return token;
+};
+
+const requireRole = (req, roles) => {
+    const token = req.headers['x-session-token'];
+    const session = typeof token === 'string' && token ? store.getSession(hashToken(token), Date.now()) : null;
+    const officer = session ? store.get('officers', session.officerId) : null;
+    if (!officer || officer.deleted || officer.inactive) {
+        throw new HttpError(401, 'SESSION_REQUIRED', 'Sign in with a PIN while online to make this change');
+    }
+    if (!roles.includes(officer.role)) {
+        throw new HttpError(403, 'FORBIDDEN', `Only ${roles.join(' and ').toLowerCase()} accounts can make this change`);
+    }
+    return officer;
+};
+
+// An officer may report an incident, but moving it along is for supervisors and admins
+const changesReview = (current, incident) => {
+    const before = current || { status: 'OPEN' };
+    return INCIDENT_REVIEW_FIELDS.some(field => JSON.stringify(before[field]) !== JSON.stringify(incident[field]));
+};
+
+const readRevision = (value, name) => {
+    if (value === null || value === '') return 0;
+    if (!/^\d+$/.test(value)) throw badRequest(`${name} must be a revision number`);
+    return Number(value);
+};
+
+// PIN hashes are never stored with an officer nor handed out (see PIN LOGIN)
+const withoutPin = ({ pinHash, pinSalt, ...officer }) => officer;
+
+// Records written after `since` (everything without it), one page at a time. `cursor` is the
+// revision to pass as `since` next time; `nextPageToken` is set while more pages follow.
+// Settings always come whole.
+const snapshot = (params) => {
+    const since = readRevision(params.get('since'), 'since');
+    const after = params.has('pageToken') ? readRevision(params.get('pageToken'), 'pageToken') : since;
+    const limit = Math.min(Number(params.get('limit')) || DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+
+    const rows = store.changes(after, limit + 1);
+    const page = rows.slice(0, limit);
+    const lists = Object.fromEntries(COLLECTIONS.map(c => [c, []]));
+    page.forEach(row => lists[row.collection].push(row.collection === 'officers' ? withoutPin(row.record) : row.record));
+    const cursor = String(page.length > 0 ? page[page.length - 1].rev : after);
+
+    return {
+        ...lists,
+        settings: store.getSettings(),
+        delta: since > 0,
+        cursor,
+        ...(rows.length > limit ? { nextPageToken: cursor } : {})
+    };
+};
+
+// Alerts are re-sent on every position update; a late retry must not roll one back
+const saveSos = (id, alert) => {
+    const current = store.get('sos', id);
+    if (current && (current.updatedAt || 0) > (alert.updatedAt || 0)) return;
+    store.upsert('sos', id, alert);
+};
+
+const saveRecord = async (req, collection, id) => {
+    const record = await readJson(req);
+    const key = collection === 'qrKeys' ? record.version : record.id;
+    if (String(key) !== id) throw badRequest(`Record id does not match the URL (${id})`);
+    if (ADMIN_COLLECTIONS.includes(collection)) requireRole(req, ADMIN);
+    if (collection === 'incidents' && changesReview(store.get('incidents', id), record)) requireRole(req, REVIEWERS);
+    if (collection === 'sos') saveSos(id, record);
+    else if (collection === 'officers') store.upsert(collection, id, withoutPin(record)); // PINs go through /api/officers/:id/pin
+    else store.upsert(collection, id, record);
+};
+
+// --- PIN LOGIN ---
+// The app hashes the PIN with the officer's salt and the server compares, so hashes never
+// leave it. Wrong PINs lock the officer out for a while (per server process).
+
+const failedLogins = new Map();
+
+const readCredential = (body) => {
+    const { pinHash, pinSalt } = body;
+    if (typeof pinHash !== 'string' || !/^[0-9a-f]{64}$/.test(pinHash) || typeof pinSalt !== 'string' || !/^[0-9a-f]{32}$/.test(pinSalt)) {
+        throw badRequest('pinHash must be 64 and pinSalt 32 hex characters');
+    }
+    return { pinHash, pinSalt };
+};
+
+const checkLogin = ({ officerId, pinHash }) => {
+    if (typeof officerId !== 'string' || typeof pinHash !== 'string') throw badRequest('officerId and pinHash are required');
+    const failures = failedLogins.get(officerId);
+    if (failures && failures.lockedUntil > Date.now()) return 'LOCKED';
+
+    const credential = store.getCredential(officerId);
+    const given = Buffer.from(pinHash);
+    const stored = Buffer.from(credential ? credential.pinHash : '');
+    if (credential && given.length === stored.length && timingSafeEqual(given, stored)) {
+        failedLogins.delete(officerId);
+        return 'OK';
+    }
+    const count = (failures?.count || 0) + 1;
+    failedLogins.set(officerId, count >= MAX_FAILED_LOGINS
+        ? { count: 0, lockedUntil: Date.now() + LOGIN_LOCKOUT_MS }
+        : { count, lockedUntil: 0 });
+    return 'WRONG_PIN';
+};
+
+const savePhoto = async (req) => {
+    const type = (req.headers['content-type'] || '').split(';')[0].trim();
+    const ext = PHOTO_TYPES[type];
+    if (!ext) throw badRequest(`Unsupported photo type: ${type || 'none'}`);
+    const data = await readBody(req, MAX_PHOTO_BYTES);
+    if (data.length === 0) throw badRequest('Empty photo');
+    const file = `${randomUUID()}${ext}`;
+    await fs.promises.writeFile(path.join(PHOTO_DIR, file), data);
+    return { url: `/photos/${file}` };
+};
+
+const servePhoto = (req, res, file) => {
+    // UUID names only, so a request can never climb out of the photo directory
+    if (!/^[0-9a-f-]{36}\.(jpg|png|webp)$/.test(file)) throw notFound('No such photo');
+    const fullPath = path.join(PHOTO_DIR, file);
+    if (!fs.existsSync(fullPath)) throw notFound('No such photo');
+    const type = Object.keys(PHOTO_TYPES).find(t => fullPath.endsWith(PHOTO_TYPES[t]));
+    res.writeHead(200, { ...corsHeaders(req), 'Content-Type': type, 'Cache-Control': 'public, max-age=31536000, immutable' });
+    fs.createReadStream(fullPath).pipe(res);
+};
+
+const handle = async (req, res) => {
+    const url = new URL(req.url, 'http://localhost');
+    const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204, corsHeaders(req));
+        res.end();
+        return;
+    }
+
+    // Photo links are opened straight from <img> and new tabs, which cannot send a token
+    if (req.method === 'GET' && parts[0] === 'photos' && parts.length === 2) {
+        servePhoto(req, res, parts[1]);
+        return;
+    }
+
+    if (parts[0] !== 'api') throw notFound();
+    checkAuth(req);
+    const [, resource, id] = parts;
+
+    if (req.method === 'GET' && resource === 'health' && !id) {
+        return sendJson(req, res, 200, { name: 'SecurePatrol server', counts: store.counts() });
+    }
+    if (req.method === 'GET' && resource === 'snapshot' && !id) {
+        return sendJson(req, res, 200, snapshot(url.searchParams));
+    }
+    if (req.method === 'GET' && resource === 'sos' && !id) {
+        return sendJson(req, res, 200, { sos: store.list('sos') });
+    }
+    if (resource === 'breadcrumbs' && !id) {
+        if (req.method === 'GET') {
+            const officerId = url.searchParams.get('officerId');
+            const shiftDate = url.searchParams.get('shiftDate');
+            if (!officerId || !shiftDate) throw badRequest('officerId and shiftDate are required');
+            return sendJson(req, res, 200, { breadcrumbs: store.breadcrumbs(officerId, shiftDate) });
+        }
+        if (req.method === 'POST') {
+            const { points } = await readJson(req);
+            if (!Array.isArray(points) || points.some(p => !p || !p.id || !p.officerId || !p.shiftDate)) {
+                throw badRequest('points must be an array of breadcrumbs with id, officerId and shiftDate');
+            }
+            return sendJson(req, res, 200, { added: store.addBreadcrumbs(points) });
+        }
+    }
+    if (resource === 'setup' && !id) {
+        if (req.method === 'GET') return sendJson(req, res, 200, { needsAdmin: !store.hasCredentials() });
+        if (req.method === 'POST') {
+            const body = await readJson(req);
+            const { pinHash, pinSalt } = readCredential(body);
+            const officer = body.officer;
+            if (!officer || typeof officer.id !== 'string' || !officer.id || officer.role !== 'ADMIN') {
+                throw badRequest('officer must be an ADMIN record with an id');
+            }
+            if (!store.createFirstAdmin({ ...withoutPin(officer), hasPin: true }, pinHash, pinSalt)) {
+                throw new HttpError(409, 'SETUP_DONE', 'An account with a PIN already exists');
+            }
+            return sendJson(req, res, 201, { ok: true });
+        }
+    }
+    if (req.method === 'POST' && resource === 'login' && !id) {
+        const body = await readJson(req);
+        const result = checkLogin(body);
+        return sendJson(req, res, 200, result === 'OK' ? { result, session: issueSession(body.officerId) } : { result });
+    }
+    if (resource === 'officers' && id && parts[3] === 'pin' && parts.length === 4) {
+        if (req.method === 'GET') {
+            return sendJson(req, res, 200, { pinSalt: store.getCredential(id)?.pinSalt ?? null });
+        }
+        if (req.method === 'PUT') {
+            requireRole(req, ADMIN);
+            const { pinHash, pinSalt } = readCredential(await readJson(req));
+            store.putCredential(id, pinHash, pinSalt);
+            return sendJson(req, res, 200, { ok: true });
+        }
+    }
+    if (req.method === 'PUT' && resource === 'settings' && !id) {
+        requireRole(req, ADMIN);
+        store.putSettings(await readJson(req));
+        return sendJson(req, res, 200, { ok: true });
+    }
+    if (req.method === 'POST' && resource === 'photos' && !id) {
+        return sendJson(req, res, 201, await savePhoto(req));
+    }
+
+    const collection = ROUTES[resource];
+    if (collection && id && parts.length === 3) {
+        if (req.method === 'PUT') {
+            await saveRecord(req, collection, id);
+            return sendJson(req, res, 200, { ok: true });
+        }
+    }
+    throw notFound();
+};
+
+const server = http.createServer((req, res) => {
+    handle(req, res).catch(error => {
+        if (!(error instanceof HttpError)) console.error(`${req.method} ${req.url} failed:`, error);
+        const known = error instanceof HttpError;
+        if (res.headersSent) {
+            res.end();
+            return;
+        }
+        sendJson(req, res, known ? error.status : 500, {
+            error: { code: known ? error.code : 'INTERNAL', message: known ? error.message : 'Internal server error' }
+        });
+    });
+});
+
+server.listen(PORT, () => {
+    console.log(`SecurePatrol server listening on :${PORT} (db ${DB_PATH}, photos ${PHOTO_DIR}${API_TOKEN ? ', token required' : ', NO TOKEN: anyone can write'})`);
+});
+
+const shutdown = () => server.close(() => {
+    store.close();
+    process.exit(0);
+});
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,215 @@
+import http from 'node:http';
+
+// Stand-in for the Apps Script web app, for testing the Google Sheets backend without a Sheet.
+// Speaks the contract of services/sheetService.ts, including incremental reads. Data is kept
+// in memory and lost on exit. No dependencies:
+//
+//   node server/mock-apps-script.js [--seed-logs N] [--legacy]
+//
+// --seed-logs N  start with N generated logs, to exercise paging
+// --legacy       ignore since/pageToken/pageSize, like a script written before incremental reads
+//
+// A real script can implement cursors the same way: a hidden _rev column that every write
+// sets from a counter in the script properties, and "rows with _rev > since" on read.
+// PIN hashes go in a separate tab that reads never return (see "PIN LOGIN" in sheetService).
+
+const PORT = Number(process.env.PORT) || 8788;
+const DEFAULT_PAGE_SIZE = 1000;
+
+const args = process.argv.slice(2);
+const option = (name) => {
+    const index = args.indexOf(name);
+    return index === -1 ? undefined : args[index + 1];
+};
+const LEGACY = args.includes('--legacy');
+
+// Tab name in the payload -> column the script upserts by
+const TABS = {
+    logs: 'id',
+    officers: 'id',
+    checkpoints: 'id',
+    qrKeys: 'version',
+    routes: 'id',
+    incidents: 'id',
+    sos: 'id'
+};
+
+const ACTIONS = {
+    LOG: 'logs',
+    ADD_OFFICER: 'officers',
+    UPDATE_OFFICER: 'officers',
+    ADD_CHECKPOINT: 'checkpoints',
+    UPDATE_CHECKPOINT: 'checkpoints',
+    SAVE_ROUTE: 'routes',
+    SAVE_QR_KEY: 'qrKeys',
+    SAVE_INCIDENT: 'incidents',
+    SOS: 'sos'
+};
+
+const sheet = Object.fromEntries(Object.keys(TABS).map(tab => [tab, []]));
+const breadcrumbs = [];
+const pins = new Map(); // officerId -> { pinHash, pinSalt }
+const failedLogins = new Map();
+let settings = {};
+let revision = 0;
+
+const MAX_FAILED_LOGINS = 5;
+const LOGIN_LOCKOUT_MS = 5 * 60 * 1000;
+
+const upsertRow = (tab, row) => {
+    const key = TABS[tab];
+    const rows = sheet[tab];
+    const index = rows.findIndex(r => String(r[key]) === String(row[key]));
+    const stored = { ...row, _rev: ++revision };
+    if (index === -1) rows.push(stored);
+    else rows[index] = stored;
+};
+
+const stripRev = ({ _rev, ...row }) => row;
+
+const checkLogin = ({ officerId, pinHash }) => {
+    const failures = failedLogins.get(officerId);
+    if (failures && failures.lockedUntil > Date.now()) return 'LOCKED';
+    if (pins.get(officerId)?.pinHash === pinHash) {
+        failedLogins.delete(officerId);
+        return 'OK';
+    }
+    const count = (failures?.count || 0) + 1;
+    failedLogins.set(officerId, count >= MAX_FAILED_LOGINS
+        ? { count: 0, lockedUntil: Date.now() + LOGIN_LOCKOUT_MS }
+        : { count, lockedUntil: 0 });
+    return 'WRONG_PIN';
+};
+
+const seedLogs = (count) => {
+    const start = Date.now() - count * 60 * 1000;
+    for (let i = 0; i < count; i++) {
+        const timestamp = start + i * 60 * 1000;
+        upsertRow('logs', {
+            schemaVersion: 2,
+            id: `log-${timestamp}-seed${i}`,
+            checkpointId: `cp-${(i % 5) + 1}`,
+            checkpointName: `Checkpoint ${(i % 5) + 1}`,
+            officerId: 'OFF-001',
+            timestamp,
+            timestampIso: new Date(timestamp).toISOString(),
+            shiftDate: new Date(timestamp).toISOString().slice(0, 10),
+            status: 'VALID',
+            note: ''
+        });
+    }
+};
+
+// Full payload, or the rows written after `since`; paged by revision
+const readPayload = (params) => {
+    if (LEGACY) {
+        return { ...Object.fromEntries(Object.entries(sheet).map(([tab, rows]) => [tab, rows.map(stripRev)])), settings };
+    }
+
+    const since = Number(params.get('since')) || 0;
+    const after = Math.max(since, Number(params.get('pageToken')) || 0);
+    const pageSize = Math.max(1, Number(params.get('pageSize')) || DEFAULT_PAGE_SIZE);
+
+    const changed = Object.entries(sheet)
+        .flatMap(([tab, rows]) => rows.filter(row => row._rev > after).map(row => ({ tab, row })))
+        .sort((a, b) => a.row._rev - b.row._rev);
+    const page = changed.slice(0, pageSize);
+
+    const payload = { ...Object.fromEntries(Object.keys(TABS).map(tab => [tab, []])), settings };
+    page.forEach(({ tab, row }) => payload[tab].push(stripRev(row)));
+
+    const last = page.length > 0 ? page[page.length - 1].row._rev : revision;
+    payload.cursor = String(last);
+    payload.delta = since > 0;
+    if (changed.length > pageSize) payload.nextPageToken = String(last);
+    return payload;
+};
+
+const handlePost = (body) => {
+    // PIN columns sent by older clients are not stored with the officer
+    const { action, pinHash, pinSalt, ...data } = body;
+    if (ACTIONS[action]) {
+        upsertRow(ACTIONS[action], data);
+        return { status: 'success' };
+    }
+    switch (action) {
+        case 'SET_PIN':
+            if (!data.officerId || !pinHash || !pinSalt) return { status: 'error', message: 'officerId, pinHash and pinSalt are required' };
+            pins.set(String(data.officerId), { pinHash, pinSalt });
+            return { status: 'success' };
+        case 'LOGIN':
+            return { status: 'success', result: checkLogin({ officerId: String(data.officerId), pinHash }) };
+        case 'CREATE_ADMIN':
+            if (pins.size > 0) return { status: 'error', message: 'An account with a PIN already exists' };
+            if (!data.id || data.role !== 'ADMIN' || !pinHash || !pinSalt) return { status: 'error', message: 'An ADMIN row with pinHash and pinSalt is required' };
+            upsertRow('officers', { ...data, hasPin: true });
+            pins.set(String(data.id), { pinHash, pinSalt });
+            return { status: 'success' };
+        case 'SAVE_SETTINGS':
+            settings = { ...settings, ...data };
+            return { status: 'success' };
+        case 'SAVE_BREADCRUMBS': {
+            const points = typeof data.points === 'string' ? JSON.parse(data.points) : data.points;
+            if (!Array.isArray(points)) return { status: 'error', message: 'points must be an array' };
+            for (const point of points) {
+                if (!breadcrumbs.some(b => b.id === point.id)) breadcrumbs.push(point);
+            }
+            return { status: 'success', added: points.length };
+        }
+        case 'UPLOAD_PHOTO':
+            // No Drive here: hand the photo back as a data URL
+            return { status: 'success', url: `data:${data.mimeType};base64,${data.data}` };
+        default:
+            return { status: 'error', message: `Unknown action: ${action}` };
+    }
+};
+
+const send = (res, status, body) => {
+    res.writeHead(status, { 'Access-Control-Allow-Origin': '*', 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+};
+
+const server = http.createServer((req, res) => {
+    const url = new URL(req.url, `http://${req.headers.host || 'localhost'}`);
+
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204, { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Headers': 'Content-Type' });
+        res.end();
+        return;
+    }
+
+    if (req.method === 'GET') {
+        const resource = LEGACY ? null : url.searchParams.get('resource');
+        if (resource === 'sos') return send(res, 200, { sos: sheet.sos.map(stripRev) });
+        if (resource === 'pinSalt') return send(res, 200, { pinSalt: pins.get(url.searchParams.get('officerId'))?.pinSalt ?? null });
+        if (resource === 'setup') return send(res, 200, { needsAdmin: pins.size === 0 });
+        if (resource === 'breadcrumbs') {
+            const officerId = url.searchParams.get('officerId');
+            const shiftDate = url.searchParams.get('shiftDate');
+            return send(res, 200, { breadcrumbs: breadcrumbs.filter(b => b.officerId === officerId && b.shiftDate === shiftDate) });
+        }
+        return send(res, 200, readPayload(url.searchParams));
+    }
+
+    if (req.method === 'POST') {
+        const chunks = [];
+        req.on('data', chunk => chunks.push(chunk));
+        req.on('end', () => {
+            try {
+                send(res, 200, handlePost(JSON.parse(Buffer.concat(chunks).toString('utf8'))));
+            } catch (error) {
+                send(res, 200, { status: 'error', message: error.message });
+            }
+        });
+        return;
+    }
+
+    send(res, 405, { status: 'error', message: 'Method not allowed' });
+});
+
+const seedCount = Number(option('--seed-logs')) || 0;
+if (seedCount > 0) seedLogs(seedCount);
+
+server.listen(PORT, () => {
+    console.log(`Mock Apps Script listening on http://localhost:${PORT}${LEGACY ? ' (legacy)' : ''}, ${seedCount} seeded logs`);
+});
@@ -0,0 +1,163 @@
+import Database from 'better-sqlite3';
+
+// SQLite storage. Each record is kept as the JSON document the app sent, keyed by
+// collection and id; breadcrumbs get their own table so one shift can be queried cheaply.
+// Every write stamps the record with the next revision number, which is what sync cursors
+// and page tokens count in. PIN hashes live in a table of their own that no read returns,
+// and so do the sessions issued at PIN login (stored as hashes of their tokens).
+
+export const COLLECTIONS = ['logs', 'officers', 'checkpoints', 'routes', 'qrKeys', 'incidents', 'sos'];
+
+export const openStore = (file) => {
+    const db = new Database(file);
+    db.pragma('journal_mode = WAL');
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS records (
+            collection TEXT NOT NULL,
+            id TEXT NOT NULL,
+            data TEXT NOT NULL,
+            updated_at INTEGER NOT NULL,
+            rev INTEGER NOT NULL DEFAULT 0,
+            PRIMARY KEY (collection, id)
+        );
+        CREATE TABLE IF NOT EXISTS breadcrumbs (
+            id TEXT PRIMARY KEY,
+            officer_id TEXT NOT NULL,
+            shift_date TEXT NOT NULL,
+            data TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS breadcrumbs_shift ON breadcrumbs (officer_id, shift_date);
+        CREATE TABLE IF NOT EXISTS credentials (
+            officer_id TEXT PRIMARY KEY,
+            pin_hash TEXT NOT NULL,
+            pin_salt TEXT NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS sessions (
+            token_hash TEXT PRIMARY KEY,
+            officer_id TEXT NOT NULL,
+            expires_at INTEGER NOT NULL
+        );
+        CREATE TABLE IF NOT EXISTS settings (
+            id INTEGER PRIMARY KEY CHECK (id = 1),
+            data TEXT NOT NULL
+        );
+    `);
+
+    // Databases created before revisions existed: number the rows in insertion order
+    if (!db.prepare('PRAGMA table_info(records)').all().some(column => column.name === 'rev')) {
+        db.exec('ALTER TABLE records ADD COLUMN rev INTEGER NOT NULL DEFAULT 0');
+        db.exec('UPDATE records SET rev = rowid');
+    }
+    db.exec('CREATE INDEX IF NOT EXISTS records_rev ON records (rev)');
+
+    const listStmt = db.prepare('SELECT data FROM records WHERE collection = ? ORDER BY rev');
+    const getStmt = db.prepare('SELECT data FROM records WHERE collection = ? AND id = ?');
+    const upsertStmt = db.prepare(`
+        INSERT INTO records (collection, id, data, updated_at, rev)
+        VALUES (?, ?, ?, ?, (SELECT COALESCE(MAX(rev), 0) + 1 FROM records))
+        ON CONFLICT (collection, id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at, rev = excluded.rev
+    `);
+    const changesStmt = db.prepare('SELECT collection, data, rev FROM records WHERE rev > ? ORDER BY rev LIMIT ?');
+    const countStmt = db.prepare('SELECT collection, COUNT(*) AS n FROM records GROUP BY collection');
+    const crumbInsert = db.prepare(`
+        INSERT INTO breadcrumbs (id, officer_id, shift_date, data) VALUES (?, ?, ?, ?)
+        ON CONFLICT (id) DO NOTHING
+    `);
+    const crumbQuery = db.prepare('SELECT data FROM breadcrumbs WHERE officer_id = ? AND shift_date = ?');
+    const settingsGet = db.prepare('SELECT data FROM settings WHERE id = 1');
+    const settingsPut = db.prepare(`
+        INSERT INTO settings (id, data) VALUES (1, ?)
+        ON CONFLICT (id) DO UPDATE SET data = excluded.data
+    `);
+
+    const credentialGet = db.prepare('SELECT pin_hash AS pinHash, pin_salt AS pinSalt FROM credentials WHERE officer_id = ?');
+    const credentialPut = db.prepare(`
+        INSERT INTO credentials (officer_id, pin_hash, pin_salt) VALUES (?, ?, ?)
+        ON CONFLICT (officer_id) DO UPDATE SET pin_hash = excluded.pin_hash, pin_salt = excluded.pin_salt
+    `);
+    const credentialCount = db.prepare('SELECT COUNT(*) AS n FROM credentials');
+    const sessionPut = db.prepare('INSERT INTO sessions (token_hash, officer_id, expires_at) VALUES (?, ?, ?)');
+    const sessionGet = db.prepare('SELECT officer_id AS officerId FROM sessions WHERE token_hash = ? AND expires_at > ?');
+    const sessionPurge = db.prepare('DELETE FROM sessions WHERE expires_at <= ?');
+
+    const parseRows = (rows) => rows.map(row => JSON.parse(row.data));
+
+    // Officer records written by older clients carried the PIN hash: move it to credentials
+    db.transaction(() => {
+        for (const officer of parseRows(listStmt.all('officers'))) {
+            if (officer.pinHash === undefined && officer.pinSalt === undefined) continue;
+            const { pinHash, pinSalt, ...record } = officer;
+            if (pinHash && pinSalt && !credentialGet.get(record.id)) credentialPut.run(record.id, pinHash, pinSalt);
+            upsertStmt.run('officers', record.id, JSON.stringify({ ...record, hasPin: !!(pinHash && pinSalt) || record.hasPin }), Date.now());
+        }
+    })();
+
+    return {
+        list: (collection) => parseRows(listStmt.all(collection)),
+
+        get: (collection, id) => {
+            const row = getStmt.get(collection, id);
+            return row ? JSON.parse(row.data) : null;
+        },
+
+        upsert: (collection, id, record) => {
+            upsertStmt.run(collection, id, JSON.stringify(record), Date.now());
+        },
+
+        // Records written after revision `after`, oldest first
+        changes: (after, limit) => changesStmt.all(after, limit).map(row => ({
+            collection: row.collection,
+            record: JSON.parse(row.data),
+            rev: row.rev
+        })),
+
+        counts: () => Object.fromEntries(countStmt.all().map(row => [row.collection, row.n])),
+
+        getCredential: (officerId) => credentialGet.get(officerId) || null,
+
+        putCredential: (officerId, pinHash, pinSalt) => {
+            credentialPut.run(officerId, pinHash, pinSalt);
+        },
+
+        // First-run setup: the administrator and its PIN, only while no account has a PIN
+        createFirstAdmin: db.transaction((officer, pinHash, pinSalt) => {
+            if (credentialCount.get().n > 0) return false;
+            upsertStmt.run('officers', officer.id, JSON.stringify(officer), Date.now());
+            credentialPut.run(officer.id, pinHash, pinSalt);
+            return true;
+        }),
+
+        hasCredentials: () => credentialCount.get().n > 0,
+
+        // Expired sessions are dropped whenever a new one is issued
+        putSession: (tokenHash, officerId, expiresAt) => {
+            sessionPurge.run(Date.now());
+            sessionPut.run(tokenHash, officerId, expiresAt);
+        },
+
+        getSession: (tokenHash, now) => sessionGet.get(tokenHash, now) || null,
+
+        // Re-sent batches (after a lost reply) are ignored point by point
+        addBreadcrumbs: db.transaction((points) => {
+            let added = 0;
+            for (const point of points) {
+                added += crumbInsert.run(point.id, point.officerId, point.shiftDate, JSON.stringify(point)).changes;
+            }
+            return added;
+        }),
+
+        breadcrumbs: (officerId, shiftDate) =>
+            parseRows(crumbQuery.all(officerId, shiftDate)).sort((a, b) => a.timestamp - b.timestamp),
+
+        getSettings: () => {
+            const row = settingsGet.get();
+            return row ? JSON.parse(row.data) : null;
+        },
+
+        putSettings: (settings) => {
+            settingsPut.run(JSON.stringify(settings));
+        },
+
+        close: () => db.close()
+    };
+};
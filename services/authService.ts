@@ -0,0 +1,163 @@
+import { User, Role, PinCredential } from "../types";
+import { DataBackend } from "./dataBackend";
+
+// PIN login for officers. PINs are stored only as salted PBKDF2 hashes, which the backend
+// never hands out: it compares the hash computed here (see DataBackend). Hashes of PINs set or
+// accepted on this device are kept to sign in offline. The session lives in localStorage and
+// expires at the end of a shift.
+
+const SESSION_STORAGE = 'securepatrol_session';
+const CREDENTIALS_STORAGE = 'securepatrol_pin_credentials';
+const PBKDF2_ITERATIONS = 100000;
+export const SHIFT_DURATION_MS = 12 * 60 * 60 * 1000;
+export const MIN_PIN_LENGTH = 6;
+
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 5 * 60 * 1000;
+
+// Whether the login screen offers to create the first administrator
+export type SetupStatus = 'CHECKING' | 'NEEDS_ADMIN' | 'READY' | 'UNREACHABLE';
+
+export interface Session {
+    userId: string; // Role is always read from the current User record, never cached here
+    startedAt: number;
+    expiresAt: number;
+    backendSession?: string; // Issued by the REST server at an online sign-in; its admin writes need it
+}
+
+// In-memory only: a reload resets the counter, but that is enough to slow down guessing at the device
+const failedAttempts = new Map<string, { count: number; lockedUntil: number }>();
+
+const toHex = (buffer: ArrayBuffer): string =>
+    Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string): Uint8Array =>
+    new Uint8Array((hex.match(/.{2}/g) || []).map(byte => parseInt(byte, 16)));
+
+export const hashPin = async (pin: string, saltHex?: string): Promise<{ pinHash: string; pinSalt: string }> => {
+    if (!window.crypto?.subtle) throw new Error("PIN login requires HTTPS (Secure Context).");
+
+    const salt = saltHex ? fromHex(saltHex) : crypto.getRandomValues(new Uint8Array(16));
+    const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits(
+        { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+        baseKey,
+        256
+    );
+    return { pinHash: toHex(bits), pinSalt: toHex(salt.buffer as ArrayBuffer) };
+};
+
+export const validatePin = (pin: string): string | null => {
+    if (pin.length < MIN_PIN_LENGTH) return `PIN must be at least ${MIN_PIN_LENGTH} characters.`;
+    return null;
+};
+
+export const hasPin = (user: User): boolean => !!user.hasPin;
+
+// --- DEVICE CREDENTIALS ---
+
+const loadCredentials = (): Record<string, PinCredential> => {
+    try {
+        return JSON.parse(localStorage.getItem(CREDENTIALS_STORAGE) || '{}') || {};
+    } catch (e) {
+        return {};
+    }
+};
+
+export const rememberCredential = (officerId: string, credential: PinCredential) => {
+    localStorage.setItem(CREDENTIALS_STORAGE, JSON.stringify({ ...loadCredentials(), [officerId]: credential }));
+};
+
+// Officer records saved before hashes became write-only still hold them: keep those for
+// offline sign-in and drop them from the records, which are synced
+export const takeLegacyCredentials = (users: (User & Partial<PinCredential>)[]): User[] =>
+    users.map(({ pinHash, pinSalt, ...user }) => {
+        if (!pinHash || !pinSalt) return user;
+        if (!loadCredentials()[user.id]) rememberCredential(user.id, { pinHash, pinSalt });
+        return { ...user, hasPin: true };
+    });
+
+const recordFailure = (officerId: string) => {
+    const count = (failedAttempts.get(officerId)?.count || 0) + 1;
+    failedAttempts.set(officerId, {
+        count: count >= MAX_FAILED_ATTEMPTS ? 0 : count,
+        lockedUntil: count >= MAX_FAILED_ATTEMPTS ? Date.now() + LOCKOUT_MS : 0
+    });
+};
+
+// Asks the backend when it can be reached (null otherwise), else checks this device's copy.
+// Only an online check can come with a backend session.
+const checkPin = async (user: User, pin: string, backend: DataBackend | null): Promise<{ accepted: boolean; backendSession?: string }> => {
+    const salt = backend ? await backend.fetchPinSalt(user.id) : null;
+    if (backend && salt) {
+        if (!salt.pinSalt) throw new Error("No PIN set for this officer. Ask an admin to set one.");
+        const credential = await hashPin(pin, salt.pinSalt);
+        const reply = await backend.checkPin(user.id, credential.pinHash);
+        if (reply?.result === 'LOCKED') throw new Error("Too many wrong PINs. Try again in a few minutes.");
+        if (reply?.result === 'OK') rememberCredential(user.id, credential);
+        if (reply) return { accepted: reply.result === 'OK', backendSession: reply.session };
+    }
+
+    const stored = loadCredentials()[user.id];
+    if (!stored) {
+        throw new Error(backend
+            ? "Cannot reach the backend to check the PIN, and this officer has not signed in on this device before."
+            : "No PIN set for this officer on this device. Ask an admin to set one.");
+    }
+    return { accepted: (await hashPin(pin, stored.pinSalt)).pinHash === stored.pinHash };
+};
+
+// Throws with a user-facing message when the login is refused. `backend` is null on a device
+// without one, where PINs exist only on the device.
+export const verifyLogin = async (user: User, pin: string, backend: DataBackend | null): Promise<Session> => {
+    const attempts = failedAttempts.get(user.id);
+    if (attempts && attempts.lockedUntil > Date.now()) {
+        const minutes = Math.ceil((attempts.lockedUntil - Date.now()) / 60000);
+        throw new Error(`Too many wrong PINs. Try again in ${minutes} min.`);
+    }
+    if (user.inactive) throw new Error("This account has been deactivated. Ask an admin to reactivate it.");
+    if (!hasPin(user)) throw new Error("No PIN set for this officer. Ask an admin to set one.");
+
+    const { accepted, backendSession } = await checkPin(user, pin, backend);
+    if (!accepted) {
+        recordFailure(user.id);
+        throw new Error("Incorrect PIN.");
+    }
+
+    failedAttempts.delete(user.id);
+    const now = Date.now();
+    const session: Session = { userId: user.id, startedAt: now, expiresAt: now + SHIFT_DURATION_MS, backendSession };
+    localStorage.setItem(SESSION_STORAGE, JSON.stringify(session));
+    return session;
+};
+
+// --- ROLE-BASED ACCESS ---
+// Checked in the UI and in every App handler that changes configuration. The REST server
+// enforces the same roles on its side (server/index.js); the Sheets backend has no auth of its
+// own, so there this guards the device, not the data.
+// VIEW_TRACKS covers other officers' shift paths, which officers themselves should not see.
+export type Permission = 'SCAN' | 'VIEW_DASHBOARD' | 'MANAGE_CONFIG' | 'MANAGE_INCIDENTS' | 'VIEW_TRACKS';
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+    [Role.ADMIN]: ['SCAN', 'VIEW_DASHBOARD', 'MANAGE_CONFIG', 'MANAGE_INCIDENTS', 'VIEW_TRACKS'],
+    [Role.SUPERVISOR]: ['VIEW_DASHBOARD', 'MANAGE_INCIDENTS', 'VIEW_TRACKS'],
+    [Role.OFFICER]: ['SCAN', 'VIEW_DASHBOARD']
+};
+
+export const hasPermission = (user: User | null | undefined, permission: Permission): boolean =>
+    !!user && (ROLE_PERMISSIONS[user.role] || []).includes(permission);
+
+export const getStoredSession = (): Session | null => {
+    try {
+        const saved = localStorage.getItem(SESSION_STORAGE);
+        if (!saved) return null;
+        const session: Session = JSON.parse(saved);
+        return session.expiresAt > Date.now() ? session : null;
+    } catch (e) {
+        return null;
+    }
+};
+
+export const endSession = () => {
+    localStorage.removeItem(SESSION_STORAGE);
+};
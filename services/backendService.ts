@@ -0,0 +1,49 @@
+import { BackendConfig, DataBackend } from "./dataBackend";
+import { createSheetsBackend } from "./sheetService";
+import { createRestBackend } from "./restBackend";
+import { createDriveFolderAdapter } from "./driveStorageService";
+import { getStoredSession } from "./authService";
+
+// The active DataBackend. Which one (and its URL) is chosen in Admin Setup and remembered on the device.
+
+const CONFIG_STORAGE = 'securepatrol_backend';
+const LEGACY_SCRIPT_URL_STORAGE = 'google_script_url';
+
+// Build-time default (see vite.config.ts), so no deployment's URL is baked into the source
+const defaultConfig = (): BackendConfig => ({
+    kind: process.env.BACKEND_KIND === 'REST' ? 'REST' : 'SHEETS',
+    url: process.env.BACKEND_URL || ''
+});
+
+const loadConfig = (): BackendConfig => {
+    try {
+        const stored = localStorage.getItem(CONFIG_STORAGE);
+        if (stored) {
+            const parsed = JSON.parse(stored);
+            if ((parsed.kind === 'SHEETS' || parsed.kind === 'REST') && typeof parsed.url === 'string') return parsed;
+        }
+    } catch (e) {}
+    // Devices set up before backends were pluggable only stored the script URL
+    const legacyUrl = localStorage.getItem(LEGACY_SCRIPT_URL_STORAGE);
+    return legacyUrl ? { kind: 'SHEETS', url: legacyUrl } : defaultConfig();
+};
+
+const createBackend = (config: BackendConfig): DataBackend => config.kind === 'REST'
+    ? createRestBackend(config.url, config.apiToken, () => getStoredSession()?.backendSession)
+    : { ...createSheetsBackend(config.url), photoStorage: createDriveFolderAdapter(config.url) };
+
+let activeConfig = loadConfig();
+let activeBackend = createBackend(activeConfig);
+
+export const getBackend = (): DataBackend => activeBackend;
+
+export const getBackendConfig = (): BackendConfig => activeConfig;
+
+export const isBackendConfigured = (): boolean => !!activeConfig.url;
+
+export const setBackendConfig = (config: BackendConfig) => {
+    activeConfig = { ...config, url: config.url.trim(), apiToken: config.apiToken?.trim() || undefined };
+    activeBackend = createBackend(activeConfig);
+    localStorage.setItem(CONFIG_STORAGE, JSON.stringify(activeConfig));
+    localStorage.removeItem(LEGACY_SCRIPT_URL_STORAGE);
+};
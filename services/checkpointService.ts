@@ -0,0 +1,29 @@
+import { Checkpoint, PatrolRoute } from "../types";
+import { buildQrValue } from "../utils";
+
+// Checkpoint lifecycle. Archived checkpoints stay in the data so logs keep pointing at them,
+// but are no longer scanned, scheduled or offered in forms. Deleting is only for checkpoints
+// that never got a log (e.g. created by mistake); it leaves a tombstone like other records.
+
+export type TagStatus = 'ISSUED' | 'NOT_ISSUED' | 'NEEDS_REPRINT';
+
+export const getActiveCheckpoints = (checkpoints: Checkpoint[]): Checkpoint[] =>
+    checkpoints.filter(c => !c.archived);
+
+// What a tag encodes, without the signature: that differs on every signing but verifies the same.
+// Only the base URL, the checkpoint ID and the key version end up in the QR; names, location
+// and schedule do not, so editing those never makes a printed tag stale.
+export const tagIdentity = (baseUrl: string, checkpointId: string, keyVersion: number | null): string => {
+    const link = buildQrValue(baseUrl, checkpointId);
+    return keyVersion === null ? link : `${link}&kv=${keyVersion}`;
+};
+
+// Compares the recorded tag with what would be printed now (signed with `keyVersion`, if any)
+export const getTagStatus = (checkpoint: Checkpoint, baseUrl: string, keyVersion: number | null): TagStatus => {
+    if (!checkpoint.issuedTag) return 'NOT_ISSUED';
+    return checkpoint.issuedTag === tagIdentity(baseUrl, checkpoint.id, keyVersion) ? 'ISSUED' : 'NEEDS_REPRINT';
+};
+
+// Routes that visit the checkpoint; it cannot be archived or deleted while they do
+export const getRoutesUsing = (checkpointId: string, routes: PatrolRoute[]): PatrolRoute[] =>
+    routes.filter(r => r.checkpointIds.includes(checkpointId));
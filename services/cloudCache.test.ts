@@ -0,0 +1,104 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { spawn, ChildProcess } from 'node:child_process';
+import { Role, ScanLog, ScanStatus } from '../types';
+import { createSheetsBackend } from './sheetService';
+import { loadCloudCache, applyDelta, saveCloudCache } from './cloudCache';
+
+// Runs the Sheets backend and the refresh cache against server/mock-apps-script.js
+const SEEDED = 2500; // Three pages at PAGE_SIZE
+
+const startMock = (port: number, ...args: string[]): Promise<ChildProcess> => new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, ['server/mock-apps-script.js', ...args], { env: { ...process.env, PORT: String(port) } });
+    child.stdout?.on('data', (chunk: Buffer) => {
+        if (chunk.toString().includes('listening')) resolve(child);
+    });
+    child.on('error', reject);
+    child.on('exit', code => reject(new Error(`Mock exited with code ${code}`)));
+});
+
+const mocks: ChildProcess[] = [];
+const PORT = 18000 + Math.floor(Math.random() * 1000);
+const LEGACY_PORT = PORT + 1;
+
+beforeAll(async () => {
+    vi.stubGlobal('window', globalThis);
+    mocks.push(await startMock(PORT, '--seed-logs', String(SEEDED)));
+    mocks.push(await startMock(LEGACY_PORT, '--legacy', '--seed-logs', '10'));
+});
+
+afterAll(() => {
+    mocks.forEach(child => child.kill());
+    vi.unstubAllGlobals();
+});
+
+describe('incremental refresh against the mock Apps Script', () => {
+    const source = `sheets:http://localhost:${PORT}/`;
+    const backend = createSheetsBackend(`http://localhost:${PORT}/`);
+
+    it('follows page tokens, then carries the cursor into the next delta', async () => {
+        const fetchSpy = vi.spyOn(globalThis, 'fetch');
+        const full = await backend.fetchAll('UTC');
+        const pageUrls = fetchSpy.mock.calls.map(([url]) => String(url));
+        fetchSpy.mockRestore();
+
+        expect(full).not.toBeNull();
+        if (!full) return;
+        expect(full.delta).toBeFalsy();
+        expect(full.cursor).toBeTruthy();
+        expect(full.logs).toHaveLength(SEEDED);
+        expect(new Set(full.logs.map(log => log.id)).size).toBe(SEEDED);
+        expect(pageUrls).toHaveLength(3);
+        expect(pageUrls[0]).not.toContain('pageToken');
+        expect(pageUrls[1]).toContain('pageToken');
+        expect(pageUrls[2]).toContain('pageToken');
+
+        await saveCloudCache(source, full, full, null, 1000);
+        const cached = await loadCloudCache(source, 2000);
+        expect(cached?.cursor).toBe(full.cursor);
+        expect(cached?.snapshot.logs).toHaveLength(SEEDED);
+        if (!cached) return;
+
+        const edited: ScanLog = { ...full.logs[0], status: ScanStatus.LATE, note: 'Gate left open' };
+        expect(await backend.saveLog(edited)).toBe(true);
+        expect(await backend.addOfficer({ id: 'OFF-900', name: 'New Officer', role: Role.OFFICER })).toBe(true);
+
+        const delta = await backend.fetchAll('UTC', cached.cursor);
+        expect(delta?.delta).toBe(true);
+        expect(delta?.logs.map(log => log.id)).toEqual([edited.id]);
+        expect(delta?.officers.map(officer => officer.id)).toEqual(['OFF-900']);
+        if (!delta) return;
+
+        const merged = applyDelta(cached.snapshot, delta);
+        expect(merged.logs).toHaveLength(SEEDED);
+        expect(merged.logs.find(log => log.id === edited.id)?.note).toBe('Gate left open');
+        expect(merged.officers.some(officer => officer.id === 'OFF-900')).toBe(true);
+
+        await saveCloudCache(source, merged, delta, cached, 3000);
+        const refreshed = await loadCloudCache(source, 4000);
+        expect(refreshed?.cursor).toBe(delta.cursor);
+        expect(refreshed?.fullAt).toBe(1000); // Still due a full pull on the original schedule
+        expect(refreshed?.snapshot.logs).toHaveLength(SEEDED);
+        expect(refreshed?.snapshot.logs.find(log => log.id === edited.id)?.status).toBe(ScanStatus.LATE);
+
+        // Nothing changed since: an empty delta that keeps the cursor
+        const idle = await backend.fetchAll('UTC', delta.cursor);
+        expect(idle?.delta).toBe(true);
+        expect(idle?.logs).toEqual([]);
+        expect(idle?.cursor).toBe(delta.cursor);
+    });
+
+    it('falls back to whole snapshots when the script ignores cursors', async () => {
+        const legacySource = `sheets:http://localhost:${LEGACY_PORT}/`;
+        const legacy = createSheetsBackend(`http://localhost:${LEGACY_PORT}/`);
+
+        const reply = await legacy.fetchAll('UTC', 'stale-cursor');
+        expect(reply?.delta).toBeFalsy();
+        expect(reply?.cursor).toBeUndefined();
+        expect(reply?.logs).toHaveLength(10);
+        if (!reply) return;
+
+        await saveCloudCache(legacySource, reply, reply, null);
+        expect(await loadCloudCache(legacySource)).toBeNull();
+    });
+});
@@ -0,0 +1,75 @@
+import { ScanLog } from "../types";
+import { DataSnapshot } from "./dataBackend";
+import { STORES, idbGet, idbGetAll, idbPutMany } from "./localDb";
+
+// Device copy of the backend's data as of the last pull. Refreshes send its cursor and fold the
+// returned changes in here, so only new and edited rows travel. A backend that cannot do deltas
+// answers with everything and the copy is replaced.
+
+const FULL_REFRESH_MS = 24 * 60 * 60 * 1000; // Re-read everything daily, in case a delta was missed
+
+interface CacheMeta {
+    key: 'meta';
+    source: string; // Backend the copy came from; another backend starts over
+    cursor: string;
+    fullAt: number; // Last full (non-delta) pull
+}
+
+interface CacheRecords {
+    key: 'records';
+    snapshot: Omit<DataSnapshot, 'logs'>;
+}
+
+export interface CachedCloud {
+    snapshot: DataSnapshot;
+    cursor: string;
+    fullAt: number;
+}
+
+// Resolves to null when there is nothing usable: no cursor yet, another backend, or due a full pull
+export const loadCloudCache = async (source: string, now: number = Date.now()): Promise<CachedCloud | null> => {
+    try {
+        const meta = await idbGet<CacheMeta>(STORES.CLOUD_CACHE, 'meta');
+        if (!meta || meta.source !== source || !meta.cursor || now - meta.fullAt > FULL_REFRESH_MS) return null;
+        const records = await idbGet<CacheRecords>(STORES.CLOUD_CACHE, 'records');
+        if (!records) return null;
+        const logs = (await idbGetAll<ScanLog>(STORES.CLOUD_LOGS)).sort((a, b) => a.timestamp - b.timestamp);
+        return { snapshot: { ...records.snapshot, logs }, cursor: meta.cursor, fullAt: meta.fullAt };
+    } catch (error) {
+        console.warn("Cloud cache unavailable, fetching everything:", error);
+        return null;
+    }
+};
+
+const upsert = <T>(list: T[], changes: T[], key: (item: T) => string | number): T[] => {
+    if (changes.length === 0) return list;
+    const changed = new Map(changes.map(item => [key(item), item]));
+    return [...list.filter(item => !changed.has(key(item))), ...changes];
+};
+
+// The cached copy with a delta reply folded in
+export const applyDelta = (cached: DataSnapshot, delta: DataSnapshot): DataSnapshot => ({
+    logs: upsert(cached.logs, delta.logs, l => l.id),
+    logErrors: delta.logErrors, // Only the rows in this reply were read
+    officers: upsert(cached.officers, delta.officers, o => o.id),
+    checkpoints: upsert(cached.checkpoints, delta.checkpoints, c => c.id),
+    qrKeys: upsert(cached.qrKeys, delta.qrKeys, k => k.version),
+    routes: upsert(cached.routes, delta.routes, r => r.id),
+    incidents: upsert(cached.incidents, delta.incidents, i => i.id),
+    sosAlerts: upsert(cached.sosAlerts, delta.sosAlerts, a => a.id),
+    settings: delta.settings || cached.settings,
+    cursor: delta.cursor,
+    delta: false
+});
+
+// Stores a pull. `reply` is what the backend sent; `merged` the full copy after applyDelta.
+// Logs are written before the cursor, so a failed write leads to a re-fetch, not a gap.
+export const saveCloudCache = async (source: string, merged: DataSnapshot, reply: DataSnapshot, cached: CachedCloud | null, now: number = Date.now()): Promise<void> => {
+    if (!reply.cursor) return; // Backend without incremental fetch: nothing to resume from
+    const { logs, ...rest } = merged;
+    const deltaOf = reply.delta && cached ? cached : null; // The copy the reply was folded into
+    await idbPutMany(STORES.CLOUD_LOGS, deltaOf ? reply.logs : logs, !deltaOf);
+    const records: CacheRecords = { key: 'records', snapshot: rest };
+    const meta: CacheMeta = { key: 'meta', source, cursor: reply.cursor, fullAt: deltaOf ? deltaOf.fullAt : now };
+    await idbPutMany<CacheRecords | CacheMeta>(STORES.CLOUD_CACHE, [records, meta]);
+};
@@ -0,0 +1,104 @@
+import { ScanLog, User, Checkpoint, QrSigningKey, PatrolRoute, SiteSettings, Incident, SosAlert, Breadcrumb, PinCredential } from "../types";
+import { PhotoStorageAdapter } from "./photoStorage";
+
+// Where the site's data lives. Google Sheets (sheetService) and the self-hosted REST
+// server (restBackend) implement the same contract; backendService picks the active one.
+//
+// Auth: PIN hashes are write-only. Reads only say whether an officer has a PIN; to sign in,
+// the device fetches the officer's salt, hashes the PIN and lets the backend compare, which
+// also rate-limits guesses (authService). The REST server additionally requires a site API token,
+// and answers a correct PIN with a session that its admin-only writes require.
+
+export type BackendKind = 'SHEETS' | 'REST';
+
+export type PinCheck = 'OK' | 'WRONG_PIN' | 'LOCKED';
+
+export interface PinCheckReply {
+    result: PinCheck;
+    session?: string; // REST only, with OK: sent back on writes that need a signed-in role
+}
+
+export interface BackendConfig {
+    kind: BackendKind;
+    url: string; // Apps Script /exec URL, or the REST server's base URL
+    apiToken?: string; // REST only: sent as a Bearer token
+}
+
+export interface DataSnapshot {
+    logs: ScanLog[];
+    logErrors: string[]; // Log rows that failed validation and were left out
+    officers: User[];
+    checkpoints: Checkpoint[];
+    qrKeys: QrSigningKey[];
+    routes: PatrolRoute[];
+    incidents: Incident[];
+    sosAlerts: SosAlert[];
+    settings: Partial<SiteSettings> | null;
+    // Incremental fetch: pass `cursor` back as `since` to get only what changed after this
+    // snapshot. `delta` marks a reply that holds only those changes (settings always come whole).
+    cursor?: string;
+    delta?: boolean;
+}
+
+// Record lists in a raw snapshot reply, concatenated across pages
+export const SNAPSHOT_LISTS = ['logs', 'officers', 'checkpoints', 'qrKeys', 'routes', 'incidents', 'sos'];
+
+export const PAGE_SIZE = 1000;
+const MAX_PAGES = 500;
+
+// Follows nextPageToken until the last page. Lists are concatenated; the cursor is the last
+// page's. Resolves to null if any page fails, so a partial result is never taken for the whole.
+export const collectPages = async (fetchPage: (pageToken?: string) => Promise<any | null>): Promise<any | null> => {
+    let page = await fetchPage();
+    if (!page) return null;
+    const combined = { ...page };
+    for (let count = 1; page.nextPageToken; count++) {
+        if (count >= MAX_PAGES) {
+            console.error(`Snapshot has more than ${MAX_PAGES} pages; giving up`);
+            return null;
+        }
+        page = await fetchPage(String(page.nextPageToken));
+        if (!page) return null;
+        for (const key of SNAPSHOT_LISTS) {
+            if (Array.isArray(page[key])) combined[key] = [...(combined[key] || []), ...page[key]];
+        }
+        combined.cursor = page.cursor;
+    }
+    delete combined.nextPageToken;
+    return combined;
+};
+
+// Writes resolve to true once the backend confirmed them; reads resolve to null when unreachable.
+// Records are upserted by id. Deletions are tombstones (deleted: true) saved like any edit.
+export interface DataBackend {
+    kind: BackendKind;
+    testConnection: () => Promise<{ success: boolean; message: string }>;
+    // `timeZone` reads legacy zone-less timestamps when the backend has no site setting.
+    // With `since` (a previous cursor) the backend may reply with only the changes; check `delta`.
+    fetchAll: (timeZone: string, since?: string) => Promise<DataSnapshot | null>;
+    fetchSosAlerts: () => Promise<SosAlert[] | null>;
+    fetchBreadcrumbs: (officerId: string, shiftDate: string) => Promise<Breadcrumb[] | null>;
+
+    saveLog: (log: ScanLog) => Promise<boolean>;
+    addOfficer: (officer: User) => Promise<boolean>;
+    updateOfficer: (officer: User) => Promise<boolean>;
+    addCheckpoint: (checkpoint: Checkpoint) => Promise<boolean>;
+    updateCheckpoint: (checkpoint: Checkpoint) => Promise<boolean>;
+    saveRoute: (route: PatrolRoute) => Promise<boolean>;
+    saveQrKey: (key: QrSigningKey) => Promise<boolean>;
+    saveSettings: (settings: SiteSettings) => Promise<boolean>;
+    saveIncident: (incident: Incident) => Promise<boolean>;
+    saveSos: (alert: SosAlert) => Promise<boolean>;
+    saveBreadcrumbs: (points: Breadcrumb[]) => Promise<boolean>;
+
+    // PIN login. Reads resolve to null when unreachable or not supported (older Apps Scripts).
+    fetchPinSalt: (officerId: string) => Promise<{ pinSalt: string | null } | null>;
+    checkPin: (officerId: string, pinHash: string) => Promise<PinCheckReply | null>;
+    setOfficerPin: (officerId: string, credential: PinCredential) => Promise<boolean>;
+    // First run: whether any account has a PIN yet, and creating the first administrator,
+    // which the backend refuses once one exists
+    fetchSetupStatus: () => Promise<{ needsAdmin: boolean } | null>;
+    createFirstAdmin: (admin: User, credential: PinCredential) => Promise<boolean>;
+
+    photoStorage: PhotoStorageAdapter; // Evidence photos go next to the data
+}
@@ -0,0 +1,35 @@
+import { PhotoStorageAdapter } from "./photoStorage";
+import { postToScript } from "./sheetService";
+import { blobToBase64 } from "./photoService";
+
+// Stores evidence photos in the Drive folder configured in the Apps Script,
+// next to the Sheet. The script saves the file and answers with its Drive file id.
+
+const driveViewUrl = (fileId: string, width: number) =>
+    `https://drive.google.com/thumbnail?id=${encodeURIComponent(fileId)}&sz=w${width}`;
+
+export const createDriveFolderAdapter = (scriptUrl: string): PhotoStorageAdapter => ({
+    name: 'Google Drive folder',
+    upload: async (photo, fileName) => {
+        console.log("Uploading evidence photo to Drive...");
+        const reply = await postToScript(scriptUrl, {
+            action: "UPLOAD_PHOTO",
+            fileName,
+            mimeType: photo.type || 'image/jpeg',
+            data: await blobToBase64(photo)
+        });
+        if (!reply) return null;
+
+        if (reply.fileId) {
+            return {
+                url: reply.url || driveViewUrl(reply.fileId, 1600),
+                thumbnailUrl: reply.thumbnailUrl || driveViewUrl(reply.fileId, 200)
+            };
+        }
+        if (reply.url) return { url: reply.url, thumbnailUrl: reply.thumbnailUrl };
+
+        // A success reply without a file (e.g. a script that ignores UPLOAD_PHOTO) is not a stored photo
+        console.error("Photo upload not confirmed: script returned no file id");
+        return null;
+    }
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { parseGeofence, parseLocationPolicy } from './geofenceService';
+
+const TRIANGLE = [{ latitude: 1, longitude: 2 }, { latitude: 1.001, longitude: 2 }, { latitude: 1, longitude: 2.001 }];
+
+describe('parseGeofence', () => {
+    it('reads vertex objects and [lat, lng] pairs, as values or JSON text', () => {
+        expect(parseGeofence(TRIANGLE)).toEqual(TRIANGLE);
+        expect(parseGeofence(JSON.stringify(TRIANGLE.map(v => [v.latitude, v.longitude])))).toEqual(TRIANGLE);
+    });
+
+    it('rejects malformed input', () => {
+        expect(parseGeofence('')).toBeUndefined();
+        expect(parseGeofence('not json')).toBeUndefined();
+        expect(parseGeofence({ latitude: 1, longitude: 2 })).toBeUndefined();
+        expect(parseGeofence(TRIANGLE.slice(0, 2))).toBeUndefined();
+        expect(parseGeofence([...TRIANGLE.slice(0, 2), null])).toBeUndefined();
+        expect(parseGeofence([...TRIANGLE.slice(0, 2), 'x'])).toBeUndefined();
+        expect(parseGeofence([...TRIANGLE.slice(0, 2), [95, 2]])).toBeUndefined();
+    });
+});
+
+describe('parseLocationPolicy', () => {
+    it('reads a policy from an object or JSON text', () => {
+        expect(parseLocationPolicy({ mode: 'STRICT', weakAccuracyMeters: 40 })).toEqual({ mode: 'STRICT', weakAccuracyMeters: 40 });
+        expect(parseLocationPolicy('{"mode":"REQUIRE_PHOTO","weakAccuracyMeters":"60"}')).toEqual({ mode: 'REQUIRE_PHOTO', weakAccuracyMeters: 60 });
+    });
+
+    it('falls back to the default threshold when it is missing or not positive', () => {
+        expect(parseLocationPolicy({ mode: 'TRUST_QR_INDOORS', weakAccuracyMeters: -5 })?.weakAccuracyMeters).toBe(100);
+        expect(parseLocationPolicy({ mode: 'TRUST_QR_INDOORS' })?.weakAccuracyMeters).toBe(100);
+    });
+
+    it('rejects unknown modes and malformed input', () => {
+        expect(parseLocationPolicy({ mode: 'LENIENT' })).toBeUndefined();
+        expect(parseLocationPolicy('{')).toBeUndefined();
+        expect(parseLocationPolicy('')).toBeUndefined();
+        expect(parseLocationPolicy(['STRICT'])).toBeUndefined();
+        expect(parseLocationPolicy(null)).toBeUndefined();
+    });
+});
@@ -0,0 +1,179 @@
+import { Checkpoint, Coordinates, LocationPolicy, LocationPolicyMode } from "../types";
+import { calculateDistance } from "../utils";
+
+// Geofence checks. A checkpoint may carry a polygon (long buildings, fence lines);
+// without one the classic circle around its location applies.
+
+const EARTH_RADIUS_METERS = 6371e3;
+const MIN_VERTICES = 3;
+
+export interface GeofenceCheck {
+    inside: boolean;
+    // Circle: distance to the centre. Polygon: distance to the nearest edge, 0 when inside.
+    distance: number;
+    shape: 'CIRCLE' | 'POLYGON';
+}
+
+type Vec3 = [number, number, number];
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+const toUnitVector = (c: Coordinates): Vec3 => {
+    const lat = toRad(c.latitude);
+    const lon = toRad(c.longitude);
+    return [Math.cos(lat) * Math.cos(lon), Math.cos(lat) * Math.sin(lon), Math.sin(lat)];
+};
+
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+// Gnomonic projection onto the plane touching the sphere at `origin`. Great circles become
+// straight lines, so a planar test around the origin gives the exact answer on the sphere.
+const gnomonicProjector = (origin: Coordinates) => {
+    const p = toUnitVector(origin);
+    const lat = toRad(origin.latitude);
+    const lon = toRad(origin.longitude);
+    const east: Vec3 = [-Math.sin(lon), Math.cos(lon), 0];
+    const north: Vec3 = [-Math.sin(lat) * Math.cos(lon), -Math.sin(lat) * Math.sin(lon), Math.cos(lat)];
+    return (c: Coordinates): { x: number; y: number } | null => {
+        const v = toUnitVector(c);
+        const d = dot(v, p);
+        if (d <= 0) return null; // Over the horizon; no site fence is that large
+        return { x: (dot(v, east) / d) * EARTH_RADIUS_METERS, y: (dot(v, north) / d) * EARTH_RADIUS_METERS };
+    };
+};
+
+export const hasPolygon = (checkpoint: Checkpoint): boolean =>
+    Array.isArray(checkpoint.geofence) && checkpoint.geofence.length >= MIN_VERTICES;
+
+// Point-in-polygon on the sphere: edges are great-circle arcs, vertices in either winding order
+export const isInsidePolygon = (point: Coordinates, polygon: Coordinates[]): boolean => {
+    if (polygon.length < MIN_VERTICES) return false;
+    const project = gnomonicProjector(point);
+    const projected = polygon.map(project);
+    if (projected.some(v => v === null)) return false;
+    const vs = projected as { x: number; y: number }[];
+
+    // Even-odd ray cast from the origin (the point itself) along +x
+    let inside = false;
+    for (let i = 0, j = vs.length - 1; i < vs.length; j = i++) {
+        const a = vs[i];
+        const b = vs[j];
+        if ((a.y > 0) !== (b.y > 0)) {
+            const crossX = a.x + ((0 - a.y) * (b.x - a.x)) / (b.y - a.y);
+            if (crossX > 0) inside = !inside;
+        }
+    }
+    return inside;
+};
+
+// Shortest distance from the point to the polygon outline, in meters
+export const distanceToPolygonEdge = (point: Coordinates, polygon: Coordinates[]): number => {
+    const project = gnomonicProjector(point);
+    let best = Infinity;
+    polygon.forEach((vertex, i) => {
+        const a = project(vertex);
+        const b = project(polygon[(i + 1) % polygon.length]);
+        if (!a || !b) {
+            best = Math.min(best, calculateDistance(point, vertex));
+            return;
+        }
+        const dx = b.x - a.x;
+        const dy = b.y - a.y;
+        const lengthSq = dx * dx + dy * dy;
+        const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSq));
+        best = Math.min(best, Math.hypot(a.x + t * dx, a.y + t * dy));
+    });
+    return best;
+};
+
+// The polygon wins when set; the radius is the fallback
+export const checkGeofence = (point: Coordinates, checkpoint: Checkpoint): GeofenceCheck => {
+    if (hasPolygon(checkpoint)) {
+        const inside = isInsidePolygon(point, checkpoint.geofence!);
+        return { inside, distance: inside ? 0 : distanceToPolygonEdge(point, checkpoint.geofence!), shape: 'POLYGON' };
+    }
+    const distance = calculateDistance(point, checkpoint.location);
+    return { inside: distance <= checkpoint.allowedRadiusMeters, distance, shape: 'CIRCLE' };
+};
+
+// --- WEAK GPS POLICY ---
+
+export const DEFAULT_LOCATION_POLICY: LocationPolicy = { mode: 'TRUST_QR_INDOORS', weakAccuracyMeters: 100 };
+
+const POLICY_MODES: LocationPolicyMode[] = ['STRICT', 'TRUST_QR_INDOORS', 'REQUIRE_PHOTO'];
+
+// Policies and polygons arrive from sheet cells and pasted text, so nothing about their shape is assumed
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isPolicyMode = (value: unknown): value is LocationPolicyMode => POLICY_MODES.some(mode => mode === value);
+
+// Sheet cells hold JSON as text
+const parseJsonCell = (value: unknown): unknown => {
+    if (typeof value !== 'string') return value;
+    if (!value.trim()) return undefined;
+    try {
+        return JSON.parse(value);
+    } catch (e) {
+        return undefined;
+    }
+};
+
+export const getLocationPolicy = (checkpoint?: Checkpoint): LocationPolicy =>
+    checkpoint?.locationPolicy || DEFAULT_LOCATION_POLICY;
+
+export interface WeakGpsDecision {
+    isWeak: boolean;
+    acceptByQr: boolean; // Skip the geofence check: the tag vouches for the visit
+    photoRequired: boolean; // ...but only with a photo attached
+}
+
+// suspicious: the fix itself looks faked, so weak accuracy must not unlock the QR fallback
+export const decideWeakGps = (policy: LocationPolicy, accuracy: number, suspicious: boolean): WeakGpsDecision => {
+    const isWeak = accuracy > policy.weakAccuracyMeters;
+    const acceptByQr = isWeak && !suspicious && policy.mode !== 'STRICT';
+    return { isWeak, acceptByQr, photoRequired: acceptByQr && policy.mode === 'REQUIRE_PHOTO' };
+};
+
+export const parseLocationPolicy = (value: unknown): LocationPolicy | undefined => {
+    const raw = parseJsonCell(value);
+    if (!isRecord(raw) || !isPolicyMode(raw.mode)) return undefined;
+    const weakAccuracyMeters = Number(raw.weakAccuracyMeters);
+    return {
+        mode: raw.mode,
+        weakAccuracyMeters: Number.isFinite(weakAccuracyMeters) && weakAccuracyMeters > 0 ? weakAccuracyMeters : DEFAULT_LOCATION_POLICY.weakAccuracyMeters
+    };
+};
+
+// --- POLYGON INPUT ---
+
+// Accepts [{latitude, longitude}] or [[lat, lng]] (as pasted from map tools); anything else is rejected
+export const parseGeofence = (value: unknown): Coordinates[] | undefined => {
+    const raw = parseJsonCell(value);
+    if (!Array.isArray(raw) || raw.length < MIN_VERTICES) return undefined;
+    const vertices = raw.map((v: unknown): Coordinates => {
+        if (Array.isArray(v)) return { latitude: Number(v[0]), longitude: Number(v[1]) };
+        return isRecord(v) ? { latitude: Number(v.latitude), longitude: Number(v.longitude) } : { latitude: NaN, longitude: NaN };
+    });
+    const valid = vertices.every(v =>
+        Number.isFinite(v.latitude) && Number.isFinite(v.longitude) &&
+        Math.abs(v.latitude) <= 90 && Math.abs(v.longitude) <= 180);
+    return valid ? vertices : undefined;
+};
+
+const splitVertexLine = (line: string): string[] => line.split(/[,\s]+/).filter(Boolean);
+
+// Admin form text: one "lat, lng" vertex per line
+export const parseGeofenceText = (text: string): Coordinates[] | undefined => {
+    const lines = text.split('\n').map(splitVertexLine).filter(parts => parts.length > 0);
+    if (lines.some(parts => parts.length !== 2)) return undefined;
+    return parseGeofence(lines);
+};
+
+// Vertices typed so far, skipping unfinished lines; for previewing while editing
+export const readDraftVertices = (text: string): Coordinates[] =>
+    text.split('\n')
+        .map(splitVertexLine)
+        .filter(parts => parts.length === 2)
+        .map(([lat, lng]) => ({ latitude: Number(lat), longitude: Number(lng) }))
+        .filter(v => Number.isFinite(v.latitude) && Number.isFinite(v.longitude));
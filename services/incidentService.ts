@@ -0,0 +1,108 @@
+import { Incident, IncidentCategory, IncidentSeverity, IncidentStatus, ScanLog, ScanStatus, Checkpoint, Coordinates } from "../types";
+import { newLogId } from "./logSchema";
+
+// Incident lifecycle. Each report also produces an ISSUE_REPORTED log so it shows up
+// in the patrol timeline, the compliance figures and the CSV export like any scan.
+
+export const MAX_INCIDENT_PHOTOS = 3;
+
+export const CATEGORY_LABELS: Record<IncidentCategory, string> = {
+    [IncidentCategory.INTRUSION]: 'Intrusion',
+    [IncidentCategory.FIRE_HAZARD]: 'Fire Hazard',
+    [IncidentCategory.MAINTENANCE]: 'Maintenance',
+    [IncidentCategory.MEDICAL]: 'Medical'
+};
+
+export const SEVERITY_ORDER: IncidentSeverity[] = [
+    IncidentSeverity.LOW,
+    IncidentSeverity.MEDIUM,
+    IncidentSeverity.HIGH,
+    IncidentSeverity.CRITICAL
+];
+
+// What the form collects; everything else is filled in by createIncident
+export interface IncidentDraft {
+    category: IncidentCategory;
+    severity: IncidentSeverity;
+    description: string;
+    checkpointId?: string;
+    location?: Coordinates;
+}
+
+const NEXT_STATUS: Record<IncidentStatus, IncidentStatus | null> = {
+    OPEN: 'ACKNOWLEDGED',
+    ACKNOWLEDGED: 'RESOLVED',
+    RESOLVED: null
+};
+
+export const getNextStatus = (status: IncidentStatus): IncidentStatus | null => NEXT_STATUS[status];
+
+// Builds the incident and its ISSUE_REPORTED log, linked both ways
+export const createIncident = (
+    draft: IncidentDraft,
+    reportedBy: string,
+    checkpoints: Checkpoint[],
+    shiftDate: string,
+    now: number = Date.now()
+): { incident: Incident; log: ScanLog } => {
+    const checkpoint = draft.checkpointId ? checkpoints.find(c => c.id === draft.checkpointId) : undefined;
+    const incidentId = `inc-${now}`;
+    const logId = newLogId(now);
+
+    const incident: Incident = {
+        id: incidentId,
+        logId,
+        category: draft.category,
+        severity: draft.severity,
+        description: draft.description.trim(),
+        checkpointId: checkpoint?.id,
+        checkpointName: checkpoint?.name,
+        reportedBy,
+        reportedAt: now,
+        location: draft.location,
+        photoUrls: [],
+        status: 'OPEN'
+    };
+
+    const log: ScanLog = {
+        id: logId,
+        checkpointId: checkpoint?.id || "none",
+        checkpointName: checkpoint?.name || "Incident (no checkpoint)",
+        officerId: reportedBy,
+        timestamp: now,
+        shiftDate,
+        status: ScanStatus.ISSUE_REPORTED,
+        note: `[${CATEGORY_LABELS[draft.category]} · ${draft.severity}] ${incident.description}`,
+        userLocation: draft.location,
+        incidentId
+    };
+
+    return { incident, log };
+};
+
+// Moves an incident one step forward. Throws with a user-facing message on an invalid move.
+export const advanceIncident = (incident: Incident, to: IncidentStatus, by: string, note?: string, now: number = Date.now()): Incident => {
+    if (NEXT_STATUS[incident.status] !== to) {
+        throw new Error(`Cannot move an incident from ${incident.status} to ${to}.`);
+    }
+    if (to === 'ACKNOWLEDGED') {
+        return { ...incident, status: to, acknowledgedBy: by, acknowledgedAt: now };
+    }
+    return {
+        ...incident,
+        status: to,
+        resolvedBy: by,
+        resolvedAt: now,
+        resolutionNote: note?.trim() || undefined
+    };
+};
+
+// Open work first, then by severity, newest first
+export const sortIncidents = (incidents: Incident[]): Incident[] => {
+    const statusRank: Record<IncidentStatus, number> = { OPEN: 0, ACKNOWLEDGED: 1, RESOLVED: 2 };
+    return [...incidents].sort((a, b) =>
+        statusRank[a.status] - statusRank[b.status] ||
+        SEVERITY_ORDER.indexOf(b.severity) - SEVERITY_ORDER.indexOf(a.severity) ||
+        b.reportedAt - a.reportedAt
+    );
+};
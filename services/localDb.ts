@@ -0,0 +1,115 @@
+// Thin promise wrapper around IndexedDB for data that must survive reloads and offline periods.
+// localStorage is fine for small config, but queued scans (and later photos) need a real store.
+
+const DB_NAME = 'securepatrol';
+const DB_VERSION = 5;
+
+export const STORES = {
+    OUTBOX: 'outbox',
+    PHOTOS: 'photos', // Evidence photos waiting for upload, keyed by log id
+    SOS: 'sos', // Latest unsent state of each SOS alert, sent before anything else
+    BREADCRUMBS: 'breadcrumbs', // Shift tracker points waiting for the next batch upload
+    CLOUD_LOGS: 'cloud_logs', // Logs as of the last pull, so refreshes only fetch what changed
+    CLOUD_CACHE: 'cloud_cache' // The rest of the last pull and its cursor, keyed by name
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        if (!('indexedDB' in window)) {
+            reject(new Error('IndexedDB is not supported by your browser'));
+            return;
+        }
+
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+            const db = request.result;
+            if (!db.objectStoreNames.contains(STORES.OUTBOX)) {
+                db.createObjectStore(STORES.OUTBOX, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(STORES.PHOTOS)) {
+                db.createObjectStore(STORES.PHOTOS, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(STORES.SOS)) {
+                db.createObjectStore(STORES.SOS, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(STORES.BREADCRUMBS)) {
+                db.createObjectStore(STORES.BREADCRUMBS, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(STORES.CLOUD_LOGS)) {
+                db.createObjectStore(STORES.CLOUD_LOGS, { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains(STORES.CLOUD_CACHE)) {
+                db.createObjectStore(STORES.CLOUD_CACHE, { keyPath: 'key' });
+            }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            dbPromise = null; // Allow a retry on the next call
+            reject(request.error);
+        };
+    });
+
+    return dbPromise;
+};
+
+const runRequest = async <T>(store: StoreName, mode: IDBTransactionMode, action: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDb();
+    return new Promise((resolve, reject) => {
+        const tx = db.transaction(store, mode);
+        const request = action(tx.objectStore(store));
+        tx.oncomplete = () => resolve(request.result);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
+
+export const idbGetAll = <T>(store: StoreName): Promise<T[]> =>
+    runRequest<T[]>(store, 'readonly', s => s.getAll());
+
+export const idbGet = <T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> =>
+    runRequest<T | undefined>(store, 'readonly', s => s.get(key));
+
+export const idbPut = async <T>(store: StoreName, value: T): Promise<void> => {
+    await runRequest(store, 'readwrite', s => s.put(value));
+};
+
+export const idbDelete = async (store: StoreName, key: IDBValidKey): Promise<void> => {
+    await runRequest(store, 'readwrite', s => s.delete(key));
+};
+
+// One transaction for a whole batch, so a partly deleted batch cannot be uploaded twice
+export const idbDeleteMany = async (store: StoreName, keys: IDBValidKey[]): Promise<void> => {
+    if (keys.length === 0) return;
+    const db = await openDb();
+    await new Promise<void>((resolve, reject) => {
+        const tx = db.transaction(store, 'readwrite');
+        const objectStore = tx.objectStore(store);
+        keys.forEach(key => objectStore.delete(key));
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
+
+// One transaction for the whole list; `replace` empties the store first
+export const idbPutMany = async <T>(store: StoreName, values: T[], replace: boolean = false): Promise<void> => {
+    if (values.length === 0 && !replace) return;
+    const db = await openDb();
+    await new Promise<void>((resolve, reject) => {
+        const tx = db.transaction(store, 'readwrite');
+        const objectStore = tx.objectStore(store);
+        if (replace) objectStore.clear();
+        values.forEach(value => objectStore.put(value));
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { assessLocationRisk, LocationSample } from './locationRiskService';
+
+const NOW = Date.UTC(2026, 0, 5, 22, 0);
+
+const sample = (accuracy: number, offset = 0): LocationSample => ({
+    latitude: 51.5007123 + offset * 0.0000011,
+    longitude: -0.1245987 + offset * 0.0000013,
+    accuracy: accuracy + offset,
+    altitude: 12,
+    heading: null,
+    speed: 0,
+    timestamp: NOW - 3000 + offset * 1000
+});
+
+const fixes = (accuracy: number) => [sample(accuracy, 0), sample(accuracy, 1), sample(accuracy, 2)];
+
+describe('assessLocationRisk', () => {
+    it('scores a clean set of fixes zero', () => {
+        expect(assessLocationRisk(fixes(10), [], 100, NOW)).toEqual({ score: 0, reasons: [] });
+    });
+
+    it("flags weak GPS against the checkpoint's own threshold", () => {
+        const strict = assessLocationRisk(fixes(60), [], 50, NOW);
+        expect(strict.reasons).toContain('Weak GPS claimed (±60m)');
+        expect(strict.score).toBe(10);
+
+        const lenient = assessLocationRisk(fixes(60), [], 150, NOW);
+        expect(lenient.reasons).toEqual([]);
+    });
+});
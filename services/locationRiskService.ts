@@ -0,0 +1,128 @@
+import { Coordinates, ScanLog } from "../types";
+import { calculateDistance } from "../utils";
+
+// Mock-location heuristics. No single signal proves spoofing, so each one adds to a
+// 0-100 score and the reasons travel with the log for a supervisor to review.
+
+const SAMPLE_COUNT = 3;
+const SAMPLE_WINDOW_MS = 4000; // After the first fix, keep listening this long for more
+const FIRST_FIX_TIMEOUT_MS = 10000;
+
+const MAX_PLAUSIBLE_SPEED_MPS = 40; // ~145 km/h; anything faster between two scans is teleporting
+const MIN_TRAVEL_CHECK_METERS = 200; // Below this, fix noise dominates the speed estimate
+const ROUND_DECIMALS = 4; // Real fixes carry 6+ decimals; typed-in mock positions rarely do
+
+export const RISK_REVIEW_THRESHOLD = 50; // Scans at or above this are flagged on the dashboard
+
+export interface LocationSample extends Coordinates {
+    altitude: number | null;
+    heading: number | null;
+    speed: number | null;
+    timestamp: number;
+}
+
+export interface LocationRisk {
+    score: number;
+    reasons: string[];
+}
+
+const toSample = (position: GeolocationPosition): LocationSample => ({
+    latitude: position.coords.latitude,
+    longitude: position.coords.longitude,
+    accuracy: position.coords.accuracy,
+    altitude: position.coords.altitude,
+    heading: position.coords.heading,
+    speed: position.coords.speed,
+    timestamp: position.timestamp || Date.now()
+});
+
+// Collect a few fixes over a few seconds instead of trusting a single reading
+export const sampleFixes = (): Promise<LocationSample[]> => new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+        reject(new Error('Geolocation is not supported by your browser'));
+        return;
+    }
+    const samples: LocationSample[] = [];
+    let windowTimer: number | undefined;
+
+    const finish = (error?: Error) => {
+        navigator.geolocation.clearWatch(watchId);
+        window.clearTimeout(firstFixTimer);
+        window.clearTimeout(windowTimer);
+        if (samples.length > 0) resolve(samples);
+        else reject(error || new Error("GPS timed out. Move to open sky."));
+    };
+
+    const watchId = navigator.geolocation.watchPosition(
+        position => {
+            samples.push(toSample(position));
+            if (samples.length === 1) windowTimer = window.setTimeout(() => finish(), SAMPLE_WINDOW_MS);
+            if (samples.length >= SAMPLE_COUNT) finish();
+        },
+        error => finish(new Error(error.message)),
+        { enableHighAccuracy: true, timeout: FIRST_FIX_TIMEOUT_MS, maximumAge: 0 }
+    );
+    const firstFixTimer = window.setTimeout(() => {
+        if (samples.length === 0) finish();
+    }, FIRST_FIX_TIMEOUT_MS);
+});
+
+// The fix recorded on the log: the most accurate sample
+export const bestSample = (samples: LocationSample[]): LocationSample =>
+    samples.reduce((best, s) => (s.accuracy ?? Infinity) < (best.accuracy ?? Infinity) ? s : best);
+
+const isRound = (value: number) => {
+    const scaled = value * 10 ** ROUND_DECIMALS;
+    return Math.abs(scaled - Math.round(scaled)) < 1e-6;
+};
+
+const sameSpot = (a: Coordinates, b: Coordinates) => a.latitude === b.latitude && a.longitude === b.longitude;
+
+// previousScans: this officer's earlier logs, any order. weakAccuracyMeters: the scanned
+// checkpoint's weak GPS threshold (its location policy), the same one that decides the scan.
+export const assessLocationRisk = (samples: LocationSample[], previousScans: ScanLog[], weakAccuracyMeters: number, now: number = Date.now()): LocationRisk => {
+    const reasons: string[] = [];
+    let score = 0;
+    const add = (points: number, reason: string) => {
+        score += points;
+        reasons.push(reason);
+    };
+    const fix = bestSample(samples);
+
+    // 1. Jitter: a real receiver never reports the very same position and accuracy twice in a row
+    if (samples.length >= 2) {
+        const frozen = samples.every(s => sameSpot(s, samples[0]) && s.accuracy === samples[0].accuracy);
+        if (frozen) add(30, `No jitter across ${samples.length} fixes`);
+        const spread = Math.max(...samples.map(s => calculateDistance(s, fix)));
+        if (spread > Math.max(3 * (fix.accuracy || 0), 50)) add(20, `Fixes jumped ${Math.round(spread)}m within seconds`);
+    }
+
+    // 2. Travel speed since the officer's last located scan
+    const last = previousScans
+        .filter(l => l.userLocation && l.timestamp < now)
+        .sort((a, b) => b.timestamp - a.timestamp)[0];
+    if (last && last.userLocation) {
+        const meters = calculateDistance(last.userLocation, fix);
+        const seconds = Math.max((now - last.timestamp) / 1000, 1);
+        if (meters >= MIN_TRAVEL_CHECK_METERS && meters / seconds > MAX_PLAUSIBLE_SPEED_MPS) {
+            add(50, `Impossible travel: ${Math.round(meters)}m in ${Math.round(seconds)}s since ${last.checkpointName}`);
+        }
+    }
+
+    // 3. Hand-typed or replayed coordinates
+    if (isRound(fix.latitude) && isRound(fix.longitude)) add(25, "Suspiciously round coordinates");
+    const repeat = previousScans.find(l => l.userLocation && sameSpot(l.userLocation, fix));
+    if (repeat) add(35, `Exact same coordinates as the scan at ${repeat.checkpointName}`);
+
+    // 4. Fields a mock provider often leaves empty. Weak signals: wifi-only fixes lack them too.
+    if (samples.every(s => s.altitude === null)) add(10, "No altitude reported");
+    if (samples.every(s => s.heading === null && s.speed === null)) add(5, "No heading or speed reported");
+
+    // 5. Claiming weak GPS is what unlocks the "verified by QR" fallback
+    const accuracy = fix.accuracy || 0;
+    if (accuracy > weakAccuracyMeters) add(10, `Weak GPS claimed (±${Math.round(accuracy)}m)`);
+
+    return { score: Math.min(score, 100), reasons };
+};
+
+export const needsReview = (log: ScanLog): boolean => (log.riskScore || 0) >= RISK_REVIEW_THRESHOLD;
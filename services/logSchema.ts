@@ -0,0 +1,184 @@
+import { ScanLog, ScanStatus, Coordinates, RouteFlag } from "../types";
+import { parseTimestamp } from "../utils";
+
+// Versioned wire format for scan logs. Rows written by toLogRow read back through
+// parseLogRow into the same log, so ids survive a sheet round-trip and local and cloud
+// copies can be matched. Version 2 Logs sheet columns:
+//   schemaVersion, id, checkpointId, checkpointName, officerId, status, note, timestamp,
+//   timestampIso, shiftDate, latitude, longitude, accuracy, distanceFromTarget,
+//   evidencePhotoUrl, evidenceThumbnailUrl, routeId, roundId, routeFlags,
+//   skippedCheckpointIds, incidentId, scanMethod, riskScore, riskReasons
+// Rows without schemaVersion are version 1: no id, and userLocation in a single cell.
+
+export const LOG_SCHEMA_VERSION = 2;
+
+export type LogRow = Record<string, string | number>;
+
+export type LogRowResult = { log: ScanLog; error?: undefined } | { log?: undefined; error: string };
+
+const STATUSES = Object.values(ScanStatus) as string[];
+const ROUTE_FLAGS: RouteFlag[] = ['OUT_OF_ORDER', 'SKIPPED_STOPS', 'BEHIND_SCHEDULE'];
+const SCAN_METHODS = ['QR', 'NFC', 'MANUAL'];
+
+// Non-numeric on purpose: Sheets turns digit-only ids into numbers and may reformat them
+export const newLogId = (now: number = Date.now()): string =>
+    `log-${now}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const toLogRow = (log: ScanLog): LogRow => ({
+    schemaVersion: LOG_SCHEMA_VERSION,
+    id: log.id,
+    checkpointId: log.checkpointId,
+    checkpointName: log.checkpointName,
+    officerId: log.officerId,
+    status: log.status,
+    note: log.note || "",
+    timestamp: log.timestamp,
+    timestampIso: new Date(log.timestamp).toISOString(), // Readable, zone-explicit copy
+    shiftDate: log.shiftDate || "",
+    latitude: log.userLocation?.latitude ?? "",
+    longitude: log.userLocation?.longitude ?? "",
+    accuracy: log.userLocation?.accuracy ?? "",
+    distanceFromTarget: log.distanceFromTarget ?? "",
+    evidencePhotoUrl: log.evidencePhotoUrl || "",
+    evidenceThumbnailUrl: log.evidenceThumbnailUrl || "",
+    routeId: log.routeId || "",
+    roundId: log.roundId || "",
+    routeFlags: log.routeFlags ? JSON.stringify(log.routeFlags) : "",
+    skippedCheckpointIds: log.skippedCheckpointIds ? JSON.stringify(log.skippedCheckpointIds) : "",
+    incidentId: log.incidentId || "",
+    scanMethod: log.scanMethod || "",
+    riskScore: log.riskScore ?? "",
+    riskReasons: log.riskReasons ? JSON.stringify(log.riskReasons) : ""
+});
+
+const isBlank = (value: unknown) => value === undefined || value === null || value === "";
+
+const text = (value: unknown): string | undefined => isBlank(value) ? undefined : String(value);
+
+// Blank is undefined; anything else must be a finite number
+const optionalNumber = (value: unknown, field: string): number | undefined => {
+    if (isBlank(value)) return undefined;
+    const n = Number(value);
+    if (!Number.isFinite(n)) throw new Error(`${field} is not a number: ${JSON.stringify(value)}`);
+    return n;
+};
+
+// Arrays arrive as JSON text from the sheet and as arrays from JSON backends
+const stringList = (value: unknown, field: string): string[] | undefined => {
+    if (isBlank(value)) return undefined;
+    let list = value;
+    if (typeof value === 'string') {
+        try {
+            list = JSON.parse(value);
+        } catch (e) {
+            throw new Error(`${field} is not a JSON list: ${value.slice(0, 40)}`);
+        }
+    }
+    if (!Array.isArray(list)) throw new Error(`${field} is not a list`);
+    return list.map(String);
+};
+
+const toCoordinates = (latitude: unknown, longitude: unknown, accuracy: unknown): Coordinates | undefined => {
+    const lat = optionalNumber(latitude, 'latitude');
+    const lng = optionalNumber(longitude, 'longitude');
+    if (lat === undefined && lng === undefined) return undefined;
+    if (lat === undefined || lng === undefined) throw new Error("Location has only one of latitude and longitude");
+    if (Math.abs(lat) > 90 || Math.abs(lng) > 180) throw new Error(`Location out of range: ${lat}, ${lng}`);
+    return { latitude: lat, longitude: lng, accuracy: optionalNumber(accuracy, 'accuracy') };
+};
+
+// Version 1 kept the whole position in userLocation: an object, its JSON, or "lat, lng"
+const parseLegacyLocation = (value: unknown): Coordinates | undefined => {
+    if (isBlank(value)) return undefined;
+    if (typeof value === 'object') {
+        const v = value as Record<string, unknown>;
+        return toCoordinates(v.latitude, v.longitude, v.accuracy);
+    }
+    const raw = String(value).trim();
+    if (raw.startsWith('{')) {
+        try {
+            const v: Record<string, unknown> = JSON.parse(raw);
+            return toCoordinates(v.latitude, v.longitude, v.accuracy);
+        } catch (e) {
+            throw new Error(`userLocation is not valid JSON: ${raw.slice(0, 40)}`);
+        }
+    }
+    const parts = raw.split(',').map(p => p.trim());
+    if (parts.length !== 2) throw new Error(`userLocation is not "lat, lng": ${raw.slice(0, 40)}`);
+    return toCoordinates(parts[0], parts[1], undefined);
+};
+
+// Reads a sheet row (or a JSON record) back into a log. `timeZone` reads zone-less timestamps.
+export const parseLogRow = (row: any, timeZone: string): LogRowResult => {
+    try {
+        if (!row || typeof row !== 'object') throw new Error("Row is empty");
+        const version = isBlank(row.schemaVersion) ? 1 : Number(row.schemaVersion);
+        if (version !== 1 && version !== LOG_SCHEMA_VERSION) {
+            throw new Error(`Unsupported schemaVersion ${row.schemaVersion}. Update the app.`);
+        }
+
+        // Prefer the ISO copy: Sheets may have reformatted the epoch cell as a local date
+        const timestamp = parseTimestamp(row.timestampIso || row.timestamp, timeZone);
+        if (timestamp === null) throw new Error(`Unreadable timestamp: ${JSON.stringify(row.timestamp)}`);
+        if (!STATUSES.includes(row.status)) throw new Error(`Unknown status: ${JSON.stringify(row.status)}`);
+        const officerId = text(row.officerId);
+        if (!officerId) throw new Error("Missing officerId");
+
+        let id = text(row.id);
+        let checkpointId = text(row.checkpointId);
+        if (version >= 2) {
+            if (!id) throw new Error("Missing id");
+            if (!checkpointId) throw new Error("Missing checkpointId");
+        }
+        // Version 1 rows had no id: derive one that stays the same on every fetch
+        id = id || `legacy-${officerId}-${timestamp}`;
+
+        const userLocation = isBlank(row.latitude) && isBlank(row.longitude)
+            ? parseLegacyLocation(row.userLocation)
+            : toCoordinates(row.latitude, row.longitude, row.accuracy);
+
+        const routeFlags = stringList(row.routeFlags, 'routeFlags');
+        const unknownFlag = routeFlags?.find(f => !ROUTE_FLAGS.includes(f as RouteFlag));
+        if (unknownFlag) throw new Error(`Unknown route flag: ${unknownFlag}`);
+
+        return {
+            log: {
+                id,
+                checkpointId: checkpointId || "unknown", // Resolved by name by the caller when it can
+                checkpointName: text(row.checkpointName) || "",
+                officerId,
+                status: row.status as ScanStatus,
+                note: text(row.note),
+                timestamp,
+                userLocation,
+                distanceFromTarget: optionalNumber(row.distanceFromTarget, 'distanceFromTarget'),
+                shiftDate: text(row.shiftDate),
+                evidencePhotoUrl: text(row.evidencePhotoUrl),
+                evidenceThumbnailUrl: text(row.evidenceThumbnailUrl),
+                routeId: text(row.routeId),
+                roundId: text(row.roundId),
+                routeFlags: routeFlags as RouteFlag[] | undefined,
+                skippedCheckpointIds: stringList(row.skippedCheckpointIds, 'skippedCheckpointIds'),
+                incidentId: text(row.incidentId),
+                scanMethod: SCAN_METHODS.includes(row.scanMethod) ? row.scanMethod : undefined,
+                riskScore: optionalNumber(row.riskScore, 'riskScore'),
+                riskReasons: stringList(row.riskReasons, 'riskReasons')
+            }
+        };
+    } catch (error) {
+        return { error: error instanceof Error ? error.message : String(error) };
+    }
+};
+
+// Parses every row. Problems are reported as "<label> <n>: <reason>", n counting from firstRow.
+export const parseLogRows = (rows: unknown, timeZone: string, label: string, firstRow: number): { logs: ScanLog[]; errors: string[] } => {
+    const logs: ScanLog[] = [];
+    const errors: string[] = [];
+    if (!Array.isArray(rows)) return { logs, errors };
+    rows.forEach((row, index) => {
+        const result = parseLogRow(row, timeZone);
+        if (result.log) logs.push(result.log);
+        else errors.push(`${label} ${index + firstRow}: ${result.error}`);
+    });
+    return { logs, errors };
+};
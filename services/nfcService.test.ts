@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { isNfcSupported, startNfcScan, writeNfcTag } from './nfcService';
+
+// Stand-in for Chrome's NDEFReader: tests fire tags at the last reader created
+class FakeReader {
+    static last: FakeReader | null = null;
+    static scanError: Error | null = null;
+
+    onreading: ((event: { message: { records: { recordType: string; data?: DataView; encoding?: string }[] } }) => void) | null = null;
+    onreadingerror: ((event: unknown) => void) | null = null;
+    scanSignal?: AbortSignal;
+    writes: { message: unknown; options?: { signal?: AbortSignal; overwrite?: boolean } }[] = [];
+    write = vi.fn(async (message: unknown, options?: { signal?: AbortSignal; overwrite?: boolean }) => {
+        this.writes.push({ message, options });
+    });
+
+    constructor() {
+        FakeReader.last = this;
+    }
+
+    async scan(options?: { signal?: AbortSignal }) {
+        if (FakeReader.scanError) throw FakeReader.scanError;
+        this.scanSignal = options?.signal;
+    }
+
+    tap(records: { recordType: string; data?: DataView; encoding?: string }[]) {
+        this.onreading?.({ message: { records } });
+    }
+}
+
+const lastReader = (): FakeReader => {
+    if (!FakeReader.last) throw new Error('No reader was created');
+    return FakeReader.last;
+};
+
+const encoded = (text: string) => new DataView(new TextEncoder().encode(text).buffer);
+
+const TAG_URL = 'https://patrol.example/?checkpointId=cp-001&kv=1&sig=abc';
+
+describe('nfcService', () => {
+    beforeEach(() => {
+        FakeReader.last = null;
+        FakeReader.scanError = null;
+        vi.stubGlobal('window', globalThis);
+        vi.stubGlobal('NDEFReader', FakeReader);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+    });
+
+    it('is unsupported without NDEFReader', async () => {
+        vi.stubGlobal('window', {});
+        expect(isNfcSupported()).toBe(false);
+        await expect(startNfcScan(vi.fn(), vi.fn())).rejects.toThrow("NFC is not available");
+    });
+
+    describe('startNfcScan', () => {
+        it('passes on the link from a url record', async () => {
+            const onTag = vi.fn();
+            await startNfcScan(onTag, vi.fn());
+            lastReader().tap([{ recordType: 'url', data: encoded(TAG_URL) }]);
+            expect(onTag).toHaveBeenCalledWith(TAG_URL);
+        });
+
+        it('reads text records, skipping records without a link', async () => {
+            const onTag = vi.fn();
+            await startNfcScan(onTag, vi.fn());
+            lastReader().tap([
+                { recordType: 'mime', data: encoded('{}') },
+                { recordType: 'text', data: encoded('cp-002'), encoding: 'utf-8' }
+            ]);
+            expect(onTag).toHaveBeenCalledWith('cp-002');
+        });
+
+        it('reports a tag with no link on it', async () => {
+            const onTag = vi.fn();
+            const onError = vi.fn();
+            await startNfcScan(onTag, onError);
+            lastReader().tap([{ recordType: 'empty' }, { recordType: 'mime', data: encoded('x') }]);
+            expect(onTag).not.toHaveBeenCalled();
+            expect(onError).toHaveBeenCalledWith("This NFC tag has no checkpoint link on it.");
+        });
+
+        it('reports a reading error', async () => {
+            const onError = vi.fn();
+            await startNfcScan(vi.fn(), onError);
+            lastReader().onreadingerror?.({});
+            expect(onError).toHaveBeenCalledWith("Could not read the NFC tag. Hold the phone still against it.");
+        });
+
+        it('stops listening when the returned function is called', async () => {
+            const stop = await startNfcScan(vi.fn(), vi.fn());
+            expect(lastReader().scanSignal?.aborted).toBe(false);
+            stop();
+            expect(lastReader().scanSignal?.aborted).toBe(true);
+        });
+
+        it('rejects when the browser refuses to scan', async () => {
+            FakeReader.scanError = new Error('NotAllowedError');
+            await expect(startNfcScan(vi.fn(), vi.fn())).rejects.toThrow('NotAllowedError');
+        });
+    });
+
+    describe('writeNfcTag', () => {
+        it('writes the link as a url record, overwriting the tag', async () => {
+            await writeNfcTag(TAG_URL);
+            const [{ message, options }] = lastReader().writes;
+            expect(message).toEqual({ records: [{ recordType: 'url', data: TAG_URL }] });
+            expect(options?.overwrite).toBe(true);
+            expect(options?.signal?.aborted).toBe(false);
+        });
+
+        it('gives up when no tag is tapped in time', async () => {
+            vi.useFakeTimers();
+            const reader = new FakeReader();
+            reader.write.mockImplementation((_message, options) => new Promise((_resolve, reject) => {
+                options?.signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+            }));
+            vi.stubGlobal('NDEFReader', function () { return reader; });
+
+            const written = writeNfcTag(TAG_URL);
+            const outcome = expect(written).rejects.toThrow("No tag was tapped in time.");
+            await vi.advanceTimersByTimeAsync(30000);
+            await outcome;
+        });
+    });
+});
@@ -0,0 +1,75 @@
+// Web NFC (Chrome on Android). Tags carry the same deep-link URL as the printed QR,
+// signature included, so both paths share parsing and verification.
+// NDEFReader is looked up on each call rather than captured at load, so it can be swapped out.
+
+const WRITE_TIMEOUT_MS = 30000;
+
+interface NdefRecordLike {
+    recordType: string;
+    data?: DataView;
+    encoding?: string;
+}
+
+interface NdefReaderLike {
+    scan: (options?: { signal?: AbortSignal }) => Promise<void>;
+    write: (message: { records: { recordType: string; data: string }[] }, options?: { signal?: AbortSignal; overwrite?: boolean }) => Promise<void>;
+    onreading: ((event: { serialNumber?: string; message: { records: NdefRecordLike[] } }) => void) | null;
+    onreadingerror: ((event: unknown) => void) | null;
+}
+
+type NfcWindow = Window & { NDEFReader?: new () => NdefReaderLike };
+
+const createReader = (): NdefReaderLike | null => {
+    const Reader = (window as NfcWindow).NDEFReader;
+    return Reader ? new Reader() : null;
+};
+
+export const isNfcSupported = (): boolean => typeof window !== 'undefined' && 'NDEFReader' in window;
+
+// First URL or text record on the tag
+const readTagValue = (records: NdefRecordLike[]): string | null => {
+    for (const record of records) {
+        if (!record.data) continue;
+        if (record.recordType === 'url' || record.recordType === 'absolute-url' || record.recordType === 'text') {
+            return new TextDecoder(record.encoding || 'utf-8').decode(record.data);
+        }
+    }
+    return null;
+};
+
+// Listen for tags until the returned stop function is called. Rejects when the browser refuses,
+// e.g. NotAllowedError before the user has granted NFC permission with a tap.
+export const startNfcScan = async (
+    onTag: (value: string) => void,
+    onError: (message: string) => void
+): Promise<() => void> => {
+    const reader = createReader();
+    if (!reader) throw new Error("NFC is not available on this device.");
+
+    const controller = new AbortController();
+    reader.onreading = event => {
+        const value = readTagValue(event.message.records);
+        if (value) onTag(value);
+        else onError("This NFC tag has no checkpoint link on it.");
+    };
+    reader.onreadingerror = () => onError("Could not read the NFC tag. Hold the phone still against it.");
+    await reader.scan({ signal: controller.signal });
+    return () => controller.abort();
+};
+
+// Write a checkpoint URL to the next tag held against the phone
+export const writeNfcTag = async (url: string): Promise<void> => {
+    const reader = createReader();
+    if (!reader) throw new Error("NFC is not available on this device.");
+
+    const controller = new AbortController();
+    const timer = window.setTimeout(() => controller.abort(), WRITE_TIMEOUT_MS);
+    try {
+        await reader.write({ records: [{ recordType: 'url', data: url }] }, { signal: controller.signal, overwrite: true });
+    } catch (error) {
+        if (controller.signal.aborted) throw new Error("No tag was tapped in time.");
+        throw error;
+    } finally {
+        window.clearTimeout(timer);
+    }
+};
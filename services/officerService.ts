@@ -0,0 +1,26 @@
+import { User } from "../types";
+
+// Logs and incidents store the raw officer ID; names are looked up in the current profiles
+// when shown, so a renamed officer's history follows the new name. Records written before
+// that hold "Name (ID)" strings, which are still understood.
+
+const LEGACY_REF = /^(.*) \(([^()]+)\)$/;
+
+// Officer ID behind a stored reference, raw or legacy
+export const getOfficerId = (ref: string, officers: User[] = []): string => {
+    if (officers.some(o => o.id === ref)) return ref;
+    return LEGACY_REF.exec(ref)?.[2] ?? ref;
+};
+
+export const findOfficer = (officers: User[], ref: string): User | undefined => {
+    const id = getOfficerId(ref, officers);
+    return officers.find(o => o.id === id);
+};
+
+// "Name (ID)" from the current profile; unknown officers show what the record holds
+export const describeOfficer = (officers: User[], ref: string): string => {
+    const officer = findOfficer(officers, ref);
+    return officer ? `${officer.name} (${officer.id})` : ref;
+};
+
+export const isActiveOfficer = (officer: User): boolean => !officer.inactive;
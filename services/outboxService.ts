@@ -0,0 +1,231 @@
+import { ScanLog, SosAlert } from "../types";
+import { STORES, idbGetAll, idbPut, idbDelete } from "./localDb";
+import { getBackend } from "./backendService";
+import { savePendingPhoto, getPendingPhoto, deletePendingPhoto } from "./photoService";
+import { getPhotoStorageAdapter } from "./photoStorage";
+
+// Durable outbox for scan logs. Every scan is written here first, then uploaded.
+// Entries are only removed once the backend confirms the write, so scans made in
+// basements or car parks without signal survive reloads and are retried later.
+// SOS alerts use their own store and jump the queue: they are sent before every log
+// and retried every few seconds instead of backing off.
+
+export interface OutboxEntry {
+    id: string; // Same as log.id
+    log: ScanLog;
+    attempts: number;
+    nextAttemptAt: number;
+    lastError?: string;
+}
+
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 10 * 60 * 1000;
+const RETRY_MIN_MS = 1000;
+const SOS_RETRY_MS = 3000;
+
+interface SosOutboxEntry {
+    id: string; // Same as alert.id: a newer update replaces the unsent one
+    alert: SosAlert;
+}
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+
+const listeners = new Set<OutboxListener>();
+let flushing: Promise<void> | null = null;
+let retryTimer: number | null = null;
+
+// Exponential backoff with jitter: 5s, 10s, 20s ... capped at 10 minutes
+const getBackoffDelay = (attempts: number): number => {
+    const delay = Math.min(RETRY_BASE_MS * Math.pow(2, attempts - 1), RETRY_MAX_MS);
+    return delay * (0.8 + Math.random() * 0.4);
+};
+
+export const getOutboxEntries = async (): Promise<OutboxEntry[]> => {
+    try {
+        const entries = await idbGetAll<OutboxEntry>(STORES.OUTBOX);
+        return entries.sort((a, b) => a.log.timestamp - b.log.timestamp);
+    } catch (error) {
+        console.error("Outbox read failed:", error);
+        return [];
+    }
+};
+
+const notify = async () => {
+    const entries = await getOutboxEntries();
+    listeners.forEach(listener => listener(entries));
+    await scheduleRetry(entries);
+};
+
+const getSosEntries = async (): Promise<SosOutboxEntry[]> => {
+    try {
+        return await idbGetAll<SosOutboxEntry>(STORES.SOS);
+    } catch (error) {
+        console.error("SOS outbox read failed:", error);
+        return [];
+    }
+};
+
+const scheduleRetry = async (entries: OutboxEntry[]) => {
+    if (retryTimer !== null) {
+        window.clearTimeout(retryTimer);
+        retryTimer = null;
+    }
+    const sosPending = (await getSosEntries()).length > 0;
+    // Offline: nothing to do until the 'online' event fires
+    if ((entries.length === 0 && !sosPending) || !navigator.onLine) return;
+
+    const nextAt = sosPending ? Date.now() + SOS_RETRY_MS : Math.min(...entries.map(e => e.nextAttemptAt));
+    retryTimer = window.setTimeout(() => {
+        retryTimer = null;
+        flushOutbox();
+    }, Math.max(RETRY_MIN_MS, nextAt - Date.now()));
+};
+
+export const subscribeOutbox = (listener: OutboxListener): (() => void) => {
+    listeners.add(listener);
+    getOutboxEntries().then(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+};
+
+// The photo (if any) is stored first, so a log never waits in the outbox for a photo that was lost
+export const enqueueLog = async (log: ScanLog, photo?: Blob): Promise<void> => {
+    if (photo) await savePendingPhoto(log.id, photo);
+
+    const entry: OutboxEntry = {
+        id: log.id,
+        log: { ...log, syncState: 'PENDING', evidencePhotoPending: !!photo || undefined },
+        attempts: 0,
+        nextAttemptAt: Date.now()
+    };
+    await idbPut(STORES.OUTBOX, entry);
+    await notify();
+    flushOutbox();
+};
+
+// Queue the latest state of an SOS alert and send it right away
+export const enqueueSos = async (alert: SosAlert): Promise<void> => {
+    await idbPut<SosOutboxEntry>(STORES.SOS, { id: alert.id, alert });
+    flushOutbox();
+};
+
+// Sends every queued SOS update. Returns false if any is still waiting.
+const uploadSosEntries = async (): Promise<boolean> => {
+    let allSent = true;
+    for (const entry of await getSosEntries()) {
+        if (await getBackend().saveSos(entry.alert)) {
+            // Only clear it if no newer update was queued while this one was in flight
+            const latest = (await getSosEntries()).find(e => e.id === entry.id);
+            if (latest && latest.alert.updatedAt === entry.alert.updatedAt && latest.alert.status === entry.alert.status) {
+                await idbDelete(STORES.SOS, entry.id);
+            }
+        } else {
+            allSent = false;
+        }
+    }
+    return allSent;
+};
+
+const markFailed = async (entry: OutboxEntry, reason: string) => {
+    const attempts = entry.attempts + 1;
+    await idbPut(STORES.OUTBOX, {
+        ...entry,
+        log: { ...entry.log, syncState: 'FAILED' },
+        attempts,
+        nextAttemptAt: Date.now() + getBackoffDelay(attempts),
+        lastError: reason
+    });
+};
+
+// Uploads the entry's photo and records the URLs on the queued log, so a later retry of the
+// log does not upload the photo twice. Returns the updated entry, or null if not confirmed.
+const uploadPhoto = async (entry: OutboxEntry): Promise<OutboxEntry | null> => {
+    const photo = await getPendingPhoto(entry.id);
+    if (!photo) {
+        // Photo store was cleared: send the log without it rather than blocking it forever
+        console.warn("Evidence photo missing for queued log", entry.id);
+        const updated = { ...entry, log: { ...entry.log, evidencePhotoPending: undefined } };
+        await idbPut(STORES.OUTBOX, updated);
+        return updated;
+    }
+
+    const stored = await getPhotoStorageAdapter().upload(photo, `${entry.log.checkpointId}_${entry.id}.jpg`);
+    if (!stored) return null;
+
+    const updated: OutboxEntry = {
+        ...entry,
+        log: {
+            ...entry.log,
+            evidencePhotoPending: undefined,
+            evidencePhotoUrl: stored.url,
+            evidenceThumbnailUrl: stored.thumbnailUrl
+        }
+    };
+    await idbPut(STORES.OUTBOX, updated);
+    await deletePendingPhoto(entry.id);
+    return updated;
+};
+
+const uploadDueEntries = async (force: boolean) => {
+    try {
+        if (!navigator.onLine) return;
+
+        const now = Date.now();
+        const due = (await getOutboxEntries()).filter(e => force || e.nextAttemptAt <= now);
+
+        await uploadSosEntries();
+
+        for (let entry of due) {
+            // 1. Photo first: the log row must carry the stored photo's URL
+            if (entry.log.evidencePhotoPending) {
+                const uploaded = await uploadPhoto(entry);
+                if (!uploaded) {
+                    await markFailed(entry, 'Photo upload not confirmed');
+                    continue;
+                }
+                entry = uploaded;
+            }
+
+            // 2. Then the log itself
+            const { syncState, evidencePhotoPending, ...log } = entry.log;
+            const sent = await getBackend().saveLog(log);
+            if (sent) {
+                await idbDelete(STORES.OUTBOX, entry.id);
+            } else {
+                await markFailed(entry, 'Upload not confirmed by server');
+            }
+
+            // An SOS raised while this log was uploading goes out before the next one
+            await uploadSosEntries();
+        }
+    } catch (error) {
+        console.error("Outbox flush failed:", error);
+    }
+};
+
+// Upload every entry that is due. Pass force=true to ignore backoff (e.g. back online).
+export const flushOutbox = (force = false): Promise<void> => {
+    if (flushing) return flushing;
+
+    flushing = uploadDueEntries(force).finally(() => {
+        flushing = null;
+        return notify();
+    });
+    return flushing;
+};
+
+// Start background retries. Returns a cleanup function for useEffect.
+export const startOutboxSync = (): (() => void) => {
+    const handleOnline = () => flushOutbox(true);
+    window.addEventListener('online', handleOnline);
+    flushOutbox();
+
+    return () => {
+        window.removeEventListener('online', handleOnline);
+        if (retryTimer !== null) {
+            window.clearTimeout(retryTimer);
+            retryTimer = null;
+        }
+    };
+};
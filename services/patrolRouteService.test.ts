@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { PatrolRoute, ScanLog, ScanStatus } from '../types';
+import { getRoundProgress, evaluateRouteScan } from './patrolRouteService';
+
+const START = Date.UTC(2026, 0, 5, 22, 0);
+const MINUTE = 60000;
+
+const route: PatrolRoute = {
+    id: 'route-1',
+    name: 'Perimeter',
+    checkpointIds: ['cp-1', 'cp-2', 'cp-3'],
+    legMinutes: [0, 10, 10],
+    deadlineMinutes: 60
+};
+
+const scan = (checkpointId: string, minutes: number, status: ScanStatus = ScanStatus.VALID): ScanLog => ({
+    id: `log-${checkpointId}-${minutes}`,
+    checkpointId,
+    checkpointName: checkpointId,
+    officerId: 'OFF-001',
+    timestamp: START + minutes * MINUTE,
+    status,
+    routeId: route.id,
+    roundId: `round-${START}`
+});
+
+describe('getRoundProgress', () => {
+    it('finishes the round once the last stop is scanned', () => {
+        const progress = getRoundProgress(route, START, [scan('cp-1', 1), scan('cp-2', 11), scan('cp-3', 21)], START + 30 * MINUTE);
+        expect(progress.isFinished).toBe(true);
+        expect(progress.completion).toBe(1);
+        expect(progress.nextStopIndex).toBeNull();
+    });
+
+    it('does not count a failed scan at the last stop as a visit', () => {
+        const logs = [scan('cp-1', 1), scan('cp-2', 11), scan('cp-3', 21, ScanStatus.INVALID_LOCATION)];
+        const progress = getRoundProgress(route, START, logs, START + 30 * MINUTE);
+        expect(progress.isFinished).toBe(false);
+        expect(progress.visitedIds).toEqual(['cp-1', 'cp-2']);
+        expect(progress.nextStopIndex).toBe(2);
+        // The leg is timed from the last accepted scan
+        expect(progress.nextDueAt).toBe(START + 21 * MINUTE);
+    });
+
+    it('does not skip stops on the strength of a failed scan further on', () => {
+        const progress = getRoundProgress(route, START, [scan('cp-1', 1), scan('cp-3', 5, ScanStatus.INVALID_TAG)], START + 6 * MINUTE);
+        expect(progress.skippedIds).toEqual([]);
+        expect(progress.nextStopIndex).toBe(1);
+    });
+
+    it('counts late scans as visits', () => {
+        const progress = getRoundProgress(route, START, [scan('cp-1', 1), scan('cp-2', 11, ScanStatus.LATE), scan('cp-3', 21, ScanStatus.LATE)]);
+        expect(progress.isFinished).toBe(true);
+    });
+
+    it('expects the last stop again after a failed scan there', () => {
+        const logs = [scan('cp-1', 1), scan('cp-2', 11), scan('cp-3', 21, ScanStatus.INVALID_LOCATION)];
+        const round = { id: `round-${START}`, routeId: route.id, officerId: 'OFF-001', startedAt: START };
+        const verdict = evaluateRouteScan(route, round, logs, 'cp-3', {}, START + 22 * MINUTE);
+        expect(verdict?.flags).toEqual([]);
+        expect(verdict?.expectedCheckpointId).toBe('cp-3');
+    });
+});
@@ -0,0 +1,147 @@
+import { PatrolRoute, PatrolRound, ScanLog, RouteFlag, ScanStatus } from "../types";
+
+// Route logic is derived from the logs that carry a roundId, so any device
+// (officer phone or supervisor dashboard) reaches the same answer.
+
+// Walking times are estimates; only flag a leg once it runs this far over
+const LEG_SLACK_MINUTES = 5;
+
+export interface RoundProgress {
+    visitedIds: string[];
+    skippedIds: string[];
+    nextStopIndex: number | null; // null once the last stop has been scanned
+    nextDueAt: number | null;
+    deadlineAt: number;
+    completion: number; // 0..1, share of stops visited
+    isFinished: boolean;
+    isOverdue: boolean;
+    outOfOrderCount: number;
+}
+
+export interface RouteScanVerdict {
+    flags: RouteFlag[];
+    skippedIds: string[];
+    expectedCheckpointId: string | null;
+    note: string;
+}
+
+export const getRoundLogs = (logs: ScanLog[], roundId: string): ScanLog[] =>
+    logs.filter(l => l.roundId === roundId).sort((a, b) => a.timestamp - b.timestamp);
+
+// Only accepted scans visit a stop: a failed one (wrong place, bad tag) must not advance or close the round
+const VISIT_STATUSES = [ScanStatus.VALID, ScanStatus.LATE];
+
+export const getRoundProgress = (route: PatrolRoute, startedAt: number, roundLogs: ScanLog[], now: number = Date.now()): RoundProgress => {
+    const stops = route.checkpointIds;
+    const visits = roundLogs.filter(l => VISIT_STATUSES.includes(l.status));
+    const visited = new Set(visits.map(l => l.checkpointId).filter(id => stops.includes(id)));
+    const furthest = stops.reduce((max, id, idx) => visited.has(id) ? idx : max, -1);
+
+    const skippedIds = stops.slice(0, Math.max(furthest, 0)).filter(id => !visited.has(id));
+    const isFinished = furthest === stops.length - 1 || visited.size === stops.length;
+    const nextStopIndex = isFinished ? null : furthest + 1;
+
+    const lastScanAt = visits.length > 0 ? visits[visits.length - 1].timestamp : startedAt;
+    const nextDueAt = nextStopIndex === null
+        ? null
+        : lastScanAt + (nextStopIndex === 0 ? 0 : (route.legMinutes[nextStopIndex] || 0)) * 60000;
+
+    const deadlineAt = startedAt + route.deadlineMinutes * 60000;
+    const finishedAt = isFinished ? lastScanAt : now;
+
+    return {
+        visitedIds: stops.filter(id => visited.has(id)),
+        skippedIds,
+        nextStopIndex,
+        nextDueAt,
+        deadlineAt,
+        completion: stops.length > 0 ? visited.size / stops.length : 0,
+        isFinished,
+        isOverdue: finishedAt > deadlineAt,
+        outOfOrderCount: roundLogs.filter(l => l.routeFlags?.includes('OUT_OF_ORDER')).length
+    };
+};
+
+// Judge a scan against the round so far. Returns null if the checkpoint is not on the route.
+export const evaluateRouteScan = (
+    route: PatrolRoute,
+    round: PatrolRound,
+    roundLogs: ScanLog[],
+    checkpointId: string,
+    checkpointNames: Record<string, string>,
+    now: number = Date.now()
+): RouteScanVerdict | null => {
+    const idx = route.checkpointIds.indexOf(checkpointId);
+    if (idx === -1) return null;
+
+    const progress = getRoundProgress(route, round.startedAt, roundLogs, now);
+    const expectedIdx = progress.nextStopIndex;
+    const expectedCheckpointId = expectedIdx === null ? null : route.checkpointIds[expectedIdx];
+    const nameOf = (id: string) => checkpointNames[id] || id;
+
+    const flags: RouteFlag[] = [];
+    const notes: string[] = [];
+    let skippedIds: string[] = [];
+
+    if (progress.visitedIds.includes(checkpointId) || expectedIdx === null || idx < expectedIdx) {
+        flags.push('OUT_OF_ORDER');
+        notes.push(expectedCheckpointId ? `Out of order (expected ${nameOf(expectedCheckpointId)})` : 'Out of order (route already finished)');
+    } else if (idx > expectedIdx) {
+        skippedIds = route.checkpointIds.slice(expectedIdx, idx).filter(id => !progress.visitedIds.includes(id));
+        flags.push('SKIPPED_STOPS');
+        notes.push(`Skipped: ${skippedIds.map(nameOf).join(', ')}`);
+    }
+
+    const legLate = progress.nextDueAt !== null && now > progress.nextDueAt + LEG_SLACK_MINUTES * 60000;
+    if (legLate || now > progress.deadlineAt) {
+        flags.push('BEHIND_SCHEDULE');
+        notes.push(now > progress.deadlineAt ? 'Round deadline passed' : 'Behind route schedule');
+    }
+
+    return {
+        flags,
+        skippedIds,
+        expectedCheckpointId,
+        note: notes.length > 0 ? `Route "${route.name}": ${notes.join('; ')}` : `Route "${route.name}": stop ${idx + 1}/${route.checkpointIds.length}`
+    };
+};
+
+export interface RoundSummary {
+    roundId: string;
+    route: PatrolRoute;
+    officerId: string;
+    startedAt: number;
+    progress: RoundProgress;
+}
+
+// Round IDs are `round-<start epoch>`; fall back to the first scan for anything else
+const roundStartOf = (roundId: string, roundLogs: ScanLog[]): number => {
+    const match = /^round-(\d+)$/.exec(roundId);
+    return match ? Number(match[1]) : roundLogs[0].timestamp;
+};
+
+// One summary per round seen in the logs, newest first. Rounds whose route was deleted are left out.
+export const summarizeRounds = (logs: ScanLog[], routes: PatrolRoute[], now: number = Date.now()): RoundSummary[] => {
+    const byRound = new Map<string, ScanLog[]>();
+    logs.forEach(l => {
+        if (!l.roundId) return;
+        byRound.set(l.roundId, [...(byRound.get(l.roundId) || []), l]);
+    });
+
+    const summaries: RoundSummary[] = [];
+    byRound.forEach((entries, roundId) => {
+        const roundLogs = entries.sort((a, b) => a.timestamp - b.timestamp);
+        const route = routes.find(r => r.id === roundLogs[0].routeId);
+        if (!route) return;
+        const startedAt = roundStartOf(roundId, roundLogs);
+        summaries.push({
+            roundId,
+            route,
+            officerId: roundLogs[0].officerId,
+            startedAt,
+            progress: getRoundProgress(route, startedAt, roundLogs, now)
+        });
+    });
+
+    return summaries.sort((a, b) => b.startedAt - a.startedAt);
+};
@@ -0,0 +1,80 @@
+import { STORES, idbGet, idbPut, idbDelete } from "./localDb";
+
+// Evidence photos are downscaled and JPEG-compressed on the device before they are stored,
+// so a day of scans fits in IndexedDB and uploads on a weak mobile connection.
+
+const MAX_PHOTO_EDGE = 1280;
+const JPEG_QUALITY = 0.7;
+
+export interface PendingPhoto {
+    id: string; // Same as the log id
+    blob: Blob;
+    createdAt: number;
+}
+
+const encodeScaled = (source: CanvasImageSource, width: number, height: number): Promise<Blob> => {
+    const scale = Math.min(1, MAX_PHOTO_EDGE / Math.max(width, height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return Promise.reject(new Error("Could not process the photo on this device."));
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(
+            blob => blob ? resolve(blob) : reject(new Error("Could not compress the photo.")),
+            'image/jpeg',
+            JPEG_QUALITY
+        );
+    });
+};
+
+// Grab the current frame of a playing camera stream
+export const captureVideoFrame = (video: HTMLVideoElement): Promise<Blob> => {
+    if (!video.videoWidth || !video.videoHeight) {
+        return Promise.reject(new Error("Camera is not ready yet."));
+    }
+    return encodeScaled(video, video.videoWidth, video.videoHeight);
+};
+
+// Downscale a photo picked with the file input (full-resolution phone photos are several MB)
+export const compressImageFile = async (file: File): Promise<Blob> => {
+    if (!file.type.startsWith('image/')) throw new Error("Please choose an image file.");
+
+    const url = URL.createObjectURL(file);
+    try {
+        const img = new Image();
+        img.src = url;
+        await img.decode();
+        return await encodeScaled(img, img.naturalWidth, img.naturalHeight);
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
+
+export const blobToBase64 = (blob: Blob): Promise<string> =>
+    new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(String(reader.result).split(',')[1] || '');
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+
+// --- LOCAL STORE (photos waiting for upload) ---
+export const savePendingPhoto = (logId: string, blob: Blob): Promise<void> =>
+    idbPut<PendingPhoto>(STORES.PHOTOS, { id: logId, blob, createdAt: Date.now() });
+
+export const getPendingPhoto = async (logId: string): Promise<Blob | null> => {
+    try {
+        const photo = await idbGet<PendingPhoto>(STORES.PHOTOS, logId);
+        return photo ? photo.blob : null;
+    } catch (error) {
+        console.error("Photo read failed:", error);
+        return null;
+    }
+};
+
+export const deletePendingPhoto = (logId: string): Promise<void> =>
+    idbDelete(STORES.PHOTOS, logId);
@@ -0,0 +1,25 @@
+import { getBackend } from "./backendService";
+
+// Pluggable storage for evidence photos. The outbox uploads each photo through the active
+// adapter before sending its log, then stores the returned URLs on the log.
+
+export interface StoredPhoto {
+    url: string;
+    thumbnailUrl?: string;
+}
+
+export interface PhotoStorageAdapter {
+    name: string;
+    // Resolves to null when the upload was not confirmed; the outbox retries later
+    upload: (photo: Blob, fileName: string) => Promise<StoredPhoto | null>;
+}
+
+// By default photos go wherever the active backend keeps them (Drive next to the Sheet,
+// or the REST server's photo folder); set an adapter to send them elsewhere
+let overrideAdapter: PhotoStorageAdapter | null = null;
+
+export const setPhotoStorageAdapter = (adapter: PhotoStorageAdapter | null) => {
+    overrideAdapter = adapter;
+};
+
+export const getPhotoStorageAdapter = (): PhotoStorageAdapter => overrideAdapter || getBackend().photoStorage;
@@ -0,0 +1,139 @@
+import { QrSigningKey } from "../types";
+
+// Checkpoint tags carry an ECDSA P-256 signature over "<checkpointId>.<keyVersion>".
+// Only the admin device that rotated the key holds the private half; every scanner
+// verifies with the public keys synced from the backend, so a phone cannot mint tags
+// and guessed or hand-typed checkpoint IDs are rejected.
+
+const KEY_ALGORITHM: EcKeyGenParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const SIGN_ALGORITHM: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+const PRIVATE_KEY_STORAGE = 'securepatrol_qr_private_key';
+const SIGNING_STATE_STORAGE = 'securepatrol_qr_signing';
+
+interface StoredPrivateKey {
+    version: number;
+    privateKey: JsonWebKey;
+}
+
+export type TagVerdict = 'VALID' | 'UNSIGNED' | 'INVALID' | 'UNKNOWN_KEY' | 'REVOKED_KEY';
+
+// REQUIRED once the site has had a key; UNKNOWN on a device that has not synced yet
+export type SigningState = 'REQUIRED' | 'OFF' | 'UNKNOWN';
+
+const toBase64Url = (bytes: ArrayBuffer): string => {
+    let binary = '';
+    new Uint8Array(bytes).forEach(b => { binary += String.fromCharCode(b); });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string): Uint8Array => {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+    return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+const signedMessage = (checkpointId: string, keyVersion: number) =>
+    new TextEncoder().encode(`${checkpointId}.${keyVersion}`);
+
+const loadPrivateKey = (): StoredPrivateKey | null => {
+    try {
+        const saved = localStorage.getItem(PRIVATE_KEY_STORAGE);
+        return saved ? JSON.parse(saved) : null;
+    } catch (e) {
+        return null;
+    }
+};
+
+export const isSigningSupported = (): boolean => !!(window.crypto && window.crypto.subtle);
+
+// Key version this device can sign with, or null if it holds no private key
+export const getLocalSigningVersion = (): number | null => loadPrivateKey()?.version ?? null;
+
+export const getActiveKey = (keys: QrSigningKey[]): QrSigningKey | undefined =>
+    keys.filter(k => !k.revoked).sort((a, b) => b.version - a.version)[0];
+
+// Generate the next key version and hand its public half to `publish`. The private key stays on
+// this device, and is only kept once publishing succeeded: tags signed with a key scanners
+// never received would all read as INVALID_TAG.
+export const rotateSigningKey = async (existing: QrSigningKey[], publish: (key: QrSigningKey) => Promise<boolean>): Promise<QrSigningKey> => {
+    if (!isSigningSupported()) throw new Error("Signing requires HTTPS (Secure Context).");
+
+    const version = existing.reduce((max, k) => Math.max(max, k.version), 0) + 1;
+    const pair = await crypto.subtle.generateKey(KEY_ALGORITHM, true, ['sign', 'verify']);
+    const publicKey = await crypto.subtle.exportKey('jwk', pair.publicKey);
+    const privateKey = await crypto.subtle.exportKey('jwk', pair.privateKey);
+
+    const key: QrSigningKey = { version, publicKey, createdAt: Date.now() };
+    if (!await publish(key)) throw new Error("The new key could not be saved to the backend. Check the connection and try again.");
+
+    const stored: StoredPrivateKey = { version, privateKey };
+    localStorage.setItem(PRIVATE_KEY_STORAGE, JSON.stringify(stored));
+    recordSigningState([key]);
+    return key;
+};
+
+// Cloud keys merged into this device's by version. Revoking is one-way, so a key revoked on
+// either side stays revoked. `toPush` holds keys the cloud lacks or still shows as active.
+export const mergeQrKeys = (device: QrSigningKey[], cloud: QrSigningKey[]): { keys: QrSigningKey[]; toPush: QrSigningKey[] } => {
+    const byVersion = new Map(cloud.map(k => [k.version, k]));
+    const toPush: QrSigningKey[] = [];
+    for (const key of device) {
+        const cloudKey = byVersion.get(key.version);
+        if (cloudKey && (cloudKey.revoked || !key.revoked)) continue;
+        const merged = cloudKey ? { ...cloudKey, revoked: true } : key;
+        byVersion.set(key.version, merged);
+        toPush.push(merged);
+    }
+    return { keys: [...byVersion.values()].sort((a, b) => a.version - b.version), toPush };
+};
+
+// Whether scans must carry a valid signature. Stays REQUIRED once the site has had a key, even if
+// this device's key list is empty; without a backend there is no site to ask, so it is OFF.
+export const getSigningState = (keys: QrSigningKey[], hasBackend: boolean): SigningState => {
+    const recorded = localStorage.getItem(SIGNING_STATE_STORAGE);
+    if (keys.length > 0 || recorded === 'REQUIRED') return 'REQUIRED';
+    return recorded === 'OFF' || !hasBackend ? 'OFF' : 'UNKNOWN';
+};
+
+// Remembers what the backend's key list said, after each sync
+export const recordSigningState = (keys: QrSigningKey[]) => {
+    if (keys.length > 0) localStorage.setItem(SIGNING_STATE_STORAGE, 'REQUIRED');
+    else if (localStorage.getItem(SIGNING_STATE_STORAGE) !== 'REQUIRED') localStorage.setItem(SIGNING_STATE_STORAGE, 'OFF');
+};
+
+// Returns the signature for a checkpoint tag, or null if this device cannot sign
+export const signCheckpoint = async (checkpointId: string): Promise<{ keyVersion: number; signature: string } | null> => {
+    const stored = loadPrivateKey();
+    if (!stored || !isSigningSupported()) return null;
+
+    try {
+        const key = await crypto.subtle.importKey('jwk', stored.privateKey, KEY_ALGORITHM, false, ['sign']);
+        const signature = await crypto.subtle.sign(SIGN_ALGORITHM, key, signedMessage(checkpointId, stored.version));
+        return { keyVersion: stored.version, signature: toBase64Url(signature) };
+    } catch (error) {
+        console.error("QR signing failed:", error);
+        return null;
+    }
+};
+
+export const verifyCheckpointSignature = async (
+    keys: QrSigningKey[],
+    checkpointId: string,
+    keyVersion?: number,
+    signature?: string
+): Promise<TagVerdict> => {
+    if (keyVersion === undefined || !signature) return 'UNSIGNED';
+
+    const key = keys.find(k => k.version === keyVersion);
+    if (!key) return 'UNKNOWN_KEY';
+    if (key.revoked) return 'REVOKED_KEY';
+    if (!isSigningSupported()) return 'INVALID';
+
+    try {
+        const publicKey = await crypto.subtle.importKey('jwk', key.publicKey, KEY_ALGORITHM, false, ['verify']);
+        const ok = await crypto.subtle.verify(SIGN_ALGORITHM, publicKey, fromBase64Url(signature), signedMessage(checkpointId, keyVersion));
+        return ok ? 'VALID' : 'INVALID';
+    } catch (error) {
+        return 'INVALID';
+    }
+};
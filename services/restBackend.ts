@@ -0,0 +1,142 @@
+import { Breadcrumb, SosAlert } from "../types";
+import { DataBackend, DataSnapshot, collectPages, PAGE_SIZE } from "./dataBackend";
+import { parseLogRows } from "./logSchema";
+
+// DataBackend for the self-hosted server in /server (Node + SQLite). Plain JSON over CORS:
+// every write gets a real status code, and failures come back as { error: { code, message } }.
+
+const asArray = <T>(value: unknown): T[] => Array.isArray(value) ? value as T[] : [];
+const asRecord = (value: unknown): Record<string, unknown> =>
+    value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+// `getSession` returns the session the server issued at the current officer's sign-in, if any
+export const createRestBackend = (baseUrl: string, apiToken?: string, getSession: () => string | undefined = () => undefined): DataBackend => {
+    const root = baseUrl.replace(/\/+$/, '');
+
+    // Resolves to the parsed reply, or null on network failure or an error status
+    const request = async (method: string, path: string, body?: unknown, contentType = 'application/json'): Promise<Record<string, unknown> | null> => {
+        if (!root) return null;
+        const headers: Record<string, string> = {};
+        if (body !== undefined) headers['Content-Type'] = contentType;
+        if (apiToken) headers['Authorization'] = `Bearer ${apiToken}`;
+        const session = getSession();
+        if (session) headers['X-Session-Token'] = session;
+        try {
+            const response = await fetch(`${root}${path}`, {
+                method,
+                headers,
+                body: body === undefined ? undefined : body instanceof Blob ? body : JSON.stringify(body)
+            });
+            const text = await response.text();
+            let parsed: unknown = {};
+            try {
+                parsed = text ? JSON.parse(text) : {};
+            } catch (e) {
+                parsed = { error: { code: 'BAD_RESPONSE', message: text.slice(0, 200) } };
+            }
+            const reply = asRecord(parsed);
+            if (!response.ok) {
+                const error = asRecord(reply.error);
+                console.error(`Backend ${method} ${path} failed: HTTP ${response.status} ${error.code || ''} ${error.message || ''}`);
+                return null;
+            }
+            return reply;
+        } catch (error) {
+            console.error(`Backend ${method} ${path} unreachable:`, error);
+            return null;
+        }
+    };
+
+    const write = async (method: string, path: string, body?: unknown): Promise<boolean> =>
+        (await request(method, path, body)) !== null;
+
+    const id = (value: string | number) => encodeURIComponent(String(value));
+
+    return {
+        kind: 'REST',
+
+        testConnection: async () => {
+            if (!root) return { success: false, message: "No URL configured" };
+            const reply = await request('GET', '/api/health');
+            return reply
+                ? { success: true, message: `Connected to ${reply.name || 'server'}. Found ${asRecord(reply.counts).logs ?? 0} logs.` }
+                : { success: false, message: "Connection failed. Check the URL, the API token and the server's allowed origins." };
+        },
+
+        // The server stores what this client sent, so records come back already typed.
+        // Logs are still validated: they may have been written by an older or foreign client.
+        fetchAll: async (timeZone, since): Promise<DataSnapshot | null> => {
+            const data = await collectPages(pageToken => {
+                const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+                if (since) params.set('since', since);
+                if (pageToken) params.set('pageToken', pageToken);
+                return request('GET', `/api/snapshot?${params}`);
+            });
+            if (!data) return null;
+            const { logs, errors } = parseLogRows(data.logs, timeZone, "Log record", 1);
+            errors.forEach(message => console.warn(`Skipping ${message}`));
+            return {
+                logs,
+                logErrors: errors,
+                officers: asArray(data.officers),
+                checkpoints: asArray(data.checkpoints),
+                qrKeys: asArray(data.qrKeys),
+                routes: asArray(data.routes),
+                incidents: asArray(data.incidents),
+                sosAlerts: asArray(data.sos),
+                settings: data.settings && typeof data.settings === 'object' ? data.settings : null,
+                cursor: data.cursor ? String(data.cursor) : undefined,
+                delta: !!since && data.delta === true
+            };
+        },
+
+        fetchSosAlerts: async () => {
+            const data = await request('GET', '/api/sos');
+            return data ? asArray<SosAlert>(data.sos) : null;
+        },
+
+        fetchBreadcrumbs: async (officerId, shiftDate) => {
+            const data = await request('GET', `/api/breadcrumbs?officerId=${id(officerId)}&shiftDate=${id(shiftDate)}`);
+            return data ? asArray<Breadcrumb>(data.breadcrumbs) : null;
+        },
+
+        saveLog: log => write('PUT', `/api/logs/${id(log.id)}`, log),
+        addOfficer: officer => write('PUT', `/api/officers/${id(officer.id)}`, officer),
+        updateOfficer: officer => write('PUT', `/api/officers/${id(officer.id)}`, officer),
+        addCheckpoint: checkpoint => write('PUT', `/api/checkpoints/${id(checkpoint.id)}`, checkpoint),
+        updateCheckpoint: checkpoint => write('PUT', `/api/checkpoints/${id(checkpoint.id)}`, checkpoint),
+        saveRoute: route => write('PUT', `/api/routes/${id(route.id)}`, route),
+        saveQrKey: key => write('PUT', `/api/qr-keys/${id(key.version)}`, key),
+        saveSettings: settings => write('PUT', '/api/settings', settings),
+        saveIncident: incident => write('PUT', `/api/incidents/${id(incident.id)}`, incident),
+        saveSos: alert => write('PUT', `/api/sos/${id(alert.id)}`, alert),
+        saveBreadcrumbs: points => write('POST', '/api/breadcrumbs', { points }),
+
+        fetchPinSalt: async officerId => {
+            const reply = await request('GET', `/api/officers/${id(officerId)}/pin`);
+            return reply ? { pinSalt: typeof reply.pinSalt === 'string' ? reply.pinSalt : null } : null;
+        },
+        checkPin: async (officerId, pinHash) => {
+            const reply = await request('POST', '/api/login', { officerId, pinHash });
+            if (!reply || (reply.result !== 'OK' && reply.result !== 'WRONG_PIN' && reply.result !== 'LOCKED')) return null;
+            return { result: reply.result, session: typeof reply.session === 'string' ? reply.session : undefined };
+        },
+        setOfficerPin: (officerId, credential) => write('PUT', `/api/officers/${id(officerId)}/pin`, credential),
+        fetchSetupStatus: async () => {
+            const reply = await request('GET', '/api/setup');
+            return reply && typeof reply.needsAdmin === 'boolean' ? { needsAdmin: reply.needsAdmin } : null;
+        },
+        createFirstAdmin: (admin, credential) => write('POST', '/api/setup', { officer: admin, ...credential }),
+
+        photoStorage: {
+            name: 'Self-hosted server',
+            upload: async (photo, fileName) => {
+                const reply = await request('POST', `/api/photos?fileName=${id(fileName)}`, photo, photo.type || 'image/jpeg');
+                if (!reply || typeof reply.url !== 'string' || !reply.url) return null;
+                // Photo URLs are relative to the server, which may not share the app's origin
+                const absolute = (url: string) => /^https?:\/\//i.test(url) ? url : `${root}${url}`;
+                return { url: absolute(reply.url), thumbnailUrl: typeof reply.thumbnailUrl === 'string' && reply.thumbnailUrl ? absolute(reply.thumbnailUrl) : undefined };
+            }
+        }
+    };
+};
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { Checkpoint, ScanLog, ScanStatus } from '../types';
+import { getCheckpointSlots } from './scheduleService';
+
+const CLOCK = { shiftDayStart: '00:00', timeZone: 'UTC' };
+const DAY = Date.UTC(2026, 0, 5);
+const at = (hour: number, minute = 0) => DAY + (hour * 60 + minute) * 60000;
+
+const checkpoint: Checkpoint = {
+    id: 'cp-1',
+    name: 'Gate',
+    location: { latitude: 0, longitude: 0 },
+    allowedRadiusMeters: 50,
+    schedule: { type: 'FIXED_TIME', fixedTimes: ['08:00'], toleranceMinutes: 15, lateGraceMinutes: 15 }
+};
+
+const log = (minute: number, status: ScanStatus): ScanLog => ({
+    id: `log-${status}-${minute}`,
+    checkpointId: checkpoint.id,
+    checkpointName: checkpoint.name,
+    officerId: 'OFF-001',
+    timestamp: at(8, minute),
+    status
+});
+
+describe('getCheckpointSlots', () => {
+    it('fills a slot with a scan inside the window', () => {
+        const [slot] = getCheckpointSlots(checkpoint, [log(5, ScanStatus.VALID)], DAY, at(12), CLOCK);
+        expect(slot.status).toBe('ON_TIME');
+    });
+
+    it('marks a scan during the grace period late', () => {
+        const [slot] = getCheckpointSlots(checkpoint, [log(20, ScanStatus.LATE)], DAY, at(12), CLOCK);
+        expect(slot.status).toBe('LATE');
+    });
+
+    it('leaves the slot missed when only an incident was reported', () => {
+        const [slot] = getCheckpointSlots(checkpoint, [log(5, ScanStatus.ISSUE_REPORTED)], DAY, at(12), CLOCK);
+        expect(slot.status).toBe('MISSED');
+        expect(slot.matchedLogId).toBeUndefined();
+    });
+});
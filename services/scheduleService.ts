@@ -0,0 +1,248 @@
+import { Checkpoint, ScanLog, ScanStatus, ScheduleConfig, SiteSettings } from "../types";
+import { getDeviceTimeZone, getZonedParts, zonedTimeToEpoch } from "../utils";
+
+// Schedule engine: expands each checkpoint's schedule into the slots expected on a day
+// and matches them against the scan logs. Everything is derived from logs, like routes.
+
+const DEFAULT_TOLERANCE_MINUTES = 10;
+const DEFAULT_LATE_GRACE_MINUTES = 0;
+const MINUTES_PER_DAY = 24 * 60;
+
+// ON_TIME / LATE / MISSED are final; OPEN means the window is running now, UPCOMING has not started
+export type SlotStatus = 'ON_TIME' | 'LATE' | 'MISSED' | 'OPEN' | 'UPCOMING';
+
+export interface ScheduleSlot {
+    checkpointId: string;
+    checkpointName: string;
+    dueAt: number;
+    windowStart: number; // On-time window, inclusive
+    windowEnd: number;
+    lateUntil: number; // End of the grace period: a scan after windowEnd but before this still fills the slot, as LATE
+    status: SlotStatus;
+    matchedLogId?: string;
+    scannedAt?: number;
+}
+
+export interface CheckpointCompliance {
+    checkpointId: string;
+    checkpointName: string;
+    onTime: number;
+    late: number;
+    missed: number;
+    remaining: number; // OPEN + UPCOMING
+}
+
+// Scans that prove an officer was at the checkpoint in time to count. Incident reports are left
+// out: they are filed from a form without a tag, signature or geofence check.
+const COUNTS_AS_VISIT = new Set<ScanStatus>([ScanStatus.VALID, ScanStatus.LATE]);
+
+const parseClock = (value: string): number | null => {
+    const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+    if (!match) return null;
+    const minutes = Number(match[1]) * 60 + Number(match[2]);
+    return minutes < MINUTES_PER_DAY ? minutes : null;
+};
+
+// Site clock used for every schedule calculation
+export type SiteClock = Pick<SiteSettings, 'shiftDayStart' | 'timeZone'>;
+
+const deviceClock = (): SiteClock => ({ shiftDayStart: '00:00', timeZone: getDeviceTimeZone() });
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatClock = (timestamp: number, timeZone: string): string => {
+    const p = getZonedParts(timestamp, timeZone);
+    return `${String(p.hour).padStart(2, '0')}:${String(p.minute).padStart(2, '0')}`;
+};
+
+// Shift date: the calendar day (in the site zone) on which the shift containing `timestamp` started,
+// encoded as that day's UTC midnight so it can be compared and stepped without zone math.
+// With a shift day starting at 18:00, a 02:00 scan belongs to the previous date's night shift.
+export const shiftDateOf = (timestamp: number, clock: SiteClock = deviceClock()): number => {
+    const startMinutes = parseClock(clock.shiftDayStart) ?? 0;
+    const p = getZonedParts(timestamp, clock.timeZone);
+    const date = Date.UTC(p.year, p.month - 1, p.day);
+    return p.hour * 60 + p.minute < startMinutes ? date - DAY_MS : date;
+};
+
+const addDays = (shiftDate: number, days: number): number => shiftDate + days * DAY_MS;
+
+// Wall-clock minutes after the shift date's midnight in the site zone; values past 24h roll into the next day
+const atClock = (shiftDate: number, minutes: number, timeZone: string): number => {
+    const d = new Date(shiftDate);
+    return zonedTimeToEpoch(d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate(), minutes, timeZone);
+};
+
+// "YYYY-MM-DD" label stored on logs
+export const formatShiftDate = (shiftDate: number): string => new Date(shiftDate).toISOString().slice(0, 10);
+
+interface SlotWindow {
+    dueAt: number;
+    windowStart: number;
+    windowEnd: number;
+    graceEnd: number;
+}
+
+const toleranceOf = (schedule: ScheduleConfig): number => schedule.toleranceMinutes ?? DEFAULT_TOLERANCE_MINUTES;
+const graceOf = (schedule: ScheduleConfig): number => schedule.lateGraceMinutes ?? DEFAULT_LATE_GRACE_MINUTES;
+
+// Day-of-week rules are checked against the shift date, so a Saturday night shift stays "Saturday" after midnight
+const appliesOn = (days: number[] | undefined, weekday: number): boolean => !days || days.length === 0 || days.includes(weekday);
+
+// Windows for one shift date, which runs for 24h from `shiftDayStart`.
+// FIXED_TIME: due at each clock time, on time within +/- tolerance, late during the grace period after that.
+// Times earlier than the shift start fall after midnight, at the end of the shift.
+// INTERVAL: the shift is cut into periods from its start; each period needs one scan, due at its end.
+const expandWindows = (schedule: ScheduleConfig, shiftDate: number, clock: SiteClock): SlotWindow[] => {
+    const weekday = new Date(shiftDate).getUTCDay();
+    if (!appliesOn(schedule.activeDays, weekday)) return [];
+
+    const startMinutes = parseClock(clock.shiftDayStart) ?? 0;
+    const toleranceMs = toleranceOf(schedule) * 60000;
+    const graceMs = graceOf(schedule) * 60000;
+
+    if (schedule.type === 'FIXED_TIME') {
+        return (schedule.fixedTimes || [])
+            .filter(time => appliesOn(schedule.fixedTimeDays?.[time], weekday))
+            .map(parseClock)
+            .filter((m): m is number => m !== null)
+            .map(m => m >= startMinutes ? m : m + MINUTES_PER_DAY)
+            .sort((a, b) => a - b)
+            .map(offset => {
+                const dueAt = atClock(shiftDate, offset, clock.timeZone);
+                return { dueAt, windowStart: dueAt - toleranceMs, windowEnd: dueAt + toleranceMs, graceEnd: dueAt + toleranceMs + graceMs };
+            });
+    }
+
+    if (schedule.type === 'INTERVAL' && schedule.intervalMinutes && schedule.intervalMinutes > 0) {
+        const windows: SlotWindow[] = [];
+        const shiftEnd = startMinutes + MINUTES_PER_DAY;
+        for (let start = startMinutes; start < shiftEnd; start += schedule.intervalMinutes) {
+            const dueAt = atClock(shiftDate, Math.min(start + schedule.intervalMinutes, shiftEnd), clock.timeZone);
+            windows.push({
+                dueAt,
+                windowStart: atClock(shiftDate, start, clock.timeZone),
+                windowEnd: dueAt + toleranceMs,
+                graceEnd: dueAt + toleranceMs + graceMs
+            });
+        }
+        return windows;
+    }
+
+    return [];
+};
+
+// Slots expected for one checkpoint on the shift containing `day`, matched against its logs.
+// Each scan fills at most one slot; the earliest open slot wins.
+export const getCheckpointSlots = (
+    checkpoint: Checkpoint,
+    logs: ScanLog[],
+    day: number,
+    now: number = Date.now(),
+    clock: SiteClock = deviceClock()
+): ScheduleSlot[] => {
+    if (!checkpoint.schedule || checkpoint.schedule.type === 'NONE') return [];
+
+    const windows = expandWindows(checkpoint.schedule, shiftDateOf(day, clock), clock);
+    const visits = logs
+        .filter(l => l.checkpointId === checkpoint.id && COUNTS_AS_VISIT.has(l.status))
+        .sort((a, b) => a.timestamp - b.timestamp);
+    const used = new Set<string>();
+
+    return windows.map((w, idx) => {
+        // The grace period stops where the next slot opens, so a late scan never takes an on-time one's place
+        const { graceEnd, ...window } = w;
+        const lateUntil = idx + 1 < windows.length ? Math.max(w.windowEnd, Math.min(graceEnd, windows[idx + 1].windowStart)) : graceEnd;
+        const match = visits.find(l => !used.has(l.id) && l.timestamp >= w.windowStart && (l.timestamp <= w.windowEnd || l.timestamp < lateUntil));
+
+        let status: SlotStatus;
+        if (match) {
+            used.add(match.id);
+            status = match.timestamp <= w.windowEnd ? 'ON_TIME' : 'LATE';
+        } else if (now < w.windowStart) {
+            status = 'UPCOMING';
+        } else if (now <= lateUntil) {
+            status = 'OPEN';
+        } else {
+            status = 'MISSED';
+        }
+
+        return {
+            checkpointId: checkpoint.id,
+            checkpointName: checkpoint.name,
+            ...window,
+            lateUntil,
+            status,
+            matchedLogId: match?.id,
+            scannedAt: match?.timestamp
+        };
+    });
+};
+
+export const getDailySlots = (
+    checkpoints: Checkpoint[],
+    logs: ScanLog[],
+    day: number = Date.now(),
+    now: number = Date.now(),
+    clock: SiteClock = deviceClock()
+): ScheduleSlot[] =>
+    checkpoints
+        .flatMap(cp => getCheckpointSlots(cp, logs, day, now, clock))
+        .sort((a, b) => a.dueAt - b.dueAt);
+
+// Slots that should have been scanned by now but were not: missed outright, or past due and still open
+export const getOverdueSlots = (slots: ScheduleSlot[], now: number = Date.now()): ScheduleSlot[] =>
+    slots.filter(s => s.status === 'MISSED' || (s.status === 'OPEN' && now > s.dueAt));
+
+export const summarizeCompliance = (slots: ScheduleSlot[]): CheckpointCompliance[] => {
+    const byCheckpoint = new Map<string, CheckpointCompliance>();
+    slots.forEach(s => {
+        const entry = byCheckpoint.get(s.checkpointId) || {
+            checkpointId: s.checkpointId, checkpointName: s.checkpointName, onTime: 0, late: 0, missed: 0, remaining: 0
+        };
+        if (s.status === 'ON_TIME') entry.onTime++;
+        else if (s.status === 'LATE') entry.late++;
+        else if (s.status === 'MISSED') entry.missed++;
+        else entry.remaining++;
+        byCheckpoint.set(s.checkpointId, entry);
+    });
+    return Array.from(byCheckpoint.values());
+};
+
+export type ScanTimeVerdict = 'ON_TIME' | 'LATE' | 'INVALID';
+
+// Plain-language rule for officers, built from the checkpoint's real schedule values
+export const describeScanWindow = (schedule: ScheduleConfig | undefined): string => {
+    if (schedule?.type !== 'FIXED_TIME' || !schedule.fixedTimes?.length) return "This checkpoint can be scanned at any time.";
+    const grace = graceOf(schedule);
+    const rule = `Scan within +/- ${toleranceOf(schedule)} mins of ${schedule.fixedTimes.join(', ')}.`;
+    return grace > 0 ? `${rule} Up to ${grace} mins after that counts as late.` : rule;
+};
+
+// On-scan time test for a checkpoint. Only FIXED_TIME can reject a scan: an INTERVAL period
+// is always running, so interval gaps show up as missed slots instead.
+// Windows from the neighbouring shifts are included so a 23:55 slot still accepts a 00:03 scan.
+export const checkScanTime = (
+    schedule: ScheduleConfig | undefined,
+    timestamp: number,
+    clock: SiteClock = deviceClock()
+): { verdict: ScanTimeVerdict; note: string } => {
+    if (schedule?.type !== 'FIXED_TIME' || !schedule.fixedTimes?.length) return { verdict: 'ON_TIME', note: "" };
+
+    const shiftDate = shiftDateOf(timestamp, clock);
+    const windows = [-1, 0, 1].flatMap(offset => expandWindows(schedule, addDays(shiftDate, offset), clock));
+    if (windows.some(w => timestamp >= w.windowStart && timestamp <= w.windowEnd)) {
+        return { verdict: 'ON_TIME', note: "" };
+    }
+
+    const lateFor = windows.find(w => timestamp > w.windowEnd && timestamp <= w.graceEnd);
+    if (lateFor) {
+        const minutesLate = Math.ceil((timestamp - lateFor.dueAt) / 60000);
+        return { verdict: 'LATE', note: `Late by ${minutesLate} min for the ${formatClock(lateFor.dueAt, clock.timeZone)} check` };
+    }
+
+    return {
+        verdict: 'INVALID',
+        note: `Wrong Time. Schedule: ${schedule.fixedTimes.join(', ')} (+/- ${toleranceOf(schedule)}m)`
+    };
+};
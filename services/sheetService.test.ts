@@ -0,0 +1,41 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { postToScript } from './sheetService';
+
+const URL = 'https://script.example/exec';
+
+const replyWith = (body: string, status = 200) =>
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(body, { status })));
+
+describe('postToScript', () => {
+    afterEach(() => {
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it('resolves to the reply when the script confirms the write', async () => {
+        replyWith(JSON.stringify({ status: 'success', fileId: 'abc' }));
+        expect(await postToScript(URL, { action: 'LOG' })).toEqual({ status: 'success', fileId: 'abc' });
+    });
+
+    it('treats an HTML page served with a 200 as not written', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        replyWith('<html><body>Service invoked too many times</body></html>');
+        expect(await postToScript(URL, { action: 'LOG' })).toBeNull();
+    });
+
+    it('treats plain text and JSON without a success status as not written', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        replyWith('OK');
+        expect(await postToScript(URL, { action: 'LOG' })).toBeNull();
+        replyWith(JSON.stringify({ result: 'stored' }));
+        expect(await postToScript(URL, { action: 'LOG' })).toBeNull();
+        replyWith(JSON.stringify({ status: 'error', message: 'Sheet is locked' }));
+        expect(await postToScript(URL, { action: 'LOG' })).toBeNull();
+    });
+
+    it('treats an HTTP error as not written', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        replyWith('Server error', 500);
+        expect(await postToScript(URL, { action: 'LOG' })).toBeNull();
+    });
+});
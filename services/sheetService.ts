@@ -1,22 +1,16 @@
-import { ScanLog, User, Checkpoint } from "../types";
+import { ScanLog, User, OfficerShift, Checkpoint, QrSigningKey, PatrolRoute, SiteSettings, Incident, SosAlert, Breadcrumb, SyncMeta, PinCredential } from "../types";
+import { parseTimestamp, isValidTimeZone, getDeviceTimeZone } from "../utils";
+import { parseGeofence, parseLocationPolicy } from "./geofenceService";
+import { toLogRow, parseLogRows } from "./logSchema";
+import { DataBackend, DataSnapshot, PinCheckReply, collectPages, PAGE_SIZE } from "./dataBackend";
 
-// Default provided by user
-const DEFAULT_SCRIPT_URL = "https://script.google.com/macros/s/AKfycbw25h6Y4xPk6xmX09wH3J5Z8_-mq1IuOZL-9lyNKdRcIbqzS8sXzBpmJyXBvAY8QCRILQ/exec";
+// Google Sheets implementation of DataBackend, through an Apps Script web app.
+// Every call takes the script's /exec URL; createSheetsBackend binds it.
 
-// Load from storage, or fallback to the default URL
-let GOOGLE_SCRIPT_URL = localStorage.getItem('google_script_url') || DEFAULT_SCRIPT_URL;
-
-export const setScriptUrl = (url: string) => {
-    GOOGLE_SCRIPT_URL = url;
-    localStorage.setItem('google_script_url', url);
-};
-
-export const getScriptUrl = () => GOOGLE_SCRIPT_URL;
-
-export const testConnection = async (): Promise<{success: boolean; message: string}> => {
-    if (!GOOGLE_SCRIPT_URL) return { success: false, message: "No URL configured" };
+const testConnection = async (scriptUrl: string): Promise<{success: boolean; message: string}> => {
+    if (!scriptUrl) return { success: false, message: "No URL configured" };
     try {
-        const response = await fetch(GOOGLE_SCRIPT_URL);
+        const response = await fetch(scriptUrl);
         const data = await response.json();
         return { success: true, message: "Connected. Found " + (data.logs?.length || 0) + " logs." };
     } catch (e: any) {
@@ -24,89 +18,389 @@ export const testConnection = async (): Promise<{success: boolean; message: stri
     }
 }
 
-const sendToSheet = async (payload: any) => {
-    if (!GOOGLE_SCRIPT_URL) return false;
+// Apps Script answers POSTs through a redirect that carries CORS headers, so a plain
+// text/plain request (no preflight) lets us read the reply and know the write arrived.
+// Resolves to the parsed JSON reply when it says { status: "success" }, and to null otherwise:
+// network failure, HTTP error, an error reply, or anything that is not JSON. Apps Script serves
+// its own errors and quota pages as HTML with a 200, so a 2xx alone proves nothing.
+export const postToScript = async (scriptUrl: string, payload: any): Promise<any | null> => {
+    if (!scriptUrl) return null;
     try {
-        await fetch(GOOGLE_SCRIPT_URL, {
+        const response = await fetch(scriptUrl, {
             method: 'POST',
-            mode: 'no-cors',
             headers: { 'Content-Type': 'text/plain' },
             body: JSON.stringify(payload)
         });
-        return true;
+        if (!response.ok) {
+            console.error("Sheet Sync Error: HTTP", response.status);
+            return null;
+        }
+
+        const text = await response.text();
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(text);
+        } catch (e) {
+            console.error("Sheet Sync Error: reply is not JSON", text.slice(0, 200));
+            return null;
+        }
+        const reply = parsed && typeof parsed === 'object' ? parsed as Record<string, unknown> : null;
+        if (!reply || reply.status !== 'success') {
+            console.error("Sheet Sync Error:", reply?.message || "write not confirmed");
+            return null;
+        }
+        return reply;
     } catch (error) {
         console.error("Sheet Sync Error:", error);
-        return false;
+        return null;
     }
 }
 
+const sendToSheet = async (scriptUrl: string, payload: any): Promise<boolean> => (await postToScript(scriptUrl, payload)) !== null;
+
 // --- LOGGING ---
-export const saveLogToSheet = async (log: ScanLog): Promise<boolean> => {
+// One flat row per log in the versioned layout of logSchema
+const saveLogToSheet = async (scriptUrl: string, log: ScanLog): Promise<boolean> => {
     console.log("Saving log to sheet...");
-    return sendToSheet({ action: "LOG", ...log });
+    return sendToSheet(scriptUrl, { action: "LOG", ...toLogRow(log) });
 };
 
 // --- OFFICER MANAGEMENT ---
-export const addOfficerToSheet = async (officer: User): Promise<boolean> => {
+// Upserts carry updatedAt and deleted. Officers are deactivated (inactive: true), not deleted.
+const toOfficerRow = (officer: User) => ({
+    ...officer,
+    hasPin: !!officer.hasPin,
+    phone: officer.phone || "",
+    inactive: !!officer.inactive,
+    photoUrl: officer.photoUrl || "",
+    assignedSites: officer.assignedSites?.length ? JSON.stringify(officer.assignedSites) : "",
+    shift: officer.shift ? JSON.stringify(officer.shift) : ""
+});
+
+const addOfficerToSheet = async (scriptUrl: string, officer: User): Promise<boolean> => {
     console.log("Adding officer to sheet...");
-    return sendToSheet({ action: "ADD_OFFICER", ...officer });
+    return sendToSheet(scriptUrl, { action: "ADD_OFFICER", ...toOfficerRow(officer) });
 };
 
-export const removeOfficerFromSheet = async (officerId: string): Promise<boolean> => {
-    console.log("Removing officer from sheet...");
-    return sendToSheet({ action: "REMOVE_OFFICER", id: officerId });
+const updateOfficerInSheet = async (scriptUrl: string, officer: User): Promise<boolean> => {
+    console.log("Updating officer in sheet...");
+    return sendToSheet(scriptUrl, { action: "UPDATE_OFFICER", ...toOfficerRow(officer) });
 };
 
+// --- PIN LOGIN ---
+// The script keeps PIN hashes in a tab of their own that reads never return:
+//   GET ?resource=pinSalt&officerId=   -> { pinSalt } (null without a PIN)
+//   GET ?resource=setup                -> { needsAdmin } (true while no officer has a PIN)
+//   POST SET_PIN { officerId, pinHash, pinSalt }
+//   POST LOGIN { officerId, pinHash }  -> { result: "OK" | "WRONG_PIN" | "LOCKED" }, locking
+//        an officer for a few minutes after repeated wrong PINs
+//   POST CREATE_ADMIN { ...officer row, pinHash, pinSalt }, refused once any officer has a PIN
+// Older scripts answer the GETs with the full payload; that is read as "not supported".
+
+const fetchFromScript = async (scriptUrl: string, params: Record<string, string>): Promise<any | null> => {
+    if (!scriptUrl) return null;
+    try {
+        const separator = scriptUrl.includes('?') ? '&' : '?';
+        const response = await fetch(`${scriptUrl}${separator}${new URLSearchParams(params)}`);
+        return response.ok ? await response.json() : null;
+    } catch (error) {
+        console.error("Failed to reach the script", error);
+        return null;
+    }
+};
+
+const fetchPinSaltFromSheet = async (scriptUrl: string, officerId: string): Promise<{ pinSalt: string | null } | null> => {
+    const data = await fetchFromScript(scriptUrl, { resource: 'pinSalt', officerId });
+    if (!data || !('pinSalt' in data)) return null;
+    return { pinSalt: data.pinSalt ? String(data.pinSalt) : null };
+};
+
+const checkPinInSheet = async (scriptUrl: string, officerId: string, pinHash: string): Promise<PinCheckReply | null> => {
+    const reply = await postToScript(scriptUrl, { action: "LOGIN", officerId, pinHash });
+    return reply && ['OK', 'WRONG_PIN', 'LOCKED'].includes(reply.result) ? { result: reply.result } : null;
+};
+
+const setPinInSheet = async (scriptUrl: string, officerId: string, credential: PinCredential): Promise<boolean> =>
+    sendToSheet(scriptUrl, { action: "SET_PIN", officerId, ...credential });
+
+const fetchSetupStatusFromSheet = async (scriptUrl: string): Promise<{ needsAdmin: boolean } | null> => {
+    const data = await fetchFromScript(scriptUrl, { resource: 'setup' });
+    return data && typeof data.needsAdmin === 'boolean' ? { needsAdmin: data.needsAdmin } : null;
+};
+
+const createFirstAdminInSheet = async (scriptUrl: string, admin: User, credential: PinCredential): Promise<boolean> =>
+    sendToSheet(scriptUrl, { action: "CREATE_ADMIN", ...toOfficerRow(admin), ...credential });
+
 // --- CHECKPOINT MANAGEMENT ---
-export const addCheckpointToSheet = async (checkpoint: Checkpoint): Promise<boolean> => {
+// We stringify complex objects (location, schedule) to ensure they pass correctly as simple fields if needed by simple backend logic
+// But sending the raw JSON object usually works if the backend parses it. 
+// Sending flattened structure just in case.
+const toCheckpointRow = (checkpoint: Checkpoint) => ({
+    id: checkpoint.id,
+    name: checkpoint.name,
+    latitude: checkpoint.location.latitude,
+    longitude: checkpoint.location.longitude,
+    allowedRadiusMeters: checkpoint.allowedRadiusMeters,
+    geofence: checkpoint.geofence ? JSON.stringify(checkpoint.geofence) : "",
+    locationPolicy: checkpoint.locationPolicy ? JSON.stringify(checkpoint.locationPolicy) : "",
+    schedule: JSON.stringify(checkpoint.schedule || {}),
+    archived: !!checkpoint.archived,
+    issuedTag: checkpoint.issuedTag || "",
+    updatedAt: checkpoint.updatedAt || "",
+    deleted: !!checkpoint.deleted
+});
+
+const addCheckpointToSheet = async (scriptUrl: string, checkpoint: Checkpoint): Promise<boolean> => {
     console.log("Adding checkpoint to sheet...");
-    // We stringify complex objects (location, schedule) to ensure they pass correctly as simple fields if needed by simple backend logic
-    // But sending the raw JSON object usually works if the backend parses it. 
-    // Sending flattened structure just in case.
-    return sendToSheet({ 
-        action: "ADD_CHECKPOINT", 
-        id: checkpoint.id,
-        name: checkpoint.name,
-        latitude: checkpoint.location.latitude,
-        longitude: checkpoint.location.longitude,
-        allowedRadiusMeters: checkpoint.allowedRadiusMeters,
-        schedule: JSON.stringify(checkpoint.schedule || {}) 
+    return sendToSheet(scriptUrl, { action: "ADD_CHECKPOINT", ...toCheckpointRow(checkpoint) });
+};
+
+// Upserts by id: edits, archiving and tag reissues. Deleting sends the tombstone.
+const updateCheckpointInSheet = async (scriptUrl: string, checkpoint: Checkpoint): Promise<boolean> => {
+    console.log("Updating checkpoint in sheet...");
+    return sendToSheet(scriptUrl, { action: "UPDATE_CHECKPOINT", ...toCheckpointRow(checkpoint) });
+};
+
+// --- PATROL ROUTES ---
+// Deleting a route saves its tombstone (deleted: true)
+const saveRouteToSheet = async (scriptUrl: string, route: PatrolRoute): Promise<boolean> => {
+    console.log("Saving patrol route to sheet...");
+    return sendToSheet(scriptUrl, {
+        action: "SAVE_ROUTE",
+        id: route.id,
+        name: route.name,
+        checkpointIds: JSON.stringify(route.checkpointIds),
+        legMinutes: JSON.stringify(route.legMinutes),
+        deadlineMinutes: route.deadlineMinutes,
+        updatedAt: route.updatedAt || "",
+        deleted: !!route.deleted
+    });
+};
+
+// --- QR SIGNING KEYS ---
+// Upserts by version; revoking a key re-sends it with revoked: true
+const saveQrKeyToSheet = async (scriptUrl: string, key: QrSigningKey): Promise<boolean> => {
+    console.log("Publishing QR signing key to sheet...");
+    return sendToSheet(scriptUrl, {
+        action: "SAVE_QR_KEY",
+        version: key.version,
+        publicKey: JSON.stringify(key.publicKey),
+        createdAt: key.createdAt,
+        revoked: !!key.revoked
     });
 };
 
+// --- SITE SETTINGS ---
+const saveSettingsToSheet = async (scriptUrl: string, settings: SiteSettings): Promise<boolean> => {
+    console.log("Saving site settings to sheet...");
+    return sendToSheet(scriptUrl, { action: "SAVE_SETTINGS", ...settings });
+};
+
+// --- INCIDENTS ---
+// Upserts by id: status changes re-send the whole incident
+const saveIncidentToSheet = async (scriptUrl: string, incident: Incident): Promise<boolean> => {
+    console.log("Saving incident to sheet...");
+    return sendToSheet(scriptUrl, {
+        action: "SAVE_INCIDENT",
+        ...incident,
+        location: incident.location ? JSON.stringify(incident.location) : "",
+        photoUrls: JSON.stringify(incident.photoUrls)
+    });
+};
+
+// --- SOS ---
+// Upserts by id, so only the latest position of each alert is kept
+const saveSosToSheet = async (scriptUrl: string, alert: SosAlert): Promise<boolean> => {
+    console.log("Sending SOS update to sheet...");
+    return sendToSheet(scriptUrl, {
+        action: "SOS",
+        ...alert,
+        location: alert.location ? JSON.stringify(alert.location) : ""
+    });
+};
+
+// --- SHIFT TRACKER ---
+// One request per batch; the script appends one row per point
+const saveBreadcrumbsToSheet = async (scriptUrl: string, points: Breadcrumb[]): Promise<boolean> => {
+    console.log(`Uploading ${points.length} breadcrumbs to sheet...`);
+    return sendToSheet(scriptUrl, { action: "SAVE_BREADCRUMBS", points: JSON.stringify(points) });
+};
+
 // --- FETCHING DATA ---
-export const fetchAllDataFromSheet = async (): Promise<{ logs: ScanLog[], officers: User[], checkpoints: Checkpoint[] }> => {
-    if (!GOOGLE_SCRIPT_URL) return { logs: [], officers: [], checkpoints: [] };
+// Sheet cells may hold arrays as JSON strings
+const parseJsonArray = (value: any): any[] | undefined => {
+    if (Array.isArray(value)) return value;
+    if (typeof value !== 'string' || !value) return undefined;
+    try {
+        const parsed = JSON.parse(value);
+        return Array.isArray(parsed) ? parsed : undefined;
+    } catch (e) {
+        return undefined;
+    }
+};
+
+// Empty lists read as missing, as the app stores them, so they do not count as an edit when syncing
+const parseSites = (value: any): string[] | undefined => {
+    const sites = parseJsonArray(value)?.map(String).filter(Boolean);
+    return sites && sites.length > 0 ? sites : undefined;
+};
+
+// JSON cell ({"start":"22:00","end":"06:00","days":[1,2]}); anything else means no shift
+const parseShift = (value: any): OfficerShift | undefined => {
+    try {
+        const shift = typeof value === 'string' && value ? JSON.parse(value) : value;
+        if (!shift || typeof shift !== 'object') return undefined;
+        if (!/^\d{1,2}:\d{2}$/.test(shift.start) || !/^\d{1,2}:\d{2}$/.test(shift.end)) return undefined;
+        const days = Array.isArray(shift.days) ? shift.days.map(Number).filter((d: number) => Number.isInteger(d) && d >= 0 && d <= 6) : [];
+        return { start: shift.start, end: shift.end, days: days.length > 0 ? days : undefined };
+    } catch (e) {
+        return undefined;
+    }
+};
+
+// updatedAt and deleted columns; sheets from before sync tracking have neither
+const parseSyncMeta = (row: any): SyncMeta => ({
+    updatedAt: Number(row.updatedAt) || undefined,
+    deleted: row.deleted === true || row.deleted === 'true' || undefined
+});
+
+const parseSosAlerts = (rows: any): SosAlert[] => {
+    if (!Array.isArray(rows)) return [];
+    return rows.flatMap((row: any) => {
+        try {
+            return [{
+                id: String(row.id),
+                officerId: String(row.officerId),
+                officerName: row.officerName ? String(row.officerName) : String(row.officerId),
+                startedAt: Number(row.startedAt) || 0,
+                updatedAt: Number(row.updatedAt) || 0,
+                status: row.status === 'CANCELLED' ? 'CANCELLED' as const : 'ACTIVE' as const,
+                location: typeof row.location === 'string' && row.location ? JSON.parse(row.location) : row.location || undefined
+            }];
+        } catch (e) {
+            return [];
+        }
+    });
+};
+
+// Light poll for open dashboards. Scripts that ignore `resource` answer with the full payload,
+// which carries the same `sos` list.
+const fetchSosAlertsFromSheet = async (scriptUrl: string): Promise<SosAlert[] | null> => {
+    if (!scriptUrl) return null;
+    try {
+        const separator = scriptUrl.includes('?') ? '&' : '?';
+        const response = await fetch(`${scriptUrl}${separator}resource=sos`);
+        const data = await response.json();
+        return parseSosAlerts(data.sos);
+    } catch (error) {
+        console.error("Failed to fetch SOS alerts", error);
+        return null;
+    }
+};
 
+// Breadcrumbs are only fetched for the shift being replayed. Scripts that ignore the filter
+// answer with the full payload, so the rows are filtered again here.
+const fetchBreadcrumbsFromSheet = async (scriptUrl: string, officerId: string, shiftDate: string): Promise<Breadcrumb[] | null> => {
+    if (!scriptUrl) return null;
     try {
-        const response = await fetch(GOOGLE_SCRIPT_URL);
+        const separator = scriptUrl.includes('?') ? '&' : '?';
+        const query = `resource=breadcrumbs&officerId=${encodeURIComponent(officerId)}&shiftDate=${encodeURIComponent(shiftDate)}`;
+        const response = await fetch(`${scriptUrl}${separator}${query}`);
         const data = await response.json();
+        if (!Array.isArray(data.breadcrumbs)) return [];
+
+        return data.breadcrumbs
+            .map((row: any) => ({
+                id: String(row.id || `${row.officerId}-${row.timestamp}`),
+                officerId: String(row.officerId),
+                shiftDate: String(row.shiftDate),
+                timestamp: Number(row.timestamp),
+                latitude: Number(row.latitude),
+                longitude: Number(row.longitude),
+                accuracy: row.accuracy !== undefined && row.accuracy !== "" ? Number(row.accuracy) : undefined
+            }))
+            .filter((b: Breadcrumb) => b.officerId === officerId && b.shiftDate === shiftDate && Number.isFinite(b.latitude) && Number.isFinite(b.longitude));
+    } catch (error) {
+        console.error("Failed to fetch breadcrumbs", error);
+        return null;
+    }
+};
+
+// Incremental read: GET ?since=<cursor>&pageToken=<token>&pageSize=<n>. The reply carries
+// `cursor` (sent back as `since` next time), `delta: true` when it holds only rows changed after
+// `since`, and `nextPageToken` while more pages follow. Settings always come whole. Scripts that
+// ignore the parameters answer with everything, which is read as a full snapshot.
+// server/mock-apps-script.js implements this contract for local testing.
+const fetchSheetPage = async (scriptUrl: string, since?: string, pageToken?: string): Promise<any | null> => {
+    const params = new URLSearchParams({ pageSize: String(PAGE_SIZE) });
+    if (since) params.set('since', since);
+    if (pageToken) params.set('pageToken', pageToken);
+    const separator = scriptUrl.includes('?') ? '&' : '?';
+    try {
+        const response = await fetch(`${scriptUrl}${separator}${params}`);
+        if (!response.ok) {
+            console.error("Failed to fetch data from sheet: HTTP", response.status);
+            return null;
+        }
+        return await response.json();
+    } catch (error) {
+        console.error("Failed to fetch data from sheet", error);
+        return null;
+    }
+};
+
+// `timeZone` is only used to read legacy zone-less timestamps when the sheet has no site setting
+const fetchAllDataFromSheet = async (scriptUrl: string, timeZone: string = getDeviceTimeZone(), since?: string): Promise<DataSnapshot | null> => {
+    if (!scriptUrl) return null;
+
+    try {
+        const data = await collectPages(pageToken => fetchSheetPage(scriptUrl, since, pageToken));
+        if (!data) return null;
         
-        let parsedLogs: ScanLog[] = [];
         let parsedOfficers: User[] = [];
         let parsedCheckpoints: Checkpoint[] = [];
+        let parsedQrKeys: QrSigningKey[] = [];
+        let parsedRoutes: PatrolRoute[] = [];
+        let parsedIncidents: Incident[] = [];
+        let parsedSettings: Partial<SiteSettings> | null = null;
 
-        // Parse Logs
-        if (data.logs && Array.isArray(data.logs)) {
-             parsedLogs = data.logs.map((row: any, index: number) => ({
-                id: `sheet-${index}`, // Generate temp ID for sheet rows
-                checkpointName: row.checkpointName,
-                checkpointId: "unknown", // Sheet might not store raw ID, relying on Name
-                officerId: row.officerId,
-                status: row.status,
-                note: row.note,
-                timestamp: new Date(row.timestamp).getTime(),
-                distanceFromTarget: Number(row.distanceFromTarget) || 0,
-                userLocation: row.userLocation
-            }));
+        // Parse Site Settings first (a single key/value object): its time zone is needed for the logs
+        if (data.settings && typeof data.settings === 'object') {
+            parsedSettings = {};
+            if (typeof data.settings.shiftDayStart === 'string' && /^\d{1,2}:\d{2}$/.test(data.settings.shiftDayStart)) {
+                parsedSettings.shiftDayStart = data.settings.shiftDayStart;
+            }
+            if (typeof data.settings.timeZone === 'string' && isValidTimeZone(data.settings.timeZone)) {
+                parsedSettings.timeZone = data.settings.timeZone;
+            }
+            if (typeof data.settings.mapTileUrl === 'string') {
+                parsedSettings.mapTileUrl = data.settings.mapTileUrl;
+            }
+            if (typeof data.settings.mapTileAttribution === 'string') {
+                parsedSettings.mapTileAttribution = data.settings.mapTileAttribution;
+            }
         }
 
+        const siteTimeZone = parsedSettings?.timeZone || timeZone;
+
+        // Parse Logs (sheet row 1 is the header)
+        const { logs: parsedLogs, errors: logErrors } = parseLogRows(data.logs, siteTimeZone, "Log row", 2);
+        logErrors.forEach(message => console.warn(`Skipping ${message}`));
+
         // Parse Officers
         if (data.officers && Array.isArray(data.officers)) {
             parsedOfficers = data.officers.map((row: any) => ({
                 id: String(row.id),
                 name: row.name,
-                role: row.role
+                role: row.role,
+                // Older scripts still send the hash itself; it is not kept
+                hasPin: row.hasPin === true || row.hasPin === 'true' || !!row.pinHash || undefined,
+                phone: row.phone ? String(row.phone) : undefined,
+                inactive: row.inactive === true || row.inactive === 'true' || undefined,
+                photoUrl: row.photoUrl || undefined,
+                assignedSites: parseSites(row.assignedSites),
+                shift: parseShift(row.shift),
+                ...parseSyncMeta(row)
             }));
         }
 
@@ -131,21 +425,113 @@ export const fetchAllDataFromSheet = async (): Promise<{ logs: ScanLog[], office
                         longitude: Number(row.longitude)
                     },
                     allowedRadiusMeters: Number(row.allowedRadiusMeters) || 50,
-                    schedule: scheduleConfig as any
+                    geofence: parseGeofence(row.geofence),
+                    locationPolicy: parseLocationPolicy(row.locationPolicy),
+                    schedule: scheduleConfig as any,
+                    archived: row.archived === true || row.archived === 'true' || undefined,
+                    issuedTag: row.issuedTag ? String(row.issuedTag) : undefined,
+                    ...parseSyncMeta(row)
                 };
             });
         }
 
-        return { logs: parsedLogs, officers: parsedOfficers, checkpoints: parsedCheckpoints };
+        // Parse QR Signing Keys (public halves only)
+        if (data.qrKeys && Array.isArray(data.qrKeys)) {
+            parsedQrKeys = data.qrKeys.flatMap((row: any) => {
+                try {
+                    return [{
+                        version: Number(row.version),
+                        publicKey: typeof row.publicKey === 'string' ? JSON.parse(row.publicKey) : row.publicKey,
+                        createdAt: Number(row.createdAt) || 0,
+                        revoked: row.revoked === true || row.revoked === 'true'
+                    }];
+                } catch (e) {
+                    return [];
+                }
+            });
+        }
+
+        // Parse Patrol Routes
+        if (data.routes && Array.isArray(data.routes)) {
+            parsedRoutes = data.routes.map((row: any) => ({
+                id: String(row.id),
+                name: row.name,
+                checkpointIds: (parseJsonArray(row.checkpointIds) || []).map(String),
+                legMinutes: (parseJsonArray(row.legMinutes) || []).map(Number),
+                deadlineMinutes: Number(row.deadlineMinutes) || 60,
+                ...parseSyncMeta(row)
+            }));
+        }
+
+        // Parse Incidents
+        if (data.incidents && Array.isArray(data.incidents)) {
+            parsedIncidents = data.incidents.map((row: any) => {
+                let location;
+                try {
+                    location = typeof row.location === 'string' && row.location ? JSON.parse(row.location) : row.location || undefined;
+                } catch (e) {}
+
+                return {
+                    id: String(row.id),
+                    logId: String(row.logId || ""),
+                    category: row.category,
+                    severity: row.severity,
+                    description: row.description ? String(row.description) : "",
+                    checkpointId: row.checkpointId ? String(row.checkpointId) : undefined,
+                    checkpointName: row.checkpointName || undefined,
+                    reportedBy: row.reportedBy,
+                    reportedAt: parseTimestamp(row.reportedAt, siteTimeZone) || 0,
+                    location,
+                    photoUrls: (parseJsonArray(row.photoUrls) || []).map(String),
+                    status: row.status || 'OPEN',
+                    acknowledgedBy: row.acknowledgedBy || undefined,
+                    acknowledgedAt: parseTimestamp(row.acknowledgedAt, siteTimeZone) || undefined,
+                    resolvedBy: row.resolvedBy || undefined,
+                    resolvedAt: parseTimestamp(row.resolvedAt, siteTimeZone) || undefined,
+                    resolutionNote: row.resolutionNote || undefined,
+                    ...parseSyncMeta(row)
+                };
+            });
+        }
+
+        // Older sheets only store the checkpoint name on logs
+        const checkpointIdsByName = new Map(parsedCheckpoints.map(c => [c.name, c.id]));
+        const logs = parsedLogs.map(log => log.checkpointId === "unknown" && checkpointIdsByName.has(log.checkpointName)
+            ? { ...log, checkpointId: checkpointIdsByName.get(log.checkpointName)! }
+            : log);
+
+        return {
+            logs, logErrors, officers: parsedOfficers, checkpoints: parsedCheckpoints, qrKeys: parsedQrKeys, routes: parsedRoutes, incidents: parsedIncidents, sosAlerts: parseSosAlerts(data.sos), settings: parsedSettings,
+            cursor: data.cursor ? String(data.cursor) : undefined,
+            delta: !!since && data.delta === true
+        };
 
     } catch (error) {
-        console.error("Failed to fetch data from sheet", error);
-        return { logs: [], officers: [], checkpoints: [] };
+        console.error("Failed to read data from sheet", error);
+        return null;
     }
 };
 
-// Deprecated alias for compatibility if needed, but updated to use new fetch
-export const fetchLogsFromSheet = async (): Promise<ScanLog[]> => {
-    const data = await fetchAllDataFromSheet();
-    return data.logs;
-};
\ No newline at end of file
+export const createSheetsBackend = (scriptUrl: string): Omit<DataBackend, 'photoStorage'> => ({
+    kind: 'SHEETS',
+    testConnection: () => testConnection(scriptUrl),
+    fetchAll: (timeZone, since) => fetchAllDataFromSheet(scriptUrl, timeZone, since),
+    fetchSosAlerts: () => fetchSosAlertsFromSheet(scriptUrl),
+    fetchBreadcrumbs: (officerId, shiftDate) => fetchBreadcrumbsFromSheet(scriptUrl, officerId, shiftDate),
+    saveLog: log => saveLogToSheet(scriptUrl, log),
+    addOfficer: officer => addOfficerToSheet(scriptUrl, officer),
+    updateOfficer: officer => updateOfficerInSheet(scriptUrl, officer),
+    addCheckpoint: checkpoint => addCheckpointToSheet(scriptUrl, checkpoint),
+    updateCheckpoint: checkpoint => updateCheckpointInSheet(scriptUrl, checkpoint),
+    saveRoute: route => saveRouteToSheet(scriptUrl, route),
+    saveQrKey: key => saveQrKeyToSheet(scriptUrl, key),
+    saveSettings: settings => saveSettingsToSheet(scriptUrl, settings),
+    saveIncident: incident => saveIncidentToSheet(scriptUrl, incident),
+    saveSos: alert => saveSosToSheet(scriptUrl, alert),
+    saveBreadcrumbs: points => saveBreadcrumbsToSheet(scriptUrl, points),
+    fetchPinSalt: officerId => fetchPinSaltFromSheet(scriptUrl, officerId),
+    checkPin: (officerId, pinHash) => checkPinInSheet(scriptUrl, officerId, pinHash),
+    setOfficerPin: (officerId, credential) => setPinInSheet(scriptUrl, officerId, credential),
+    fetchSetupStatus: () => fetchSetupStatusFromSheet(scriptUrl),
+    createFirstAdmin: (admin, credential) => createFirstAdminInSheet(scriptUrl, admin, credential)
+});
@@ -0,0 +1,63 @@
+import { Coordinates, SosAlert, User } from "../types";
+import { calculateDistance } from "../utils";
+import { SHIFT_DURATION_MS } from "./authService";
+
+// Panic alerts. The officer's device keeps watching GPS and re-sends the alert with each
+// meaningful move, so the dashboard pin follows them until they cancel.
+
+const MIN_UPDATE_INTERVAL_MS = 10000;
+const MIN_UPDATE_DISTANCE_METERS = 10;
+const FORCED_UPDATE_INTERVAL_MS = 60000; // Heartbeat even when standing still
+
+export const createSosAlert = (user: User, location?: Coordinates, now: number = Date.now()): SosAlert => ({
+    id: `sos-${user.id}-${now}`,
+    officerId: user.id,
+    officerName: user.name,
+    startedAt: now,
+    updatedAt: now,
+    status: 'ACTIVE',
+    location
+});
+
+// Rate-limits GPS updates: a phone can report several positions a second
+export const shouldSendPosition = (alert: SosAlert, next: Coordinates, now: number = Date.now()): boolean => {
+    if (!alert.location) return true;
+    const elapsed = now - alert.updatedAt;
+    if (elapsed >= FORCED_UPDATE_INTERVAL_MS) return true;
+    if (elapsed < MIN_UPDATE_INTERVAL_MS) return false;
+    return calculateDistance(alert.location, next) >= MIN_UPDATE_DISTANCE_METERS;
+};
+
+// Start streaming positions. Returns a stop function for useEffect.
+export const watchSosPosition = (onPosition: (location: Coordinates) => void, onError: (message: string) => void): (() => void) => {
+    if (!navigator.geolocation) {
+        onError("Location is not available on this device. Your SOS was sent without a position.");
+        return () => {};
+    }
+    const watchId = navigator.geolocation.watchPosition(
+        position => onPosition({
+            latitude: position.coords.latitude,
+            longitude: position.coords.longitude,
+            accuracy: position.coords.accuracy
+        }),
+        error => onError(`Location unavailable: ${error.message}`),
+        { enableHighAccuracy: true, maximumAge: 5000, timeout: 30000 }
+    );
+    return () => navigator.geolocation.clearWatch(watchId);
+};
+
+// An alert whose phone went silent for a whole shift is treated as stale, not as an emergency
+export const isSosLive = (alert: SosAlert, now: number = Date.now()): boolean =>
+    alert.status === 'ACTIVE' && now - alert.updatedAt < SHIFT_DURATION_MS;
+
+// Cloud copies may lag behind the device that is sending: keep whichever update is newer
+export const mergeSosAlerts = (current: SosAlert[], incoming: SosAlert[]): SosAlert[] => {
+    const byId = new Map(current.map(a => [a.id, a]));
+    incoming.forEach(a => {
+        const existing = byId.get(a.id);
+        if (!existing || a.updatedAt > existing.updatedAt || (a.updatedAt === existing.updatedAt && a.status === 'CANCELLED')) {
+            byId.set(a.id, a);
+        }
+    });
+    return Array.from(byId.values());
+};
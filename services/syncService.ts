@@ -0,0 +1,237 @@
+import { SyncMeta } from "../types";
+
+// Merges the cloud copy of editable collections into this device's copy instead of replacing it.
+// Per record: the side that changed since the last pull wins; if both did, the newer updatedAt
+// wins and the clash is written to the conflict log. Deletions travel as tombstones
+// (deleted: true), so a record removed on one device is not revived by another.
+//
+// Bookkeeping per collection, kept on the device:
+//   seen: cloud updatedAt of each record at the last pull (the common base of both sides)
+//   sent: updatedAt of writes the backend confirmed, possibly not visible in a pull yet
+//   tombstones: deleted records, kept out of the app state
+
+export type SyncCollection = 'officers' | 'checkpoints' | 'routes' | 'incidents';
+
+export type SyncRecord = SyncMeta & { id: string };
+
+export interface SyncConflict {
+    id: string;
+    collection: SyncCollection;
+    recordId: string;
+    label: string; // Record name at the time of the conflict
+    kept: 'DEVICE' | 'CLOUD';
+    fields: string[]; // Fields on which the two copies disagreed
+    deviceUpdatedAt?: number;
+    cloudUpdatedAt?: number;
+    detectedAt: number;
+}
+
+interface CollectionState {
+    seen: Record<string, number>;
+    sent: Record<string, number>;
+    tombstones: SyncRecord[];
+}
+
+export interface MergeResult<T extends SyncRecord> {
+    records: T[]; // Live records for the app state
+    tombstones: T[];
+    toPush: T[]; // Device copies the backend has not confirmed (new, edited or deleted here)
+    seen: Record<string, number>;
+    sent: Record<string, number>;
+    conflicts: SyncConflict[];
+}
+
+const STATE_KEY = 'securepatrol_sync_state';
+const CONFLICTS_KEY = 'securepatrol_sync_conflicts';
+const MAX_CONFLICTS = 200;
+
+const version = (record?: SyncMeta) => record?.updatedAt || 0;
+
+const IGNORED_FIELDS = ['updatedAt'];
+
+const canonical = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(canonical);
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value)
+            .filter(([, field]) => field !== undefined)
+            .sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0)
+            .map(([key, field]) => [key, canonical(field)]));
+    }
+    return value;
+};
+
+// Fields whose values differ, ignoring key order and the version stamp
+const differingFields = (a: object, b: object): string[] => {
+    const left: Record<string, unknown> = { ...a };
+    const right: Record<string, unknown> = { ...b };
+    const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+    return [...keys].filter(key => !IGNORED_FIELDS.includes(key)
+        && JSON.stringify(canonical(left[key])) !== JSON.stringify(canonical(right[key])));
+};
+
+export const stamp = <T extends SyncMeta>(record: T, now: number = Date.now()): T => ({ ...record, updatedAt: now });
+
+export const mergeRecords = <T extends SyncRecord>(
+    collection: SyncCollection,
+    device: T[],
+    cloud: T[],
+    state: { seen: Record<string, number>; sent: Record<string, number> },
+    label: (record: T) => string,
+    now: number = Date.now()
+): MergeResult<T> => {
+    const deviceById = new Map(device.map(r => [r.id, r]));
+    const cloudById = new Map(cloud.map(r => [r.id, r]));
+    const kept: T[] = [];
+    const toPush: T[] = [];
+    const conflicts: SyncConflict[] = [];
+    const sent: Record<string, number> = {};
+
+    for (const c of cloud) {
+        const d = deviceById.get(c.id);
+        if (!d) {
+            kept.push(c);
+            continue;
+        }
+        const fields = differingFields(d, c);
+        if (fields.length === 0) {
+            kept.push(c);
+            continue;
+        }
+
+        const base = state.seen[c.id];
+        const deviceChanged = version(d) > (base ?? version(c));
+        const cloudChanged = version(c) > (base ?? version(d));
+        const deviceWins = deviceChanged && (!cloudChanged || version(d) > version(c));
+        if (deviceChanged && cloudChanged) {
+            conflicts.push({
+                id: `${collection}-${c.id}-${now}`,
+                collection,
+                recordId: c.id,
+                label: label(deviceWins ? d : c),
+                kept: deviceWins ? 'DEVICE' : 'CLOUD',
+                fields,
+                deviceUpdatedAt: d.updatedAt,
+                cloudUpdatedAt: c.updatedAt,
+                detectedAt: now
+            });
+        }
+        kept.push(deviceWins ? d : c);
+        if (deviceWins && version(d) > (state.sent[c.id] || 0)) toPush.push(d);
+        if (deviceWins && state.sent[c.id]) sent[c.id] = state.sent[c.id];
+    }
+
+    for (const d of device) {
+        if (cloudById.has(d.id)) continue;
+        // Was in the cloud at the last pull and is gone now: removed there outright
+        if (state.seen[d.id] !== undefined) continue;
+        // Never edited on this device (defaults, data from before sync tracking): the cloud has the say
+        if (!d.updatedAt) continue;
+        kept.push(d);
+        if (version(d) > (state.sent[d.id] || 0)) toPush.push(d);
+        else sent[d.id] = state.sent[d.id];
+    }
+
+    return {
+        records: kept.filter(r => !r.deleted),
+        tombstones: kept.filter(r => r.deleted),
+        toPush,
+        seen: Object.fromEntries(cloud.map(c => [c.id, version(c)])),
+        sent,
+        conflicts
+    };
+};
+
+// --- DEVICE STATE ---
+
+const loadState = (): Partial<Record<SyncCollection, CollectionState>> => {
+    try {
+        return JSON.parse(localStorage.getItem(STATE_KEY) || '{}') || {};
+    } catch (e) {
+        return {};
+    }
+};
+
+const getCollectionState = (collection: SyncCollection): CollectionState => ({
+    seen: {},
+    sent: {},
+    tombstones: [],
+    ...loadState()[collection]
+});
+
+const saveCollectionState = (collection: SyncCollection, state: CollectionState) => {
+    localStorage.setItem(STATE_KEY, JSON.stringify({ ...loadState(), [collection]: state }));
+};
+
+// Merge and persist the bookkeeping. `device` is the live app state; tombstones are added here.
+export const syncCollection = <T extends SyncRecord>(
+    collection: SyncCollection,
+    device: T[],
+    cloud: T[],
+    label: (record: T) => string
+): MergeResult<T> => {
+    const state = getCollectionState(collection);
+    const deviceById = new Map<string, T>(device.map(r => [r.id, r]));
+    for (const tombstone of state.tombstones as T[]) {
+        const live = deviceById.get(tombstone.id);
+        if (!live || version(tombstone) >= version(live)) deviceById.set(tombstone.id, tombstone);
+    }
+
+    const result = mergeRecords(collection, [...deviceById.values()], cloud, state, label);
+    saveCollectionState(collection, { seen: result.seen, sent: result.sent, tombstones: result.tombstones });
+    if (result.conflicts.length > 0) {
+        console.warn(`Sync conflicts in ${collection}:`, result.conflicts);
+        saveConflicts([...result.conflicts, ...getSyncConflicts()]);
+    }
+    return result;
+};
+
+// Call once the backend confirmed a write of `record`
+export const markSent = (collection: SyncCollection, record: SyncRecord) => {
+    const state = getCollectionState(collection);
+    state.sent = { ...state.sent, [record.id]: Math.max(version(record), state.sent[record.id] || 0) };
+    saveCollectionState(collection, state);
+};
+
+// Send a record and remember the confirmation. Resolves to whether the backend confirmed it.
+export const sendRecord = async <T extends SyncRecord>(
+    collection: SyncCollection,
+    record: T,
+    send: (record: T) => Promise<boolean>
+): Promise<boolean> => {
+    const confirmed = await send(record);
+    if (confirmed) markSent(collection, record);
+    return confirmed;
+};
+
+// Turns a record into its tombstone and keeps it on the device until the cloud has it
+export const deleteRecord = <T extends SyncRecord>(collection: SyncCollection, record: T, now: number = Date.now()): T => {
+    const tombstone = { ...record, deleted: true, updatedAt: now };
+    const state = getCollectionState(collection);
+    state.tombstones = [...state.tombstones.filter(t => t.id !== record.id), tombstone];
+    saveCollectionState(collection, state);
+    return tombstone;
+};
+
+// Forget all bookkeeping, e.g. after the device data was reset to defaults
+export const resetSyncState = (collections: SyncCollection[]) => {
+    const state = loadState();
+    collections.forEach(c => delete state[c]);
+    localStorage.setItem(STATE_KEY, JSON.stringify(state));
+};
+
+// --- CONFLICT LOG ---
+
+export const getSyncConflicts = (): SyncConflict[] => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(CONFLICTS_KEY) || '[]');
+        return Array.isArray(saved) ? saved : [];
+    } catch (e) {
+        return [];
+    }
+};
+
+const saveConflicts = (conflicts: SyncConflict[]) => {
+    localStorage.setItem(CONFLICTS_KEY, JSON.stringify(conflicts.slice(0, MAX_CONFLICTS)));
+};
+
+export const clearSyncConflicts = () => localStorage.removeItem(CONFLICTS_KEY);
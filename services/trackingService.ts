@@ -0,0 +1,121 @@
+import { Breadcrumb, Coordinates } from "../types";
+import { calculateDistance } from "../utils";
+import { STORES, idbGetAll, idbPut, idbDeleteMany } from "./localDb";
+import { getBackend } from "./backendService";
+import { shiftDateOf, formatShiftDate, SiteClock } from "./scheduleService";
+
+// Opt-in shift tracker. Positions from watchPosition are thinned on the device (only real
+// moves, plus a heartbeat while standing still), kept in IndexedDB and uploaded in batches.
+
+const MAX_ACCURACY_METERS = 75; // Worse fixes would draw zig-zags through buildings
+const MIN_DISTANCE_METERS = 15;
+const HEARTBEAT_MS = 5 * 60 * 1000; // Still record a point when standing still, so idle time shows up
+const BATCH_SIZE = 50;
+const BATCH_INTERVAL_MS = 2 * 60 * 1000;
+
+export type TrackerStatus = 'ACTIVE' | 'NO_SIGNAL' | 'UNAVAILABLE';
+
+// Thinning rule for a new fix against the last point kept
+export const keepBreadcrumb = (last: Breadcrumb | null, next: Coordinates, timestamp: number): boolean => {
+    if (next.accuracy !== undefined && next.accuracy > MAX_ACCURACY_METERS) return false;
+    if (!last) return true;
+    if (timestamp - last.timestamp >= HEARTBEAT_MS) return true;
+    // A move smaller than the fix's own uncertainty is noise
+    const threshold = Math.max(MIN_DISTANCE_METERS, next.accuracy || 0);
+    return calculateDistance(last, next) >= threshold;
+};
+
+let flushing: Promise<void> | null = null;
+
+// Upload everything waiting on the device. Points are only deleted once the sheet confirms.
+export const flushBreadcrumbs = (): Promise<void> => {
+    if (flushing) return flushing;
+    flushing = (async () => {
+        try {
+            if (!navigator.onLine) return;
+            const pending = (await idbGetAll<Breadcrumb>(STORES.BREADCRUMBS)).sort((a, b) => a.timestamp - b.timestamp);
+            for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+                const batch = pending.slice(i, i + BATCH_SIZE);
+                if (!(await getBackend().saveBreadcrumbs(batch))) return; // Retry on the next tick
+                await idbDeleteMany(STORES.BREADCRUMBS, batch.map(b => b.id));
+            }
+        } catch (error) {
+            console.error("Breadcrumb upload failed:", error);
+        }
+    })().finally(() => {
+        flushing = null;
+    });
+    return flushing;
+};
+
+// Points recorded on this device that have not been uploaded yet
+export const getLocalBreadcrumbs = async (officerId: string, shiftDate: string): Promise<Breadcrumb[]> => {
+    try {
+        const all = await idbGetAll<Breadcrumb>(STORES.BREADCRUMBS);
+        return all.filter(b => b.officerId === officerId && b.shiftDate === shiftDate);
+    } catch (error) {
+        console.error("Breadcrumb read failed:", error);
+        return [];
+    }
+};
+
+// Start recording. Returns a stop function for useEffect; stopping uploads what is left.
+export const startShiftTracker = (
+    officerId: string,
+    clock: SiteClock,
+    onStatus: (status: TrackerStatus, message?: string) => void
+): (() => void) => {
+    if (!navigator.geolocation) {
+        onStatus('UNAVAILABLE', "Location is not available on this device.");
+        return () => {};
+    }
+
+    let last: Breadcrumb | null = null;
+    let sinceFlush = 0;
+
+    const watchId = navigator.geolocation.watchPosition(
+        position => {
+            onStatus('ACTIVE');
+            const timestamp = position.timestamp || Date.now();
+            const next: Coordinates = {
+                latitude: position.coords.latitude,
+                longitude: position.coords.longitude,
+                accuracy: position.coords.accuracy
+            };
+            if (!keepBreadcrumb(last, next, timestamp)) return;
+
+            const crumb: Breadcrumb = {
+                id: `${officerId}-${timestamp}`,
+                officerId,
+                shiftDate: formatShiftDate(shiftDateOf(timestamp, clock)),
+                timestamp,
+                latitude: next.latitude,
+                longitude: next.longitude,
+                accuracy: next.accuracy !== undefined ? Math.round(next.accuracy) : undefined
+            };
+            last = crumb;
+            idbPut(STORES.BREADCRUMBS, crumb)
+                .then(() => {
+                    if (++sinceFlush >= BATCH_SIZE) {
+                        sinceFlush = 0;
+                        flushBreadcrumbs();
+                    }
+                })
+                .catch(error => console.error("Breadcrumb save failed:", error));
+        },
+        error => onStatus('NO_SIGNAL', error.message),
+        { enableHighAccuracy: true, maximumAge: 10000, timeout: 60000 }
+    );
+
+    const timer = window.setInterval(() => {
+        sinceFlush = 0;
+        flushBreadcrumbs();
+    }, BATCH_INTERVAL_MS);
+    flushBreadcrumbs(); // Leftovers from an earlier shift
+
+    return () => {
+        navigator.geolocation.clearWatch(watchId);
+        window.clearInterval(timer);
+        flushBreadcrumbs();
+    };
+};
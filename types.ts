@@ -1,5 +1,6 @@
 export enum Role {
   ADMIN = 'ADMIN',
+  SUPERVISOR = 'SUPERVISOR', // Reviews the dashboard, cannot change configuration
   OFFICER = 'OFFICER'
 }
 
@@ -9,6 +10,12 @@ export interface Coordinates {
   accuracy?: number; // GPS Accuracy in meters
 }
 
+// Sync bookkeeping on records that several devices can edit (see syncService)
+export interface SyncMeta {
+  updatedAt?: number; // Epoch ms of the last edit; the newer copy wins a conflict
+  deleted?: boolean; // Tombstone: kept so the deletion reaches other devices
+}
+
 export type ScheduleType = 'NONE' | 'FIXED_TIME' | 'INTERVAL';
 
 export interface ScheduleConfig {
@@ -19,39 +26,201 @@ export interface ScheduleConfig {
   intervalMinutes?: number;
   // Window of leniency in minutes (e.g. check within +/- 15 mins)
   toleranceMinutes?: number; 
+  // Minutes after the tolerance window during which a scan is recorded as LATE instead of rejected
+  lateGraceMinutes?: number;
+  // Weekdays (0 = Sunday) the schedule runs on, judged by shift date. Empty or missing = every day.
+  activeDays?: number[];
+  // Per fixed time ("HH:mm") weekday restriction, e.g. { "10:00": [0, 6] } for a weekend-only slot
+  fixedTimeDays?: Record<string, number[]>;
+}
+
+// Site-wide settings shared by every device
+export interface SiteSettings {
+  // "HH:mm" at which a new shift date begins. "18:00" keeps a 22:00-06:00 night shift on one date.
+  shiftDayStart: string;
+  // IANA zone (e.g. "Asia/Bangkok") for schedules, display and export, whatever the device clock says
+  timeZone: string;
+  // Map tile template ({z}/{x}/{y}); empty uses OpenStreetMap. Point it at a local tile server for offline sites.
+  mapTileUrl?: string;
+  mapTileAttribution?: string;
 }
 
-export interface Checkpoint {
+// What to do when the phone reports weak GPS at a checkpoint
+// STRICT: weak GPS earns no benefit of the doubt (outdoor perimeter posts)
+// TRUST_QR_INDOORS: the scanned tag vouches for the visit (basements, stairwells)
+// REQUIRE_PHOTO: the tag vouches only together with a photo
+export type LocationPolicyMode = 'STRICT' | 'TRUST_QR_INDOORS' | 'REQUIRE_PHOTO';
+
+export interface LocationPolicy {
+  mode: LocationPolicyMode;
+  weakAccuracyMeters: number; // Fixes less accurate than this count as weak GPS
+}
+
+export interface Checkpoint extends SyncMeta {
   id: string;
   name: string;
   location: Coordinates;
   allowedRadiusMeters: number;
+  // Optional polygon outline (3+ vertices in order). When set it replaces the radius check.
+  geofence?: Coordinates[];
+  locationPolicy?: LocationPolicy; // Defaults to trusting the QR below 100m accuracy
   schedule?: ScheduleConfig; // Flexible scheduling
+  archived?: boolean; // Retired: no longer scanned or scheduled, kept so old logs still point at it
+  issuedTag?: string; // Tag content last printed or written to NFC (see checkpointService)
+}
+
+// Ordered tour of checkpoints, patrolled as one round
+export interface PatrolRoute extends SyncMeta {
+  id: string;
+  name: string;
+  checkpointIds: string[]; // Visiting order
+  // Expected walking time (minutes) from the previous stop, aligned with checkpointIds. First entry is ignored.
+  legMinutes: number[];
+  deadlineMinutes: number; // Whole round must be finished this long after it starts
 }
 
+// One officer walking a route. Stored on the device while in progress; logs carry its id.
+export interface PatrolRound {
+  id: string;
+  routeId: string;
+  officerId: string;
+  startedAt: number;
+}
+
+export type RouteFlag = 'OUT_OF_ORDER' | 'SKIPPED_STOPS' | 'BEHIND_SCHEDULE';
+
 export enum ScanStatus {
   VALID = 'VALID',
   INVALID_LOCATION = 'INVALID_LOCATION',
   INVALID_TIME = 'INVALID_TIME',
   LATE = 'LATE',
-  ISSUE_REPORTED = 'ISSUE_REPORTED'
+  ISSUE_REPORTED = 'ISSUE_REPORTED',
+  INVALID_TAG = 'INVALID_TAG', // QR signature missing, forged or from a revoked key
+  SIMULATED = 'SIMULATED' // Demo tap-to-scan: no tag was read, never counts as a visit
 }
 
+// Upload state of a log held in the local outbox. Logs fetched from the cloud have none.
+export type SyncState = 'PENDING' | 'SENT' | 'FAILED';
+
+export type ScanMethod = 'QR' | 'NFC' | 'MANUAL';
+
 export interface ScanLog {
   id: string;
   checkpointId: string;
   checkpointName: string;
-  officerId: string;
+  officerId: string; // Raw officer ID; older logs hold "Name (ID)" (see officerService)
   timestamp: number;
   status: ScanStatus;
   note?: string;
   userLocation?: Coordinates;
   distanceFromTarget?: number;
-  evidencePhotoUrl?: string; // Placeholder for base64 or url
+  evidencePhotoUrl?: string; // Full-size photo, set once the photo is uploaded
+  evidenceThumbnailUrl?: string;
+  evidencePhotoPending?: boolean; // Photo is still on the device, waiting in the outbox
+  syncState?: SyncState;
+  shiftDate?: string; // "YYYY-MM-DD" of the shift the scan belongs to
+  // Set when the scan was part of a patrol round
+  routeId?: string;
+  roundId?: string;
+  routeFlags?: RouteFlag[];
+  skippedCheckpointIds?: string[];
+  incidentId?: string; // Set on the ISSUE_REPORTED log created with an incident
+  scanMethod?: ScanMethod; // How the checkpoint was identified; MANUAL is the demo tap-to-scan list
+  // Mock-location heuristics: 0-100, with the signals that contributed
+  riskScore?: number;
+  riskReasons?: string[];
+}
+
+export enum IncidentCategory {
+  INTRUSION = 'INTRUSION',
+  FIRE_HAZARD = 'FIRE_HAZARD',
+  MAINTENANCE = 'MAINTENANCE',
+  MEDICAL = 'MEDICAL'
+}
+
+export enum IncidentSeverity {
+  LOW = 'LOW',
+  MEDIUM = 'MEDIUM',
+  HIGH = 'HIGH',
+  CRITICAL = 'CRITICAL'
+}
+
+// OPEN -> ACKNOWLEDGED -> RESOLVED, moved forward by supervisors
+export type IncidentStatus = 'OPEN' | 'ACKNOWLEDGED' | 'RESOLVED';
+
+// Reported by an officer; the matching ISSUE_REPORTED log keeps it on the patrol timeline
+export interface Incident extends SyncMeta {
+  id: string;
+  logId: string;
+  category: IncidentCategory;
+  severity: IncidentSeverity;
+  description: string;
+  checkpointId?: string; // Optional: incidents can happen between checkpoints
+  checkpointName?: string;
+  reportedBy: string; // Officer ID, like acknowledgedBy and resolvedBy
+  reportedAt: number;
+  location?: Coordinates;
+  // The first photo travels with the log (evidencePhotoUrl); these are the extra ones
+  photoUrls: string[];
+  status: IncidentStatus;
+  acknowledgedBy?: string;
+  acknowledgedAt?: number;
+  resolvedBy?: string;
+  resolvedAt?: number;
+  resolutionNote?: string;
+}
+
+// One sampled position from the opt-in shift tracker
+export interface Breadcrumb {
+  id: string; // `${officerId}-${timestamp}`
+  officerId: string;
+  shiftDate: string; // "YYYY-MM-DD", same as on logs
+  timestamp: number;
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+}
+
+// Panic alert raised by an officer. Re-sent as a whole on every position update until cancelled.
+export interface SosAlert {
+  id: string;
+  officerId: string;
+  officerName: string;
+  startedAt: number;
+  updatedAt: number; // Time of the latest position (or of the cancel)
+  status: 'ACTIVE' | 'CANCELLED';
+  location?: Coordinates; // Latest known position
+}
+
+// Public half of a QR tag signing key. Private keys never leave the admin device.
+export interface QrSigningKey {
+  version: number;
+  publicKey: JsonWebKey;
+  createdAt: number;
+  revoked?: boolean;
+}
+
+// Rostered shift in site time. An end before the start runs past midnight.
+export interface OfficerShift {
+  start: string; // "HH:mm"
+  end: string;
+  days?: number[]; // Weekdays (0 = Sunday) by shift date. Empty or missing = every day.
+}
+
+// Salted PBKDF2 hash of a login PIN (hex). The PIN itself is never stored.
+export interface PinCredential {
+  pinHash: string;
+  pinSalt: string;
 }
 
-export interface User {
+export interface User extends SyncMeta {
   id: string;
   name: string;
   role: Role;
+  hasPin?: boolean; // The PIN hash itself is write-only: backends never return it
+  phone?: string;
+  inactive?: boolean; // Deactivated: cannot sign in, kept so their logs and incidents still resolve
+  photoUrl?: string; // Badge photo
+  assignedSites?: string[]; // Sites or posts the officer covers
+  shift?: OfficerShift;
 }
\ No newline at end of file
@@ -23,12 +23,94 @@ export const calculateDistance = (
   return R * c; // Distance in meters
 };
 
-export const formatTime = (timestamp: number): string => {
-  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+// --- TIME ZONE UTILITIES ---
+// Timestamps are stored as epoch ms (UTC). Anything shown to people or matched against a
+// schedule is converted to the site's IANA time zone, never the device's.
+
+export const getDeviceTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (e) {
+    return false;
+  }
 };
 
-export const formatDate = (timestamp: number): string => {
-  return new Date(timestamp).toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' });
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+export const getZonedParts = (timestamp: number, timeZone: string): ZonedParts => {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone, hourCycle: 'h23', weekday: 'short',
+      year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric'
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+  const parts: Record<string, string> = {};
+  formatter.formatToParts(new Date(timestamp)).forEach(p => { parts[p.type] = p.value; });
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday)
+  };
+};
+
+// Epoch ms of a wall-clock time in `timeZone`. Minutes past 24h roll into the following days.
+// During a DST gap the result lands just after the jump, as most clocks behave.
+export const zonedTimeToEpoch = (year: number, month: number, day: number, minutes: number, timeZone: string): number => {
+  const wallClockAsUtc = Date.UTC(year, month - 1, day) + minutes * 60000;
+  const offsetAt = (epoch: number) => {
+    const p = getZonedParts(epoch, timeZone);
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute) - Math.floor(epoch / 60000) * 60000;
+  };
+  const guess = wallClockAsUtc - offsetAt(wallClockAsUtc);
+  return wallClockAsUtc - offsetAt(guess);
+};
+
+export const formatTime = (timestamp: number, timeZone?: string): string => {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone });
+};
+
+export const formatDate = (timestamp: number, timeZone?: string): string => {
+  return new Date(timestamp).toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric', timeZone });
+};
+
+// Sheet cells come back as epoch numbers, numeric strings, ISO strings or, from older rows,
+// zone-less date strings. The last kind is read as wall-clock time in the site's zone.
+export const parseTimestamp = (value: unknown, timeZone: string): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const text = value.trim();
+  if (/^\d+$/.test(text)) return Number(text);
+
+  const hasZone = /(Z|[+-]\d{2}:?\d{2})$/i.test(text) || /\b(GMT|UTC)\b/i.test(text);
+  const parsed = Date.parse(text);
+  if (Number.isNaN(parsed)) return null;
+  if (hasZone) return parsed;
+
+  // Date.parse used the device zone; re-read the same wall clock in the site zone
+  const local = new Date(parsed);
+  return zonedTimeToEpoch(
+    local.getFullYear(), local.getMonth() + 1, local.getDate(),
+    local.getHours() * 60 + local.getMinutes() + local.getSeconds() / 60,
+    timeZone
+  );
 };
 
 // Get Current Position with High Accuracy & Metadata
@@ -54,6 +136,60 @@ export const getCurrentPosition = (): Promise<Coordinates> => {
   });
 };
 
+// Logs carry the raw officer ID; older ones "Name (ID)"
+export const isOfficersLog = (log: ScanLog, officerId: string): boolean =>
+  log.officerId === officerId || log.officerId.endsWith(`(${officerId})`);
+
+// --- QR UTILITIES ---
+export interface QrPayload {
+  checkpointId: string;
+  keyVersion?: number;
+  signature?: string;
+}
+
+// Build the deep-link URL printed on a checkpoint tag
+export const buildQrValue = (baseUrl: string, checkpointId: string, signed?: { keyVersion: number; signature: string } | null): string => {
+  const cleanBase = baseUrl.endsWith('/') ? baseUrl.slice(0, -1) : baseUrl;
+  const params = new URLSearchParams({ checkpointId });
+  if (signed) {
+    params.set('kv', String(signed.keyVersion));
+    params.set('sig', signed.signature);
+  }
+  return `${cleanBase}?${params.toString()}`;
+};
+
+// Parse a decoded QR string or deep link.
+// Accepts the full URL printed by AdminQrSetup (?checkpointId=...&kv=...&sig=...) or a bare ID.
+export const parseQrPayload = (raw: string): QrPayload | null => {
+  const value = raw.trim();
+  if (!value) return null;
+
+  let params: URLSearchParams | null = null;
+  if (/^https?:\/\//i.test(value)) {
+    try {
+      params = new URL(value).searchParams;
+    } catch (e) {
+      return null;
+    }
+  } else if (value.includes('checkpointId=')) {
+    params = new URLSearchParams(value.slice(value.indexOf('?') + 1));
+  }
+
+  if (params) {
+    const checkpointId = params.get('checkpointId');
+    if (!checkpointId) return null;
+    const kv = params.get('kv');
+    return {
+      checkpointId,
+      keyVersion: kv !== null && /^\d+$/.test(kv) ? Number(kv) : undefined,
+      signature: params.get('sig') || undefined
+    };
+  }
+
+  // Bare IDs never contain whitespace or URL syntax
+  return /^[\w-]+$/.test(value) ? { checkpointId: value } : null;
+};
+
 // --- UTM CONVERSION UTILITIES ---
 // Simplified logic to convert Lat/Long to UTM String for display
 export const latLonToUtm = (lat: number, lon: number): string => {
@@ -106,20 +242,23 @@ export const downloadFile = (content: string, fileName: string, contentType: str
   URL.revokeObjectURL(a.href);
 };
 
-export const convertLogsToCSV = (logs: ScanLog[]): string => {
-  const header = "Date,Time,Checkpoint Name,Officer ID,Status,Note,Distance Deviation (m),Location Lat,Location Lng,Accuracy (m)\n";
+export const convertLogsToCSV = (logs: ScanLog[], timeZone: string = getDeviceTimeZone()): string => {
+  const header = `Timestamp (UTC),Date (${timeZone}),Time (${timeZone}),Shift Date,Checkpoint Name,Officer ID,Status,Note,Distance Deviation (m),Location Lat,Location Lng,Accuracy (m),Photo URL,Location Risk,Risk Reasons,Scan Method\n`;
   const rows = logs.map(log => {
-    const date = formatDate(log.timestamp);
-    const time = formatTime(log.timestamp);
+    const p = getZonedParts(log.timestamp, timeZone);
+    const date = `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+    const time = `${String(p.hour).padStart(2, '0')}:${String(p.minute).padStart(2, '0')}`;
     const note = log.note ? `"${log.note.replace(/"/g, '""')}"` : "";
     const status = log.status;
     const distance = log.distanceFromTarget ? Math.round(log.distanceFromTarget) : "";
     const lat = log.userLocation?.latitude || "";
     const lng = log.userLocation?.longitude || "";
     const acc = log.userLocation?.accuracy ? Math.round(log.userLocation.accuracy) : "";
+    const risk = log.riskScore !== undefined ? log.riskScore : "";
+    const reasons = log.riskReasons?.length ? `"${log.riskReasons.join('; ').replace(/"/g, '""')}"` : "";
     
-    return `${date},${time},"${log.checkpointName}",${log.officerId},${status},${note},${distance},${lat},${lng},${acc}`;
+    return `${new Date(log.timestamp).toISOString()},${date},${time},${log.shiftDate || ""},"${log.checkpointName}",${log.officerId},${status},${note},${distance},${lat},${lng},${acc},${log.evidencePhotoUrl || ""},${risk},${reasons},${log.scanMethod || ""}`;
   }).join("\n");
 
   return header + rows;
-};
\ No newline at end of file
+};
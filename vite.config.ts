@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.BACKEND_KIND': JSON.stringify(env.SECUREPATROL_BACKEND_KIND || 'SHEETS'),
+        'process.env.BACKEND_URL': JSON.stringify(env.SECUREPATROL_BACKEND_URL || '')
       },
       resolve: {
         alias: {